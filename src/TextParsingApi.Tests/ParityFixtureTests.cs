@@ -0,0 +1,93 @@
+using System.Text.Json;
+using TextParsingApi.Models;
+using TextParsingApi.Services;
+using TextParsingApi.Services.Implementation;
+using TextParsingApi.Validation;
+
+namespace TextParsingApi.Tests;
+
+/// <summary>
+/// Runs the fixture corpus shared with the UI's local parsing engine
+/// (text-parsing-ui/src/parsing/fixtures) so both engines are held to the same expected results
+/// </summary>
+public class ParityFixtureTests
+{
+    private static readonly string FixturePath = Path.Combine(AppContext.BaseDirectory, "Fixtures", "parityFixtures.json");
+    private static readonly JsonSerializerOptions JsonOptions = new(JsonSerializerDefaults.Web);
+
+    private readonly ITextParsingService _textParsingService;
+
+    public ParityFixtureTests()
+    {
+        var validationRules = new ValidationRules();
+        var xmlParsingService = new XmlParsingService(validationRules);
+        var taxCalculationService = new TaxCalculationService();
+        _textParsingService = new TextParsingService(xmlParsingService, taxCalculationService, validationRules);
+    }
+
+    public static IEnumerable<object[]> FixtureNames() =>
+        LoadFixtures().Select(fixture => new object[] { fixture.Name });
+
+    [Theory]
+    [MemberData(nameof(FixtureNames))]
+    public async Task ParseTextAsync_SharedFixture_ShouldMatchExpectedResult(string fixtureName)
+    {
+        // Arrange
+        var fixture = LoadFixtures().Single(f => f.Name == fixtureName);
+        var expected = fixture.Expected;
+
+        // Act
+        var result = await _textParsingService.ParseTextAsync(fixture.Content, fixture.Jurisdiction);
+
+        // Assert
+        Assert.Equal(expected.IsValid, result.IsValid);
+        Assert.Equal(expected.Errors, result.Errors);
+        // Every error comes with details (an unclosed-tag error has one per tag)
+        Assert.Equal(expected.Errors, result.ErrorDetails.Select(error => error.Message).Distinct());
+
+        Assert.Equal(expected.XmlBlocks.Count, result.XmlBlocks.Count);
+        for (var i = 0; i < expected.XmlBlocks.Count; i++)
+        {
+            Assert.Equal(expected.XmlBlocks[i].TagName, result.XmlBlocks[i].TagName);
+            Assert.Equal(expected.XmlBlocks[i].RawXml, result.XmlBlocks[i].RawXml);
+            AssertFieldsEqual(expected.XmlBlocks[i].Fields, result.XmlBlocks[i].Fields);
+        }
+
+        AssertFieldsEqual(expected.TaggedFields, result.TaggedFields);
+
+        if (expected.Calculations == null)
+        {
+            Assert.Null(result.Calculations);
+        }
+        else
+        {
+            Assert.NotNull(result.Calculations);
+            Assert.Equal(expected.Calculations.TotalIncludingTax, result.Calculations.TotalIncludingTax);
+            Assert.Equal(expected.Calculations.TaxAmount, result.Calculations.TaxAmount);
+            Assert.Equal(expected.Calculations.TotalExcludingTax, result.Calculations.TotalExcludingTax);
+            Assert.Equal(expected.Calculations.TaxRate, result.Calculations.TaxRate);
+            Assert.Equal(expected.Calculations.TaxName, result.Calculations.TaxName);
+            Assert.Equal(expected.Calculations.Currency, result.Calculations.Currency);
+            Assert.Equal(expected.Calculations.Jurisdiction, result.Calculations.Jurisdiction);
+        }
+    }
+
+    private static void AssertFieldsEqual(Dictionary<string, string> expected, Dictionary<string, string> actual)
+    {
+        Assert.Equal(expected.OrderBy(field => field.Key), actual.OrderBy(field => field.Key));
+    }
+
+    private static List<ParityFixture> LoadFixtures()
+    {
+        var json = File.ReadAllText(FixturePath);
+        return JsonSerializer.Deserialize<List<ParityFixture>>(json, JsonOptions) ?? new List<ParityFixture>();
+    }
+
+    private class ParityFixture
+    {
+        public string Name { get; set; } = string.Empty;
+        public string Content { get; set; } = string.Empty;
+        public string? Jurisdiction { get; set; }
+        public ParseResultDto Expected { get; set; } = new();
+    }
+}
@@ -96,6 +96,41 @@ William";
         Assert.Contains("Unclosed tag detected", result.Errors);
     }
 
+    [Fact]
+    public async Task ParseTextAsync_UnclosedTag_ShouldReportEachTagWithItsPosition()
+    {
+        // Arrange
+        var content = @"<expense><cost_centre>DEV632<total>1000</total></expense>";
+
+        // Act
+        var result = await _textParsingService.ParseTextAsync(content);
+
+        // Assert
+        var unclosed = result.ErrorDetails.Where(error => error.Code == ErrorCodes.UnclosedTag).ToList();
+        Assert.Equal(new[] { "expense", "cost_centre", "expense" }, unclosed.Select(error => error.TagName));
+        Assert.Equal(new int?[] { 47, 9, 0 }, unclosed.Select(error => error.Offset));
+        Assert.Equal(new int?[] { 10, 13, 9 }, unclosed.Select(error => error.Length));
+        Assert.All(unclosed, error => Assert.Equal("Unclosed tag detected", error.Message));
+        Assert.Contains(result.ErrorDetails, error => error.Code == ErrorCodes.MalformedXml && error.TagName == "expense");
+    }
+
+    [Fact]
+    public async Task ParseTextAsync_MissingTotal_ShouldReportTheRequiredField()
+    {
+        // Arrange
+        var content = @"<expense><cost_centre>DEV632</cost_centre></expense>";
+
+        // Act
+        var result = await _textParsingService.ParseTextAsync(content);
+
+        // Assert
+        var error = Assert.Single(result.ErrorDetails);
+        Assert.Equal(ErrorCodes.MissingRequiredField, error.Code);
+        Assert.Equal(ErrorSeverities.Error, error.Severity);
+        Assert.Equal("total", error.TagName);
+        Assert.Null(error.Offset);
+    }
+
     [Fact]
     public async Task ParseTextAsync_MissingCostCentre_ShouldUseDefault()
     {
@@ -109,4 +144,60 @@ William";
         Assert.True(result.IsValid);
         Assert.Equal("UNKNOWN", result.TaggedFields["cost_centre"]);
     }
+
+    [Fact]
+    public async Task ParseTextAsync_NoJurisdiction_ShouldUseNzGst()
+    {
+        // Arrange
+        var content = @"<expense><total>115</total></expense>";
+
+        // Act
+        var result = await _textParsingService.ParseTextAsync(content);
+
+        // Assert
+        Assert.NotNull(result.Calculations);
+        Assert.Equal(15m, result.Calculations.TaxAmount);
+        Assert.Equal("GST", result.Calculations.TaxName);
+        Assert.Equal("NZD", result.Calculations.Currency);
+        Assert.Equal("NZ", result.Calculations.Jurisdiction);
+    }
+
+    [Theory]
+    [InlineData("AU", 10, "GST", "AUD", 110, 10, 100)]
+    [InlineData("uk", 20, "VAT", "GBP", 120, 20, 100)]
+    [InlineData("UK", 20, "VAT", "GBP", 35000, 5833.33, 29166.67)]
+    public async Task ParseTextAsync_WithJurisdiction_ShouldUseItsRateAndCurrency(
+        string jurisdiction, decimal rate, string taxName, string currency,
+        decimal total, decimal expectedTax, decimal expectedExcludingTax)
+    {
+        // Arrange
+        var content = $"<expense><total>{total}</total></expense>";
+
+        // Act
+        var result = await _textParsingService.ParseTextAsync(content, jurisdiction);
+
+        // Assert
+        Assert.True(result.IsValid);
+        Assert.NotNull(result.Calculations);
+        Assert.Equal(rate, result.Calculations.TaxRate);
+        Assert.Equal(taxName, result.Calculations.TaxName);
+        Assert.Equal(currency, result.Calculations.Currency);
+        Assert.Equal(expectedTax, result.Calculations.TaxAmount);
+        Assert.Equal(expectedExcludingTax, result.Calculations.TotalExcludingTax);
+    }
+
+    [Fact]
+    public async Task ParseTextAsync_UnsupportedJurisdiction_ShouldReturnError()
+    {
+        // Arrange
+        var content = @"<expense><total>100</total></expense>";
+
+        // Act
+        var result = await _textParsingService.ParseTextAsync(content, "US");
+
+        // Assert
+        Assert.False(result.IsValid);
+        Assert.Contains("Unsupported tax jurisdiction: US", result.Errors);
+        Assert.Null(result.Calculations);
+    }
 }
@@ -44,7 +44,7 @@ public class TextParserController : ControllerBase
                 });
             }
 
-            var result = await _textParsingService.ParseTextAsync(request.Content);
+            var result = await _textParsingService.ParseTextAsync(request.Content, request.Jurisdiction);
 
             if (result.IsValid)
             {
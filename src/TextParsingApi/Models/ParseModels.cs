@@ -6,6 +6,11 @@ namespace TextParsingApi.Models;
 public class ParseRequestDto
 {
     public string Content { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Tax jurisdiction code (NZ, AU or UK). Defaults to NZ when omitted.
+    /// </summary>
+    public string? Jurisdiction { get; set; }
 }
 
 /// <summary>
@@ -18,6 +23,11 @@ public class ParseResultDto
     public TaxCalculationDto? Calculations { get; set; }
     public bool IsValid { get; set; }
     public List<string> Errors { get; set; } = new();
+
+    /// <summary>
+    /// The errors with their codes and positions, plus any validation warnings
+    /// </summary>
+    public List<ErrorDetailDto> ErrorDetails { get; set; } = new();
 }
 
 /// <summary>
@@ -39,6 +49,9 @@ public class TaxCalculationDto
     public decimal TaxAmount { get; set; }
     public decimal TotalExcludingTax { get; set; }
     public decimal TaxRate { get; set; }
+    public string TaxName { get; set; } = string.Empty;
+    public string Currency { get; set; } = string.Empty;
+    public string Jurisdiction { get; set; } = string.Empty;
 }
 
 /// <summary>
@@ -49,6 +62,51 @@ public class ValidationResult
     public bool IsValid { get; set; }
     public List<string> Errors { get; set; } = new();
     public Dictionary<string, string> Warnings { get; set; } = new();
+
+    /// <summary>
+    /// The errors with their codes and positions (one per tag for unclosed tags)
+    /// </summary>
+    public List<ErrorDetailDto> ErrorDetails { get; set; } = new();
+}
+
+/// <summary>
+/// An error or warning tied to the rule that raised it and, where known, to the text that caused it
+/// </summary>
+public class ErrorDetailDto
+{
+    public string Code { get; set; } = string.Empty;
+    public string Severity { get; set; } = ErrorSeverities.Error;
+    public string Message { get; set; } = string.Empty;
+    public string? TagName { get; set; }
+
+    /// <summary>
+    /// Offset of the offending text in the submitted content; null when the error has no single place in it
+    /// </summary>
+    public int? Offset { get; set; }
+    public int? Length { get; set; }
+}
+
+/// <summary>
+/// Codes for ErrorDetailDto.Code - the UI rejects codes it does not know, so add new ones there too
+/// </summary>
+public static class ErrorCodes
+{
+    public const string EmptyContent = "empty-content";
+    public const string UnclosedTag = "unclosed-tag";
+    public const string MalformedXml = "malformed-xml";
+    public const string MissingRequiredField = "missing-required-field";
+    public const string InvalidField = "invalid-field";
+    public const string InvalidTotal = "invalid-total";
+    public const string UnsupportedJurisdiction = "unsupported-jurisdiction";
+    public const string ParsingError = "parsing-error";
+    public const string ValidationWarning = "validation-warning";
+}
+
+public static class ErrorSeverities
+{
+    public const string Error = "error";
+    public const string Warning = "warning";
+    public const string Info = "info";
 }
 
 /// <summary>
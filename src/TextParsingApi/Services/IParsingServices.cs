@@ -1,4 +1,5 @@
 using TextParsingApi.Models;
+using TextParsingApi.Validation;
 
 namespace TextParsingApi.Services;
 
@@ -8,9 +9,10 @@ namespace TextParsingApi.Services;
 public interface ITextParsingService
 {
     /// <summary>
-    /// Parses text content to extract XML blocks and tagged fields
+    /// Parses text content to extract XML blocks and tagged fields,
+    /// calculating tax for the given jurisdiction code (NZ when omitted)
     /// </summary>
-    Task<ParseResultDto> ParseTextAsync(string content);
+    Task<ParseResultDto> ParseTextAsync(string content, string? jurisdictionCode = null);
 
     /// <summary>
     /// Validates text content according to business rules
@@ -49,6 +51,11 @@ public interface ITaxCalculationService
     /// </summary>
     TaxCalculationDto CalculateFromTotalIncludingTax(decimal totalIncludingTax);
 
+    /// <summary>
+    /// Calculates tax from total amount including tax for a specific jurisdiction
+    /// </summary>
+    TaxCalculationDto CalculateFromTotalIncludingTax(decimal totalIncludingTax, TaxJurisdiction jurisdiction);
+
     /// <summary>
     /// Validates and extracts total amount from parsed data
     /// </summary>
@@ -7,7 +7,7 @@ using TextParsingApi.Validation;
 namespace TextParsingApi.Services.Implementation;
 
 /// <summary>
-/// Service for tax calculations based on NZ GST model
+/// Service for tax calculations on tax-inclusive totals (NZ GST by default)
 /// </summary>
 public class TaxCalculationService : ITaxCalculationService
 {
@@ -17,7 +17,16 @@ public class TaxCalculationService : ITaxCalculationService
     /// </summary>
     public TaxCalculationDto CalculateFromTotalIncludingTax(decimal totalIncludingTax)
     {
-        var taxAmount = totalIncludingTax * (ValidationRules.GST_RATE / ValidationRules.TAX_DIVISOR);
+        return CalculateFromTotalIncludingTax(totalIncludingTax, TaxJurisdictions.Default);
+    }
+
+    /// <summary>
+    /// Calculates tax from total amount including tax at the jurisdiction's rate
+    /// Formula: Tax Amount = Total × (Rate ÷ (100 + Rate)), e.g. 10 ÷ 110 for AU GST
+    /// </summary>
+    public TaxCalculationDto CalculateFromTotalIncludingTax(decimal totalIncludingTax, TaxJurisdiction jurisdiction)
+    {
+        var taxAmount = totalIncludingTax * (jurisdiction.TaxRate / (100.0m + jurisdiction.TaxRate));
         var totalExcludingTax = totalIncludingTax - taxAmount;
 
         return new TaxCalculationDto
@@ -25,7 +34,10 @@ public class TaxCalculationService : ITaxCalculationService
             TotalIncludingTax = totalIncludingTax,
             TaxAmount = Math.Round(taxAmount, 2),
             TotalExcludingTax = Math.Round(totalExcludingTax, 2),
-            TaxRate = ValidationRules.GST_RATE
+            TaxRate = jurisdiction.TaxRate,
+            TaxName = jurisdiction.TaxName,
+            Currency = jurisdiction.Currency,
+            Jurisdiction = jurisdiction.Code
         };
     }
 
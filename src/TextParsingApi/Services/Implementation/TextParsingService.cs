@@ -1,3 +1,4 @@
+using System.Text.RegularExpressions;
 using TextParsingApi.Models;
 using TextParsingApi.Services;
 using TextParsingApi.Validation;
@@ -9,6 +10,9 @@ namespace TextParsingApi.Services.Implementation;
 /// </summary>
 public class TextParsingService : ITextParsingService
 {
+    // The value of the first <total> element, pointed at when it cannot be read as an amount
+    private static readonly Regex TotalValueRegex = new(@"<total>([^<]*)</total>", RegexOptions.IgnoreCase);
+
     private readonly IXmlParsingService _xmlParsingService;
     private readonly ITaxCalculationService _taxCalculationService;
     private readonly ValidationRules _validationRules;
@@ -26,12 +30,21 @@ public class TextParsingService : ITextParsingService
     /// <summary>
     /// Main parsing method that coordinates all parsing operations
     /// </summary>
-    public async Task<ParseResultDto> ParseTextAsync(string content)
+    public async Task<ParseResultDto> ParseTextAsync(string content, string? jurisdictionCode = null)
     {
         var result = new ParseResultDto();
 
+        if (!TaxJurisdictions.TryGet(jurisdictionCode, out var jurisdiction))
+        {
+            result.IsValid = false;
+            AddError(result, ErrorCodes.UnsupportedJurisdiction,
+                string.Format(_validationRules.GetMessages().UnsupportedJurisdictionError, jurisdictionCode));
+            return result;
+        }
+
         // Step 1: Validate content structure
         var validationResult = await ValidateContentAsync(content);
+        result.ErrorDetails.AddRange(validationResult.ErrorDetails);
         if (!validationResult.IsValid)
         {
             result.IsValid = false;
@@ -46,11 +59,12 @@ public class TextParsingService : ITextParsingService
             result.TaggedFields = await _xmlParsingService.ExtractTaggedFieldsAsync(content);
 
             // Step 3: Apply validation rules
-            var missingRequiredFields = _validationRules.GetMissingRequiredFields(result.XmlBlocks, result.TaggedFields);
+            var missingRequiredFields = _validationRules.GetMissingRequiredFieldErrors(result.XmlBlocks, result.TaggedFields);
             if (missingRequiredFields.Any())
             {
                 result.IsValid = false;
-                result.Errors.AddRange(missingRequiredFields);
+                result.Errors.AddRange(missingRequiredFields.Select(error => error.Message));
+                result.ErrorDetails.AddRange(missingRequiredFields);
                 return result;
             }
 
@@ -61,12 +75,15 @@ public class TextParsingService : ITextParsingService
             var totalAmount = _taxCalculationService.ExtractTotalAmount(result.XmlBlocks, result.TaggedFields);
             if (totalAmount.HasValue)
             {
-                result.Calculations = _taxCalculationService.CalculateFromTotalIncludingTax(totalAmount.Value);
+                result.Calculations = _taxCalculationService.CalculateFromTotalIncludingTax(totalAmount.Value, jurisdiction);
             }
             else
             {
                 result.IsValid = false;
-                result.Errors.Add(_validationRules.GetMessages().InvalidTotalFormatError);
+                var totalValue = TotalValueRegex.Match(content);
+                AddError(result, ErrorCodes.InvalidTotal, _validationRules.GetMessages().InvalidTotalFormatError, "total",
+                    totalValue.Success ? (int?)totalValue.Groups[1].Index : null,
+                    totalValue.Success ? (int?)totalValue.Groups[1].Length : null);
                 return result;
             }
 
@@ -75,12 +92,28 @@ public class TextParsingService : ITextParsingService
         catch (Exception ex)
         {
             result.IsValid = false;
-            result.Errors.Add($"Parsing error: {ex.Message}");
+            AddError(result, ErrorCodes.ParsingError, $"Parsing error: {ex.Message}");
         }
 
         return result;
     }
 
+    /// <summary>
+    /// Adds an error message along with its detail
+    /// </summary>
+    private static void AddError(ParseResultDto result, string code, string message, string? tagName = null, int? offset = null, int? length = null)
+    {
+        result.Errors.Add(message);
+        result.ErrorDetails.Add(new ErrorDetailDto
+        {
+            Code = code,
+            Message = message,
+            TagName = tagName,
+            Offset = offset,
+            Length = length
+        });
+    }
+
     /// <summary>
     /// Validates content according to all business rules
     /// </summary>
@@ -93,6 +126,11 @@ public class TextParsingService : ITextParsingService
         {
             result.IsValid = false;
             result.Errors.Add(_validationRules.GetMessages().EmptyContentError);
+            result.ErrorDetails.Add(new ErrorDetailDto
+            {
+                Code = ErrorCodes.EmptyContent,
+                Message = _validationRules.GetMessages().EmptyContentError
+            });
             return result;
         }
 
@@ -102,6 +140,7 @@ public class TextParsingService : ITextParsingService
         {
             result.IsValid = false;
             result.Errors.AddRange(xmlValidation.Errors);
+            result.ErrorDetails.AddRange(xmlValidation.ErrorDetails);
             return result;
         }
 
@@ -14,6 +14,7 @@ public class XmlParsingService : IXmlParsingService
 {
     private static readonly Regex TaggedFieldRegex = new(@"<(\w+)>([^<]+)</\1>", RegexOptions.IgnoreCase);
     private static readonly Regex XmlBlockFinderRegex = new(@"<(\w+)>.*?</\1>", RegexOptions.Singleline | RegexOptions.IgnoreCase);
+    private static readonly Regex TagAtRegex = new(@"\G</?\w+>");
     private readonly ValidationRules _validationRules;
 
     public XmlParsingService(ValidationRules validationRules)
@@ -151,6 +152,11 @@ public class XmlParsingService : IXmlParsingService
         {
             result.IsValid = false;
             result.Errors.Add(_validationRules.GetMessages().EmptyContentError);
+            result.ErrorDetails.Add(new ErrorDetailDto
+            {
+                Code = ErrorCodes.EmptyContent,
+                Message = _validationRules.GetMessages().EmptyContentError
+            });
             return result;
         }
 
@@ -158,8 +164,18 @@ public class XmlParsingService : IXmlParsingService
         var unclosedTags = FindUnclosedTags(content);
         if (unclosedTags.Any())
         {
+            var message = _validationRules.GetMessages().UnclosedTagError;
             result.IsValid = false;
-            result.Errors.Add(_validationRules.GetMessages().UnclosedTagError);
+            result.Errors.Add(message);
+            // One message for the content, but a detail for each tag so the UI can point at it
+            result.ErrorDetails.AddRange(unclosedTags.Select(tag => new ErrorDetailDto
+            {
+                Code = ErrorCodes.UnclosedTag,
+                Message = message,
+                TagName = tag.Groups[2].Value.ToLower(),
+                Offset = tag.Index,
+                Length = tag.Length
+            }));
         }
 
         // Validate XML structure for XML blocks using XDocument
@@ -170,13 +186,23 @@ public class XmlParsingService : IXmlParsingService
             {
                 XDocument.Parse(match.Value);
             }
-            catch (XmlException)
+            catch (XmlException ex)
             {
                 result.IsValid = false;
                 // Extract the root tag name from the match for the error
                 var rootTagMatch = Regex.Match(match.Value, @"<(\w+)");
                 var rootTagName = rootTagMatch.Success ? rootTagMatch.Groups[1].Value : "unknown";
-                result.Errors.Add($"{_validationRules.GetMessages().MalformedXmlError}: {rootTagName}");
+                var message = $"{_validationRules.GetMessages().MalformedXmlError}: {rootTagName}";
+                var (offset, length) = LocateXmlError(content, match, ex);
+                result.Errors.Add(message);
+                result.ErrorDetails.Add(new ErrorDetailDto
+                {
+                    Code = ErrorCodes.MalformedXml,
+                    Message = message,
+                    TagName = rootTagName,
+                    Offset = offset,
+                    Length = length
+                });
             }
         }
 
@@ -184,12 +210,58 @@ public class XmlParsingService : IXmlParsingService
     }
 
     /// <summary>
-    /// Finds unclosed tags in the content using improved logic
+    /// Finds the text to point at for a malformed block: the whole tag the parser stopped in,
+    /// a stray '&lt;' it has just read, or else the single character it gave up on
+    /// </summary>
+    private static (int Offset, int Length) LocateXmlError(string content, Match block, XmlException exception)
+    {
+        var errorOffset = block.Index + OffsetInText(block.Value, exception.LineNumber, exception.LinePosition);
+        var tagStart = content.LastIndexOf('<', errorOffset);
+
+        if (tagStart >= block.Index)
+        {
+            var tag = TagAtRegex.Match(content, tagStart);
+            if (tag.Success && tagStart + tag.Length > errorOffset)
+            {
+                return (tagStart, tag.Length);
+            }
+            if (errorOffset - tagStart <= 1)
+            {
+                return (tagStart, 1);
+            }
+        }
+
+        return (errorOffset, 1);
+    }
+
+    /// <summary>
+    /// Converts a 1-based line and position reported by XmlException into an offset within the text,
+    /// kept inside the text when the parser reports a position past its end
+    /// </summary>
+    private static int OffsetInText(string text, int lineNumber, int linePosition)
+    {
+        var offset = 0;
+        for (var line = 1; line < lineNumber; line++)
+        {
+            var nextLine = text.IndexOf('\n', offset);
+            if (nextLine < 0)
+            {
+                break;
+            }
+            offset = nextLine + 1;
+        }
+
+        return Math.Clamp(offset + Math.Max(linePosition - 1, 0), 0, text.Length - 1);
+    }
+
+    /// <summary>
+    /// Finds unclosed tags in the content: closing tags that do not match the most recent open tag,
+    /// followed by open tags that are never closed (innermost first)
     /// </summary>
-    private static List<string> FindUnclosedTags(string content)
+    private static List<Match> FindUnclosedTags(string content)
     {
-        var unclosedTags = new List<string>();
-        var tagStack = new Stack<string>();
+        var unclosedTags = new List<Match>();
+        var tagStack = new Stack<Match>();
 
         // Find all opening and closing tags in order
         var allTagMatches = Regex.Matches(content, @"<(/?)(\w+)>", RegexOptions.IgnoreCase);
@@ -202,20 +274,20 @@ public class XmlParsingService : IXmlParsingService
             if (isClosing)
             {
                 // Closing tag
-                if (tagStack.Count > 0 && tagStack.Peek() == tagName)
+                if (tagStack.Count > 0 && tagStack.Peek().Groups[2].Value.ToLower() == tagName)
                 {
                     tagStack.Pop(); // Properly closed
                 }
                 else
                 {
                     // Mismatched closing tag - could indicate unclosed tag
-                    unclosedTags.Add(tagName);
+                    unclosedTags.Add(match);
                 }
             }
             else
             {
                 // Opening tag
-                tagStack.Push(tagName);
+                tagStack.Push(match);
             }
         }
 
@@ -225,6 +297,6 @@ public class XmlParsingService : IXmlParsingService
             unclosedTags.Add(tagStack.Pop());
         }
 
-        return unclosedTags.Distinct().ToList();
+        return unclosedTags;
     }
 }
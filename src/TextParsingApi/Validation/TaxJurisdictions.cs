@@ -0,0 +1,70 @@
+namespace TextParsingApi.Validation;
+
+/// <summary>
+/// Tax rules for a country the API can calculate claims for
+/// </summary>
+public class TaxJurisdiction
+{
+    public string Code { get; init; } = string.Empty;
+    public string Name { get; init; } = string.Empty;
+    public string TaxName { get; init; } = string.Empty;
+    public decimal TaxRate { get; init; }
+    public string Currency { get; init; } = string.Empty;
+}
+
+/// <summary>
+/// Supported tax jurisdictions. Totals are treated as tax-inclusive, so tax is
+/// Total × (TaxRate ÷ (100 + TaxRate)) in every jurisdiction.
+/// </summary>
+public static class TaxJurisdictions
+{
+    public static readonly TaxJurisdiction NewZealand = new()
+    {
+        Code = "NZ",
+        Name = "New Zealand",
+        TaxName = "GST",
+        TaxRate = ValidationRules.GST_RATE,
+        Currency = "NZD"
+    };
+
+    public static readonly TaxJurisdiction Australia = new()
+    {
+        Code = "AU",
+        Name = "Australia",
+        TaxName = "GST",
+        TaxRate = 10.0m,
+        Currency = "AUD"
+    };
+
+    public static readonly TaxJurisdiction UnitedKingdom = new()
+    {
+        Code = "UK",
+        Name = "United Kingdom",
+        TaxName = "VAT",
+        TaxRate = 20.0m,
+        Currency = "GBP"
+    };
+
+    /// <summary>
+    /// Used when a request does not name a jurisdiction, keeping existing clients on NZ GST
+    /// </summary>
+    public static TaxJurisdiction Default => NewZealand;
+
+    public static IReadOnlyList<TaxJurisdiction> All { get; } = new[] { NewZealand, Australia, UnitedKingdom };
+
+    /// <summary>
+    /// Looks up a jurisdiction by code (case-insensitive). An empty code selects the default.
+    /// </summary>
+    public static bool TryGet(string? code, out TaxJurisdiction jurisdiction)
+    {
+        if (string.IsNullOrWhiteSpace(code))
+        {
+            jurisdiction = Default;
+            return true;
+        }
+
+        var match = All.FirstOrDefault(j => j.Code.Equals(code.Trim(), StringComparison.OrdinalIgnoreCase));
+        jurisdiction = match ?? Default;
+        return match != null;
+    }
+}
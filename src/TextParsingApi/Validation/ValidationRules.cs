@@ -72,6 +72,7 @@ public class ValidationMessages
     public string InvalidTotalFormatError { get; set; } = "Invalid total amount format";
     public string EmptyContentError { get; set; } = "Content cannot be empty";
     public string MissingRequiredFieldError { get; set; } = "Missing required field: {0}";
+    public string UnsupportedJurisdictionError { get; set; } = "Unsupported tax jurisdiction: {0}";
 }
 
 /// <summary>
@@ -83,7 +84,6 @@ public class ValidationRules
 
     // Tax calculation constants (NZ GST) - these remain static as they're regulatory
     public const decimal GST_RATE = 15.0m;
-    public const decimal TAX_DIVISOR = 115.0m; // 100 + GST_RATE
 
     public ValidationRules(ValidationConfiguration? configuration = null)
     {
@@ -123,7 +123,15 @@ public class ValidationRules
     /// </summary>
     public List<string> GetMissingRequiredFields(List<XmlBlockDto> xmlBlocks, Dictionary<string, string> taggedFields)
     {
-        var missingFields = new List<string>();
+        return GetMissingRequiredFieldErrors(xmlBlocks, taggedFields).Select(error => error.Message).ToList();
+    }
+
+    /// <summary>
+    /// Checks if all required fields are present, reporting each failure with the field it is about
+    /// </summary>
+    public List<ErrorDetailDto> GetMissingRequiredFieldErrors(List<XmlBlockDto> xmlBlocks, Dictionary<string, string> taggedFields)
+    {
+        var missingFields = new List<ErrorDetailDto>();
         var allFields = new Dictionary<string, string>(taggedFields, StringComparer.OrdinalIgnoreCase);
 
         // Add XML block fields to the collection
@@ -146,13 +154,23 @@ public class ValidationRules
                 var errorMessage = !string.IsNullOrEmpty(rule.CustomErrorMessage)
                     ? rule.CustomErrorMessage
                     : string.Format(_configuration.Messages.MissingRequiredFieldError, rule.FieldName);
-                missingFields.Add(errorMessage);
+                missingFields.Add(new ErrorDetailDto
+                {
+                    Code = ErrorCodes.MissingRequiredField,
+                    Message = errorMessage,
+                    TagName = rule.FieldName
+                });
             }
             // Apply custom validation if provided
             else if (rule.CustomValidator != null && !rule.CustomValidator(allFields[rule.FieldName]))
             {
                 var errorMessage = rule.CustomErrorMessage ?? $"Invalid value for field: {rule.FieldName}";
-                missingFields.Add(errorMessage);
+                missingFields.Add(new ErrorDetailDto
+                {
+                    Code = ErrorCodes.InvalidField,
+                    Message = errorMessage,
+                    TagName = rule.FieldName
+                });
             }
         }
 
@@ -1,6 +1,7 @@
 import { test, expect } from '@playwright/test';
 
-test.describe('Text Parsing Application E2E Tests', () => {
+// Runs against the live .NET API: `npm run test:e2e:real-api`. The error paths are covered by scenarios.spec.ts
+test.describe('Text Parsing Application E2E Tests', { tag: '@real-api' }, () => {
   test.beforeEach(async ({ page }) => {
     // Navigate to the app with retry logic
     try {
@@ -0,0 +1,148 @@
+import { test, expect, Page } from '@playwright/test';
+import { mockApi, mockExchange, RecordedExchange } from './support/mockApi';
+import health from './fixtures/health.json';
+import validExpense from './fixtures/valid-expense.json';
+import unclosedTag from './fixtures/unclosed-tag.json';
+import missingTotal from './fixtures/missing-total.json';
+import malformedResponse from './fixtures/malformed-response.json';
+import serverError from './fixtures/server-error.json';
+
+/**
+ * Fixture-driven scenarios: the API is answered from ./fixtures, so each test asserts the exact
+ * outcome of one path through the UI. The suite tagged @real-api (app.spec.ts) covers the live server.
+ */
+
+// Failed parses are retried three times with backoff before the UI gives up, which takes up to 3.5 s
+const RETRIED_TIMEOUT_MS = 15000;
+const ATTEMPTS_PER_REQUEST = 4;
+
+const submitText = async (page: Page, content: string) => {
+  await page.getByLabel('Text Input').fill(content);
+  await page.getByRole('button', { name: 'Submit' }).click();
+};
+
+const calculation = (page: Page, label: string) =>
+  page.locator('.parse-results .calculation-item').filter({ hasText: label }).locator('.calculation-value');
+
+test.describe('Parsing scenarios with recorded API responses', () => {
+  test('shows a valid expense with its GST breakdown', async ({ page }) => {
+    const api = await mockExchange(page, validExpense as RecordedExchange, health);
+    await page.goto('/');
+    await expect(page.getByText('API connected')).toBeVisible();
+
+    await page.getByLabel('Text Input').fill(validExpense.request.content);
+    await expect(page.getByText('✓ No structural problems found')).toBeVisible();
+    await page.getByRole('button', { name: 'Submit' }).click();
+
+    const results = page.locator('.parse-results');
+    await expect(results.locator('.status-badge')).toHaveText(['✓ Valid']);
+    await expect(results.getByRole('heading', { name: 'XML Blocks (1)' })).toBeVisible();
+    await expect(results.getByRole('heading', { name: 'Tax Calculations (15% GST)' })).toBeVisible();
+    await expect(calculation(page, 'Total (Including Tax):')).toHaveText('$35,000.00');
+    await expect(calculation(page, 'Tax Amount:')).toHaveText('$4,565.22');
+    await expect(calculation(page, 'Total (Excluding Tax):')).toHaveText('$30,434.78');
+    await expect(page.locator('.error-display')).toHaveCount(0);
+
+    expect(api.requestsTo('parse').map(request => request.body)).toEqual([validExpense.request]);
+    await expect(results).toHaveScreenshot('valid-expense-results.png');
+  });
+
+  test('locates an unclosed tag and repairs it with the quick fix', async ({ page }) => {
+    await mockExchange(page, unclosedTag as RecordedExchange, health);
+    await page.goto('/');
+
+    await page.getByLabel('Text Input').fill(unclosedTag.request.content);
+    await expect(page.getByText('✗ 1 problem found')).toBeVisible();
+    await page.getByRole('button', { name: 'Submit' }).click();
+
+    const errors = page.locator('.error-display');
+    await expect(errors.getByRole('heading', { name: 'Processing Errors' })).toBeVisible();
+    await expect(errors.getByRole('button', { name: /Unclosed tag detected.*<expense> · line 1, column 1/ })).toBeVisible();
+    await expect(errors.getByLabel('Preview of: Insert </expense> at the end')).toHaveText('…<total>100</total></expense>');
+    await expect(page.locator('.parse-results .status-badge.error')).toHaveText('✗ Invalid');
+    await expect(page.getByText('Partial results: showing what was extracted before validation failed')).toBeVisible();
+    await expect(errors).toHaveScreenshot('unclosed-tag-errors.png');
+
+    await errors.getByRole('button', { name: 'Insert </expense> at the end' }).click();
+
+    await expect(page.getByLabel('Text Input')).toHaveValue('<expense><total>100</total></expense>');
+    await expect(errors).toHaveCount(0);
+  });
+
+  test('keeps the extracted fields when the total is missing', async ({ page }) => {
+    await mockExchange(page, missingTotal as RecordedExchange, health);
+    await page.goto('/');
+
+    await submitText(page, missingTotal.request.content);
+
+    const errors = page.locator('.error-display');
+    await expect(errors.locator('.error-item')).toHaveCount(1);
+    await expect(errors.locator('.error-item')).toContainText('Missing required <total> tag');
+
+    const results = page.locator('.parse-results');
+    await expect(results.locator('.status-badge.error')).toHaveText('✗ Invalid');
+    await expect(results.getByRole('heading', { name: 'XML Blocks (1)' })).toBeVisible();
+    await expect(results.getByText('No calculations available')).toBeVisible();
+    await expect(results).toHaveScreenshot('missing-total-results.png');
+  });
+
+  test('reports a server error after retrying it', async ({ page }) => {
+    const api = await mockApi(page, { parse: serverError, validate: validExpense.validate, health });
+    await page.goto('/');
+
+    await submitText(page, validExpense.request.content);
+
+    const errors = page.locator('.error-display');
+    await expect(errors.getByRole('heading', { name: 'Processing Errors' })).toBeVisible({ timeout: RETRIED_TIMEOUT_MS });
+    await expect(errors.locator('.error-item')).toHaveText(['An unexpected error occurred']);
+    await expect(page.locator('.parse-results')).toHaveCount(0);
+    expect(api.requestsTo('parse')).toHaveLength(ATTEMPTS_PER_REQUEST);
+    await expect(errors).toHaveScreenshot('server-error.png');
+  });
+
+  test('reports a response that breaks the API contract without retrying it', async ({ page }) => {
+    const api = await mockExchange(page, malformedResponse as RecordedExchange, health);
+    await page.goto('/');
+
+    await submitText(page, malformedResponse.request.content);
+
+    await expect(page.locator('.error-display .error-item')).toHaveText([
+      'Unexpected API response: response.data.calculations.taxRate should be a number, but was the string "15"'
+    ]);
+    expect(api.requestsTo('parse')).toHaveLength(1);
+  });
+
+  test('parses locally when every attempt times out', async ({ page }) => {
+    const api = await mockApi(page, { parse: 'timeout', validate: validExpense.validate, health });
+    await page.goto('/');
+
+    await submitText(page, validExpense.request.content);
+
+    const results = page.locator('.parse-results');
+    await expect(results.locator('.status-badge.local')).toHaveText('Computed locally', { timeout: RETRIED_TIMEOUT_MS });
+    await expect(results.locator('.status-badge.success')).toHaveText('✓ Valid');
+    await expect(calculation(page, 'Tax Amount:')).toHaveText('$4,565.22');
+    expect(api.requestsTo('parse')).toHaveLength(ATTEMPTS_PER_REQUEST);
+  });
+
+  test('works offline and reconnects when the API comes back', async ({ page }) => {
+    const api = await mockApi(page, { parse: validExpense.parse, validate: 'offline', health: 'offline' });
+    await page.goto('/');
+
+    const connection = page.locator('.api-status');
+    await expect(connection.locator('.status-label')).toHaveText('API offline');
+
+    await page.getByLabel('Text Input').fill(validExpense.request.content);
+    await expect(page.getByText('(checked locally - API unreachable)')).toBeVisible({ timeout: RETRIED_TIMEOUT_MS });
+    await page.getByRole('button', { name: 'Submit' }).click();
+
+    const results = page.locator('.parse-results');
+    await expect(results.locator('.status-badge.local')).toHaveText('Computed locally');
+    await expect(calculation(page, 'Total (Including Tax):')).toHaveText('$35,000.00');
+    expect(api.requestsTo('parse')).toHaveLength(0);
+
+    api.set('health', health);
+    await connection.getByRole('button', { name: 'Retry' }).click();
+    await expect(connection.locator('.status-label')).toHaveText('API connected');
+  });
+});
@@ -0,0 +1,80 @@
+import { Page, Route } from '@playwright/test';
+
+/**
+ * Answers the app's API calls from recorded fixtures instead of the .NET server,
+ * so every scenario - including the failure paths - plays out the same way on every run.
+ * Fixtures in ../fixtures are responses captured from the real API for a given request.
+ */
+
+export interface RecordedResponse {
+  status: number;
+  body: unknown;
+}
+
+/** A request and the responses the real API gave for it */
+export interface RecordedExchange {
+  request: { content: string; jurisdiction?: string };
+  parse: RecordedResponse;
+  validate: RecordedResponse;
+}
+
+/**
+ * How an endpoint answers: a recorded response, or a connection that fails
+ * ('offline' as if the server were down, 'timeout' as if it never answered)
+ */
+export type EndpointBehaviour = RecordedResponse | 'offline' | 'timeout';
+
+export type Endpoint = 'parse' | 'validate' | 'health';
+
+export interface InterceptedRequest {
+  endpoint: Endpoint;
+  body: unknown;
+}
+
+export interface MockApi {
+  /** Requests the app made to the given endpoint, oldest first */
+  requestsTo(endpoint: Endpoint): InterceptedRequest[];
+  /** Changes how later requests to the endpoint are answered */
+  set(endpoint: Endpoint, behaviour: EndpointBehaviour): void;
+}
+
+const ROUTES: Record<Endpoint, string> = {
+  parse: '**/api/textparser/parse',
+  validate: '**/api/textparser/validate',
+  health: '**/health'
+};
+
+export async function mockApi(page: Page, behaviours: Record<Endpoint, EndpointBehaviour>): Promise<MockApi> {
+  const current = { ...behaviours };
+  const requests: InterceptedRequest[] = [];
+
+  const answer = (endpoint: Endpoint) => async (route: Route) => {
+    const request = route.request();
+    requests.push({ endpoint, body: request.method() === 'POST' ? request.postDataJSON() : null });
+
+    const behaviour = current[endpoint];
+    if (behaviour === 'offline') {
+      return route.abort('internetdisconnected');
+    }
+    if (behaviour === 'timeout') {
+      // Fails the request the way a timeout does, without waiting out the client's 10 s timeout on every retry
+      return route.abort('timedout');
+    }
+    return route.fulfill({ status: behaviour.status, contentType: 'application/json', json: behaviour.body });
+  };
+
+  for (const endpoint of Object.keys(ROUTES) as Endpoint[]) {
+    await page.route(ROUTES[endpoint], answer(endpoint));
+  }
+
+  return {
+    requestsTo: endpoint => requests.filter(request => request.endpoint === endpoint),
+    set: (endpoint, behaviour) => {
+      current[endpoint] = behaviour;
+    }
+  };
+}
+
+/** Routes all three endpoints for one recorded exchange, with a healthy server */
+export const mockExchange = (page: Page, exchange: RecordedExchange, health: RecordedResponse) =>
+  mockApi(page, { parse: exchange.parse, validate: exchange.validate, health });
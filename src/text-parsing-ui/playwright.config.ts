@@ -1,11 +1,23 @@
 import { defineConfig, devices } from '@playwright/test';
 
+/*
+ * By default the suite runs against recorded API fixtures (e2e/fixtures) and needs no backend.
+ * Set E2E_REAL_API to run only the tests tagged @real-api, against `dotnet run` instead.
+ */
+const realApi = !!process.env.E2E_REAL_API;
+const REAL_API_URL = 'http://localhost:5230';
+
 /**
  * Playwright E2E Testing Configuration
  * See https://playwright.dev/docs/test-configuration.
  */
 export default defineConfig({
   testDir: './e2e',
+  /* Screenshot baselines are kept next to the specs, one set per browser and platform */
+  snapshotPathTemplate: '{testDir}/__screenshots__/{testFilePath}/{arg}-{projectName}-{platform}{ext}',
+  expect: {
+    toHaveScreenshot: { maxDiffPixelRatio: 0.01 },
+  },
   /* Run tests in files in parallel */
   fullyParallel: true,
   /* Fail the build on CI if you accidentally left test.only in the source code. */
@@ -26,14 +38,22 @@ export default defineConfig({
   },
 
   /* Configure projects for major browsers */
-  projects: [
+  projects: realApi ? [
+    {
+      name: 'real-api',
+      grep: /@real-api/,
+      use: { ...devices['Desktop Chrome'] },
+    },
+  ] : [
     {
       name: 'chromium',
+      grepInvert: /@real-api/,
       use: { ...devices['Desktop Chrome'] },
     },
 
     {
       name: 'firefox',
+      grepInvert: /@real-api/,
       use: { ...devices['Desktop Firefox'] },
     },
 
@@ -51,12 +71,14 @@ export default defineConfig({
       url: 'http://localhost:3000',
       reuseExistingServer: !process.env.CI,
       timeout: 30000,
+      /* Fixture runs intercept the default API URL, so only the real suite needs pointing at dotnet */
+      env: realApi ? { REACT_APP_API_URL: REAL_API_URL } : undefined,
     },
-    {
-      command: 'cd ../TextParsingApi && dotnet run --urls=http://localhost:5230',
-      url: 'http://localhost:5230/health',
+    ...(realApi ? [{
+      command: `cd ../TextParsingApi && dotnet run --urls=${REAL_API_URL}`,
+      url: `${REAL_API_URL}/health`,
       reuseExistingServer: !process.env.CI,
       timeout: 30000,
-    },
+    }] : []),
   ],
 });
@@ -1,31 +1,42 @@
 import React from 'react';
-import { render, screen, fireEvent, waitFor, act } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor, act, within } from '@testing-library/react';
 import '@testing-library/jest-dom';
 import App from './App';
+import { ParseResult, PartialParseError } from './types/api';
+import { ApiClientProvider } from './services/apiClient';
+import { createFakeBackend, FakeBackend, FakeRequest } from './services/fakeBackend';
+import * as parseWithFallbackModule from './services/parseWithFallback';
+import * as downloadModule from './utils/download';
+import { MemoryHistoryStore } from './history/historyStore';
+import { BATCH_CONCURRENCY } from './hooks/useBatchParser';
 
-// Mock the API service
-jest.mock('./services/textParsingApi', () => ({
-  __esModule: true,
-  default: {
-    parseText: jest.fn(),
-    testConnection: jest.fn(),
-  }
-}));
+// The app talks to an in-memory backend; by default it parses with the local engine
+let backend: FakeBackend;
+
+const renderApp = () => render(
+  <ApiClientProvider value={backend}>
+    <App />
+  </ApiClientProvider>
+);
 
-import TextParsingApiService from './services/textParsingApi';
+const requestsTo = (endpoint: FakeRequest['endpoint']) => backend.requests.filter(request => request.endpoint === endpoint);
 
-const mockApiService = TextParsingApiService as jest.Mocked<typeof TextParsingApiService>;
+const respondWith = (result: ParseResult) => backend.configure({ onParse: () => result });
+
+const failWith = (error: Error) => backend.configure({
+  onParse: () => {
+    throw error;
+  }
+});
 
 describe('Text Parsing App', () => {
   // Suppress console.error during tests to avoid expected error messages
   const originalError = console.error;
 
   beforeEach(() => {
-    jest.clearAllMocks();
-    // Mock successful connection by default
-    mockApiService.testConnection.mockResolvedValue({
-      connected: true,
-      message: 'Connected to API at https://localhost:7000'
+    backend = createFakeBackend({
+      // Live validation passes unless a test says otherwise
+      onValidate: () => ({ isValid: true, errors: [], warnings: {}, errorDetails: [] })
     });
 
     // Suppress console.error for cleaner test output
@@ -35,11 +46,12 @@ describe('Text Parsing App', () => {
   afterEach(() => {
     // Restore console.error after each test
     console.error = originalError;
+    jest.restoreAllMocks();
   });
 
   test('renders main app components', async () => {
     await act(async () => {
-      render(<App />);
+      renderApp();
     });
 
     // Check if main elements are present
@@ -52,7 +64,7 @@ describe('Text Parsing App', () => {
 
   test('loads sample data when Load Sample button is clicked', async () => {
     await act(async () => {
-      render(<App />);
+      renderApp();
     });
 
     const loadSampleButton = screen.getByRole('button', { name: /load sample/i });
@@ -67,7 +79,7 @@ describe('Text Parsing App', () => {
 
   test('clears input when Clear button is clicked', async () => {
     await act(async () => {
-      render(<App />);
+      renderApp();
     });
 
     const textArea = screen.getByLabelText('Text Input') as HTMLTextAreaElement;
@@ -84,7 +96,7 @@ describe('Text Parsing App', () => {
 
   test('submit button is disabled for empty input', async () => {
     await act(async () => {
-      render(<App />);
+      renderApp();
     });
 
     const submitButton = screen.getByRole('button', { name: /submit/i });
@@ -115,16 +127,20 @@ describe('Text Parsing App', () => {
         totalIncludingTax: 35000,
         taxAmount: 4565.22,
         totalExcludingTax: 30434.78,
-        taxRate: 15
+        taxRate: 15,
+        taxName: 'GST',
+        currency: 'NZD',
+        jurisdiction: 'NZ'
       },
       isValid: true,
-      errors: []
+      errors: [],
+      errorDetails: []
     };
 
-    mockApiService.parseText.mockResolvedValue(mockParseResult);
+    respondWith(mockParseResult);
 
     await act(async () => {
-      render(<App />);
+      renderApp();
     });
 
     const textArea = screen.getByLabelText('Text Input');
@@ -152,15 +168,54 @@ describe('Text Parsing App', () => {
     expect(screen.getByText('Tax Calculations (15% GST)')).toBeInTheDocument();
 
     // Verify API was called with correct data
-    expect(mockApiService.parseText).toHaveBeenCalledWith('<expense><total>35000</total></expense>');
+    expect(requestsTo('parse')).toEqual([
+      { endpoint: 'parse', content: '<expense><total>35000</total></expense>', jurisdiction: 'NZ' }
+    ]);
+  });
+
+  test('sends the selected tax jurisdiction and labels results with its rate and currency', async () => {
+    respondWith({
+      xmlBlocks: [],
+      taggedFields: { total: '110', cost_centre: 'SYD100' },
+      calculations: {
+        totalIncludingTax: 110,
+        taxAmount: 10,
+        totalExcludingTax: 100,
+        taxRate: 10,
+        taxName: 'GST',
+        currency: 'AUD',
+        jurisdiction: 'AU'
+      },
+      isValid: true,
+      errors: [],
+      errorDetails: []
+    });
+
+    renderApp();
+
+    fireEvent.change(screen.getByLabelText('Tax jurisdiction'), { target: { value: 'AU' } });
+    expect(screen.getByText(/Automatically calculates 10% GST from extracted totals for Australia/)).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('Text Input'), {
+      target: { value: '<cost_centre>SYD100</cost_centre><total>110</total>' }
+    });
+    fireEvent.click(screen.getByRole('button', { name: /submit/i }));
+
+    await waitFor(() => {
+      expect(screen.getByText('Tax Calculations (10% GST)')).toBeInTheDocument();
+    });
+    expect(requestsTo('parse')).toEqual([
+      { endpoint: 'parse', content: '<cost_centre>SYD100</cost_centre><total>110</total>', jurisdiction: 'AU' }
+    ]);
+    expect(screen.getAllByText('A$110.00').length).toBeGreaterThan(0);
   });
 
   test('handles API errors gracefully', async () => {
     const mockError = new Error('API Error');
-    mockApiService.parseText.mockRejectedValue(mockError);
+    failWith(mockError);
 
     await act(async () => {
-      render(<App />);
+      renderApp();
     });
 
     const textArea = screen.getByLabelText('Text Input');
@@ -186,9 +241,365 @@ describe('Text Parsing App', () => {
     expect(screen.getByText('An unexpected error occurred while parsing the text')).toBeInTheDocument();
   });
 
+  test('shows partial results next to errors when validation fails', async () => {
+    const partialResult = {
+      xmlBlocks: [
+        {
+          tagName: 'expense',
+          fields: { cost_centre: 'DEV632' },
+          rawXml: '<expense><cost_centre>DEV632</cost_centre></expense>'
+        }
+      ],
+      taggedFields: { vendor: 'Seaside Steakhouse' },
+      calculations: null,
+      isValid: false,
+      errors: ['Missing required <total> tag'],
+      errorDetails: []
+    };
+
+    failWith(
+      new PartialParseError('Validation failed', ['Missing required <total> tag'], partialResult)
+    );
+
+    renderApp();
+
+    fireEvent.change(screen.getByLabelText('Text Input'), {
+      target: { value: '<expense><cost_centre>DEV632</cost_centre></expense>' }
+    });
+
+    fireEvent.click(screen.getByRole('button', { name: /submit/i }));
+
+    await waitFor(() => {
+      expect(screen.getByText('Processing Errors')).toBeInTheDocument();
+    });
+
+    expect(screen.getByText('Missing required <total> tag')).toBeInTheDocument();
+    expect(screen.getByText('✗ Invalid')).toBeInTheDocument();
+    expect(screen.getByText('XML Blocks (1)')).toBeInTheDocument();
+    expect(screen.getByText('No calculations available')).toBeInTheDocument();
+  });
+
+  test('selects the offending tag in the editor when a located error is clicked', async () => {
+    failWith(
+      new PartialParseError('Validation failed', ['Unclosed tag detected'], {
+        xmlBlocks: [],
+        taggedFields: {},
+        calculations: null,
+        isValid: false,
+        errors: ['Unclosed tag detected'],
+        errorDetails: [
+          { code: 'unclosed-tag', severity: 'error', message: 'Unclosed tag detected', tagName: 'expense', offset: 7, length: 9 }
+        ]
+      })
+    );
+
+    renderApp();
+
+    const textArea = screen.getByLabelText('Text Input') as HTMLTextAreaElement;
+    fireEvent.change(textArea, { target: { value: 'Claim:\n<expense><total>100</total>' } });
+
+    fireEvent.click(screen.getByRole('button', { name: /submit/i }));
+
+    const located = await screen.findByRole('button', { name: /<expense>.*line 2, column 1/ });
+    fireEvent.click(located);
+
+    expect(textArea.selectionStart).toBe(7);
+    expect(textArea.selectionEnd).toBe(16);
+    expect(textArea).toHaveFocus();
+  });
+
+  test('groups the errors and warnings reported with a result by severity', async () => {
+    respondWith({
+      xmlBlocks: [],
+      taggedFields: { vendor: 'Cafe' },
+      calculations: null,
+      isValid: false,
+      errors: ['Missing required <total> tag'],
+      errorDetails: [
+        { code: 'missing-required-field', severity: 'error', message: 'Missing required <total> tag', tagName: 'total', offset: null, length: null },
+        { code: 'validation-warning', severity: 'warning', message: 'Vendor looks like a placeholder', tagName: 'vendor', offset: 8, length: 4 }
+      ]
+    });
+    renderApp();
+
+    fireEvent.change(screen.getByLabelText('Text Input'), { target: { value: '<vendor>Cafe</vendor>' } });
+    fireEvent.click(screen.getByRole('button', { name: /submit/i }));
+
+    const warnings = await screen.findByRole('region', { name: 'Warnings' });
+    expect(within(warnings).getByRole('button', { name: /Vendor looks like a placeholder.*<vendor> · line 1, column 9/ }))
+      .toBeInTheDocument();
+    expect(within(screen.getByRole('region', { name: 'Errors' })).getByText('Missing required <total> tag')).toBeInTheDocument();
+    expect(screen.getByText('Warnings (1)')).toBeInTheDocument();
+  });
+
+  test('traces each result field to its source and highlights it on hover', async () => {
+    const content = '<purchase><total>115</total><vendor>Cafe</vendor></purchase>\nNote <vendor>Old</vendor> <vendor>Cafe Rio</vendor>';
+    respondWith({
+      xmlBlocks: [{
+        tagName: 'purchase',
+        fields: { total: '115', vendor: 'Cafe' },
+        rawXml: '<purchase><total>115</total><vendor>Cafe</vendor></purchase>'
+      }],
+      taggedFields: { vendor: 'Cafe Rio', cost_centre: 'UNKNOWN' },
+      calculations: { totalIncludingTax: 115, taxAmount: 15, totalExcludingTax: 100, taxRate: 15, taxName: 'GST', currency: 'NZD', jurisdiction: 'NZ' },
+      isValid: true,
+      errors: [],
+      errorDetails: []
+    });
+
+    renderApp();
+
+    fireEvent.change(screen.getByLabelText('Text Input'), { target: { value: content } });
+    fireEvent.click(screen.getByRole('button', { name: /submit/i }));
+
+    const rows = await screen.findAllByTestId('traced-field');
+    expect(rows.map(row => row.title)).toEqual([
+      'From line 1, column 11',
+      'From line 1, column 29',
+      'Line 2, replaced by the later <vendor> on line 2',
+      'From line 2, column 27',
+      'Not in the text - filled in from the field rules'
+    ]);
+    expect(within(rows[2]).getByText('Overridden')).toBeInTheDocument();
+    expect(within(rows[4]).getByText('Default')).toBeInTheDocument();
+
+    // Hovering the block's total marks the element it was read from
+    fireEvent.mouseEnter(rows[0]);
+    const marked = screen.getAllByText((_text, element) => element?.tagName === 'MARK');
+    expect(marked.map(mark => mark.textContent).join('')).toBe('<total>115</total>');
+
+    fireEvent.mouseLeave(rows[0]);
+    expect(screen.queryAllByText((_text, element) => element?.tagName === 'MARK')).toHaveLength(0);
+  });
+
+  test('shows an expense block as a card whose rows highlight their source', async () => {
+    const rawXml = '<expense><total>230</total><payment_method>personal card</payment_method></expense>';
+    respondWith({
+      xmlBlocks: [{ tagName: 'expense', fields: { total: '230', payment_method: 'personal card' }, rawXml }],
+      taggedFields: { cost_centre: 'UNKNOWN' },
+      calculations: { totalIncludingTax: 230, taxAmount: 30, totalExcludingTax: 200, taxRate: 15, taxName: 'GST', currency: 'NZD', jurisdiction: 'NZ' },
+      isValid: true,
+      errors: [],
+      errorDetails: []
+    });
+
+    renderApp();
+
+    fireEvent.change(screen.getByLabelText('Text Input'), { target: { value: rawXml } });
+    fireEvent.click(screen.getByRole('button', { name: /submit/i }));
+
+    const rows = await screen.findAllByTestId('block-card-row');
+    expect(rows.map(row => row.textContent)).toEqual([
+      'Cost centreUNKNOWN',
+      'Payment methodpersonal card',
+      'Total (incl. GST)$230.00',
+      'GST (15%)$30.00',
+      'Total (excl. GST)$200.00'
+    ]);
+
+    fireEvent.mouseEnter(rows[1]);
+    const marked = screen.getAllByText((_text, element) => element?.tagName === 'MARK');
+    expect(marked.map(mark => mark.textContent).join('')).toBe('<payment_method>personal card</payment_method>');
+  });
+
+  test('shows the reservation tagged loosely in the sample email as a card', async () => {
+    renderApp();
+
+    fireEvent.click(await screen.findByRole('button', { name: /load sample/i }));
+    fireEvent.click(screen.getByRole('button', { name: /submit/i }));
+
+    const card = await screen.findByRole('region', { name: 'Reservation' });
+    const rows = within(card).getAllByTestId('block-card-row');
+    expect(rows.map(row => row.textContent)).toEqual([
+      'VendorSeaside Steakhouse',
+      "Descriptiondevelopment team's project end celebration",
+      'Date27 April 2022'
+    ]);
+
+    fireEvent.mouseEnter(rows[2]);
+    const marked = screen.getAllByText((_text, element) => element?.tagName === 'MARK');
+    expect(marked.map(mark => mark.textContent).join('')).toBe('<date>27 April 2022</date>');
+  });
+
+  test('interprets dates, amounts and payment methods in the chosen number format', async () => {
+    respondWith({
+      xmlBlocks: [],
+      taggedFields: { total: '35.000,00', date: '03/04/2022', payment_method: 'company card', cost_centre: 'UNKNOWN' },
+      calculations: null,
+      isValid: false,
+      errors: ['Invalid total amount format'],
+      errorDetails: []
+    });
+
+    renderApp();
+
+    fireEvent.change(screen.getByLabelText('Text Input'), { target: { value: '<total>35.000,00</total>' } });
+    fireEvent.click(screen.getByRole('button', { name: /submit/i }));
+
+    const readings = () => screen.getAllByTestId('interpreted-value').map(row =>
+      [within(row).getByRole('rowheader'), ...within(row).getAllByRole('cell')].map(cell => cell.textContent));
+    expect(await screen.findByText('2 warnings')).toBeInTheDocument();
+    expect(readings()).toEqual([
+      ['total', '35.000,00', '—', '✗ UnreadableNot a 1,234.56 amount; it reads as 35000.00 in 1.234,56 format'],
+      ['date', '03/04/2022', '2022-04-03', '⚠ AmbiguousCould be 3 April 2022 or 4 March 2022; read day first'],
+      ['payment_method', 'company card', 'company-card', '✓']
+    ]);
+
+    fireEvent.change(screen.getByLabelText('Amounts written as'), { target: { value: 'eu' } });
+    expect(readings()[0]).toEqual(['total', '35.000,00', '35000.00', '✓']);
+    expect(screen.getByText('1 warning')).toBeInTheDocument();
+  });
+
+  test('shows the full element tree of a block and flags what the fields left out', async () => {
+    const rawXml = '<expense><total>40</total><items><item>Coffee</item><item>Cake</item></items></expense>';
+    respondWith({
+      xmlBlocks: [{ tagName: 'expense', fields: { total: '40' }, rawXml }],
+      taggedFields: { cost_centre: 'UNKNOWN' },
+      calculations: { totalIncludingTax: 40, taxAmount: 5.22, totalExcludingTax: 34.78, taxRate: 15, taxName: 'GST', currency: 'NZD', jurisdiction: 'NZ' },
+      isValid: true,
+      errors: [],
+      errorDetails: []
+    });
+
+    renderApp();
+
+    fireEvent.change(screen.getByLabelText('Text Input'), { target: { value: rawXml } });
+    fireEvent.click(screen.getByRole('button', { name: /submit/i }));
+
+    expect(await screen.findByText('XML Tree (1 not in fields)')).toBeInTheDocument();
+    const tree = screen.getByRole('list', { name: 'expense element tree' });
+    expect(within(tree).getByText('Cake')).toBeInTheDocument();
+    expect(within(tree).getByText('2 of 2')).toBeInTheDocument();
+    expect(within(tree).getByTitle('Has nested elements, so it is not in the fields')).toBeInTheDocument();
+  });
+
+  test('imports an .eml file into the editor and shows its headers with the results', async () => {
+    respondWith({
+      xmlBlocks: [],
+      taggedFields: { total: '120', cost_centre: 'UNKNOWN' },
+      calculations: { totalIncludingTax: 120, taxAmount: 15.65, totalExcludingTax: 104.35, taxRate: 15, taxName: 'GST', currency: 'NZD', jurisdiction: 'NZ' },
+      isValid: true,
+      errors: [],
+      errorDetails: []
+    });
+
+    renderApp();
+
+    const email = new File(
+      ['From: William Steele\r\nSubject: Dinner booking\r\n\r\nPlease book it. <total>120</total>'],
+      'booking.eml',
+      { type: 'message/rfc822' }
+    );
+
+    fireEvent.change(screen.getByTestId('email-file-input'), { target: { files: [email] } });
+
+    const textArea = screen.getByLabelText('Text Input') as HTMLTextAreaElement;
+    await waitFor(() => {
+      expect(textArea.value).toBe('Please book it. <total>120</total>');
+    });
+
+    fireEvent.click(screen.getByRole('button', { name: /submit/i }));
+
+    expect(await screen.findByText('✉️ Email Details')).toBeInTheDocument();
+    expect(screen.getByText('booking.eml')).toBeInTheDocument();
+    expect(screen.getByText('Dinner booking')).toBeInTheDocument();
+    expect(screen.getByText('William Steele')).toBeInTheDocument();
+  });
+
+  test('applies a quick fix from the error list and re-validates the input', async () => {
+    failWith(
+      new PartialParseError('Validation failed', ['Unclosed tag detected'], {
+        xmlBlocks: [],
+        taggedFields: {},
+        calculations: null,
+        isValid: false,
+        errors: ['Unclosed tag detected'],
+        errorDetails: [
+          { code: 'unclosed-tag', severity: 'error', message: 'Unclosed tag detected', tagName: 'expense', offset: 0, length: 9 }
+        ]
+      })
+    );
+
+    renderApp();
+
+    const textArea = screen.getByLabelText('Text Input') as HTMLTextAreaElement;
+    fireEvent.change(textArea, { target: { value: '<expense><total>100</total>' } });
+
+    fireEvent.click(screen.getByRole('button', { name: /submit/i }));
+
+    expect(await screen.findByLabelText('Preview of: Insert </expense> at the end')).toHaveTextContent(
+      '…<total>100</total></expense>'
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'Insert </expense> at the end' }));
+
+    expect(textArea.value).toBe('<expense><total>100</total></expense>');
+    expect(textArea.selectionStart).toBe(27);
+    expect(textArea.selectionEnd).toBe(37);
+    expect(screen.queryByText('Processing Errors')).not.toBeInTheDocument();
+  });
+
+  test('highlights tags in the editor, pairs the tag under the caret and underlines unbalanced tags', async () => {
+    renderApp();
+
+    const textArea = screen.getByLabelText('Text Input') as HTMLTextAreaElement;
+    fireEvent.change(textArea, { target: { value: '<expense><total>10</total>\n<vendor>Cafe' } });
+
+    const textsOf = (selector: string) => screen.getAllByText(/./, { selector }).map(node => node.textContent);
+    expect(textsOf('.tag-editor-line-number')).toEqual(['1', '2']);
+    expect(textsOf('.tok-tag.unbalanced')).toEqual(['<expense>', '<vendor>']);
+    expect(textArea).toHaveAccessibleDescription('2 unbalanced tags');
+
+    textArea.setSelectionRange(11, 11);
+    fireEvent.select(textArea);
+    expect(textsOf('.tok-tag.matched')).toEqual(['<total>', '</total>']);
+  });
+
+  test('soft-wraps long lines and sizes each line number to the rows its line wraps onto', async () => {
+    // jsdom has no layout, so stand in one 21px row for every 40 characters
+    jest.spyOn(HTMLElement.prototype, 'offsetHeight', 'get').mockImplementation(function (this: HTMLElement) {
+      return Math.max(1, Math.ceil(((this.textContent ?? '').length - 1) / 40)) * 21;
+    });
+    renderApp();
+
+    const textArea = await screen.findByLabelText('Text Input');
+    fireEvent.change(textArea, { target: { value: `<description>${'Long pasted email line '.repeat(4)}</description>\n<total>5</total>` } });
+
+    expect(textArea).not.toHaveAttribute('wrap', 'off');
+    expect(screen.getByText('1', { selector: '.tag-editor-line-number' })).toHaveStyle({ height: '63px' });
+    expect(screen.getByText('2', { selector: '.tag-editor-line-number' })).toHaveStyle({ height: '21px' });
+  });
+
+  test('wraps the selection from the tag palette and autocompletes tags while typing', async () => {
+    renderApp();
+
+    const textArea = screen.getByLabelText('Text Input') as HTMLTextAreaElement;
+    fireEvent.change(textArea, { target: { value: 'Dinner cost 120' } });
+    textArea.setSelectionRange(12, 15);
+    fireEvent.click(within(screen.getByRole('toolbar', { name: 'Insert tag' })).getByRole('button', { name: /<total>/ }));
+
+    expect(textArea.value).toBe('Dinner cost <total>120</total>');
+    expect([textArea.selectionStart, textArea.selectionEnd]).toEqual([19, 22]);
+
+    // Typing "<co" suggests the configured cost_centre field; Enter completes and closes it
+    textArea.setSelectionRange(0, 0);
+    fireEvent.change(textArea, { target: { value: '<coDinner cost <total>120</total>', selectionStart: 3, selectionEnd: 3 } });
+    expect(screen.getByRole('option', { name: '<cost_centre>' })).toHaveAttribute('aria-selected', 'true');
+
+    fireEvent.keyDown(textArea, { key: 'Enter' });
+    expect(textArea.value).toBe('<cost_centre></cost_centre>Dinner cost <total>120</total>');
+    expect(textArea.selectionStart).toBe(13);
+    expect(screen.queryByRole('listbox')).not.toBeInTheDocument();
+
+    // Finishing an opening tag by hand adds its closing tag
+    fireEvent.change(textArea, { target: { value: '<vendor', selectionStart: 7, selectionEnd: 7 } });
+    fireEvent.keyDown(textArea, { key: '>' });
+    expect(textArea.value).toBe('<vendor></vendor>');
+  });
+
   test('supports keyboard shortcut Ctrl+Enter for submit', async () => {
     await act(async () => {
-      render(<App />);
+      renderApp();
     });
 
     const textArea = screen.getByLabelText('Text Input');
@@ -201,13 +612,37 @@ describe('Text Parsing App', () => {
       fireEvent.keyDown(textArea, { key: 'Enter', ctrlKey: true });
     });
 
-    // Should trigger API call (would be verified by mock being called)
-    expect(mockApiService.parseText).toHaveBeenCalled();
+    // Should trigger API call
+    expect(requestsTo('parse')).toHaveLength(1);
+  });
+
+  test('parses locally while offline and reconnects on retry', async () => {
+    backend.configure({ health: 'offline' });
+
+    renderApp();
+
+    expect(await screen.findByText('API offline')).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('Text Input'), {
+      target: { value: '<expense><cost_centre>DEV632</cost_centre><total>115</total></expense>' }
+    });
+
+    fireEvent.click(screen.getByRole('button', { name: /submit/i }));
+
+    // The result comes from the in-browser engine, not the API
+    expect(await screen.findByText('Computed locally')).toBeInTheDocument();
+    expect(requestsTo('parse')).toHaveLength(0);
+    expect(screen.getByText('✓ Valid')).toBeInTheDocument();
+
+    backend.configure({ health: 'healthy' });
+    fireEvent.click(screen.getByRole('button', { name: /retry/i }));
+
+    expect(await screen.findByText('API connected')).toBeInTheDocument();
   });
 
   test('displays instructions when no results are present', async () => {
     await act(async () => {
-      render(<App />);
+      renderApp();
     });
 
     expect(screen.getByText('How to Use')).toBeInTheDocument();
@@ -216,4 +651,404 @@ describe('Text Parsing App', () => {
     expect(screen.getByText('🏷️ Tagged Fields')).toBeInTheDocument();
     expect(screen.getByText('💰 Tax Calculation')).toBeInTheDocument();
   });
+
+  test('validates input live after the user stops typing', async () => {
+    jest.useFakeTimers();
+    backend.configure({
+      onValidate: () => ({
+        isValid: false,
+        errors: ['Unclosed tag detected'],
+        warnings: { cost_centre: 'Defaulting to UNKNOWN' },
+        errorDetails: []
+      })
+    });
+
+    try {
+      renderApp();
+
+      const textArea = screen.getByLabelText('Text Input');
+      fireEvent.change(textArea, { target: { value: '<expense><total>100</expense>' } });
+      fireEvent.change(textArea, { target: { value: '<expense><total>100</total>' } });
+
+      // Nothing is sent until the debounce interval has elapsed
+      expect(requestsTo('validate')).toHaveLength(0);
+
+      await act(async () => {
+        jest.advanceTimersByTime(500);
+      });
+
+      // Only the latest content is validated
+      expect(requestsTo('validate')).toEqual([{ endpoint: 'validate', content: '<expense><total>100</total>' }]);
+
+      expect(screen.getByText('✗ 1 problem found')).toBeInTheDocument();
+      expect(screen.getByText('Unclosed tag detected')).toBeInTheDocument();
+      expect(screen.getByText('cost_centre:')).toBeInTheDocument();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  test('validates live with the local engine while the API is offline', async () => {
+    backend.configure({ health: 'offline' });
+    renderApp();
+    expect(await screen.findByText('API offline')).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('Text Input'), { target: { value: '<expense><total>100</expense>' } });
+
+    expect(await screen.findByText(/checked locally/)).toBeInTheDocument();
+    expect(requestsTo('validate')).toHaveLength(0);
+  });
+
+  test('parses dropped files in batch mode and sums GST across valid rows', async () => {
+    backend.configure({
+      onParse: ({ content }) => {
+        if (content.includes('<total>115</total>')) {
+          return {
+            xmlBlocks: [],
+            taggedFields: { total: '115', cost_centre: 'DEV632' },
+            calculations: { totalIncludingTax: 115, taxAmount: 15, totalExcludingTax: 100, taxRate: 15, taxName: 'GST', currency: 'NZD', jurisdiction: 'NZ' },
+            isValid: true,
+            errors: [],
+            errorDetails: []
+          };
+        }
+        if (content.includes('<total>230</total>')) {
+          return {
+            xmlBlocks: [],
+            taggedFields: { total: '230', cost_centre: 'OPS100' },
+            calculations: { totalIncludingTax: 230, taxAmount: 30, totalExcludingTax: 200, taxRate: 15, taxName: 'GST', currency: 'NZD', jurisdiction: 'NZ' },
+            isValid: true,
+            errors: [],
+            errorDetails: []
+          };
+        }
+        throw new PartialParseError('Validation failed', ['Missing required <total> tag'], {
+          xmlBlocks: [],
+          taggedFields: { vendor: 'Seaside Steakhouse', cost_centre: 'UNKNOWN' },
+          calculations: null,
+          isValid: false,
+          errors: ['Missing required <total> tag'],
+          errorDetails: []
+        });
+      }
+    });
+
+    renderApp();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Batch Files' }));
+
+    const files = [
+      new File(['<cost_centre>DEV632</cost_centre><total>115</total>'], 'first.txt', { type: 'text/plain' }),
+      new File(['<vendor>Seaside Steakhouse</vendor>'], 'missing-total.txt', { type: 'text/plain' }),
+      new File(['From: William Steele\r\nSubject: Team lunch\r\n\r\n<total>230</total>'], 'lunch.eml', { type: 'message/rfc822' })
+    ];
+
+    fireEvent.drop(screen.getByTestId('batch-dropzone'), { dataTransfer: { files } });
+
+    await waitFor(() => {
+      expect(screen.getByText('Parsed 3 files')).toBeInTheDocument();
+    });
+
+    expect(requestsTo('parse')).toHaveLength(3);
+    expect(screen.getByText('Total of 2 valid files')).toBeInTheDocument();
+    expect(screen.getByTestId('batch-total-tax')).toHaveTextContent('$45.00');
+    expect(screen.getByTestId('batch-total-including-tax')).toHaveTextContent('$345.00');
+    expect(screen.getByText('Missing required <total> tag')).toBeInTheDocument();
+
+    // Sorting by cost centre descending puts UNKNOWN first
+    fireEvent.click(screen.getByRole('button', { name: /cost centre/i }));
+    fireEvent.click(screen.getByRole('button', { name: /cost centre/i }));
+    const fileButtons = screen.getAllByRole('button', { expanded: false });
+    expect(fileButtons.map(button => button.textContent)).toEqual([
+      '▸ missing-total.txt',
+      '▸ lunch.eml',
+      '▸ first.txt'
+    ]);
+
+    // Expanding a row shows its full results and email headers
+    fireEvent.click(screen.getByRole('button', { name: /lunch\.eml/ }));
+    expect(screen.getByText('Parse Results')).toBeInTheDocument();
+    expect(screen.getByText('Team lunch')).toBeInTheDocument();
+  });
+
+  test('keeps a running batch while single mode is shown and cancels it', async () => {
+    backend.configure({ latencyMs: 60000 });
+    renderApp();
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Batch Files' }));
+    const files = [1, 2].map(index => new File([`<total>${index}00</total>`], `claim-${index}.txt`, { type: 'text/plain' }));
+    fireEvent.drop(screen.getByTestId('batch-dropzone'), { dataTransfer: { files } });
+    expect(await screen.findByText('Parsing files... 0 of 2 done')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Single Text' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Batch Files' }));
+    expect(screen.getByText('Parsing files... 0 of 2 done')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Cancel' }));
+    expect(await screen.findByText('Parsed 2 files')).toBeInTheDocument();
+    expect(screen.getAllByText('Cancelled')).toHaveLength(2);
+    expect(screen.queryByRole('button', { name: 'Cancel' })).not.toBeInTheDocument();
+  });
+
+  test('saves each submission to history and diffs a re-run against the original', async () => {
+    const firstRun = {
+      xmlBlocks: [],
+      taggedFields: { total: '115', vendor: 'Seaside Steakhouse', cost_centre: 'DEV632' },
+      calculations: { totalIncludingTax: 115, taxAmount: 15, totalExcludingTax: 100, taxRate: 15, taxName: 'GST', currency: 'NZD', jurisdiction: 'NZ' },
+      isValid: true,
+      errors: [],
+      errorDetails: []
+    };
+    backend.configure({
+      onParse: jest.fn()
+        .mockReturnValueOnce(firstRun)
+        .mockReturnValueOnce({ ...firstRun, taggedFields: { ...firstRun.taggedFields, vendor: 'Seaside Grill' } })
+    });
+
+    renderApp();
+
+    fireEvent.change(screen.getByLabelText('Text Input'), {
+      target: { value: '<vendor>Seaside Steakhouse</vendor><cost_centre>DEV632</cost_centre><total>115</total>' }
+    });
+    fireEvent.click(screen.getByRole('button', { name: /submit/i }));
+
+    expect(await screen.findAllByTestId('history-entry')).toHaveLength(1);
+    expect(screen.getByText('Vendor: Seaside Steakhouse')).toBeInTheDocument();
+
+    // Clearing the editor keeps the saved run, and Load brings it back
+    fireEvent.click(screen.getByRole('button', { name: /^clear$/i }));
+    fireEvent.click(screen.getByRole('button', { name: 'Load' }));
+    expect((screen.getByLabelText('Text Input') as HTMLTextAreaElement).value).toContain('<total>115</total>');
+    expect(screen.getByText('Parse Results')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Re-run' }));
+
+    expect(await screen.findByText('1 field differs between these runs')).toBeInTheDocument();
+    expect(screen.getAllByTestId('history-entry')).toHaveLength(2);
+    expect(screen.getByText('tagged.vendor')).toBeInTheDocument();
+    expect(screen.getByText('Seaside Grill')).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('Search history'), { target: { value: 'grill' } });
+    expect(screen.getAllByTestId('history-entry')).toHaveLength(1);
+  });
+
+  test('shows the results without waiting for history to be saved', async () => {
+    jest.spyOn(MemoryHistoryStore.prototype, 'add').mockReturnValue(new Promise(() => {}));
+    renderApp();
+
+    fireEvent.change(screen.getByLabelText('Text Input'), { target: { value: '<total>115</total>' } });
+    fireEvent.click(screen.getByRole('button', { name: /submit/i }));
+
+    expect(await screen.findByText('Parse Results')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Submit' })).toBeEnabled();
+    expect(screen.queryAllByTestId('history-entry')).toHaveLength(0);
+  });
+
+  test('reports history that the browser refuses to delete', async () => {
+    jest.spyOn(MemoryHistoryStore.prototype, 'remove').mockRejectedValueOnce(new Error('QuotaExceededError'));
+    jest.spyOn(MemoryHistoryStore.prototype, 'clear').mockRejectedValueOnce(new Error('QuotaExceededError'));
+    renderApp();
+
+    fireEvent.change(screen.getByLabelText('Text Input'), { target: { value: '<total>115</total>' } });
+    fireEvent.click(screen.getByRole('button', { name: /submit/i }));
+    fireEvent.click(await screen.findByRole('button', { name: /^delete run from/i }));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('This run could not be deleted');
+    expect(screen.getAllByTestId('history-entry')).toHaveLength(1);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Delete All' }));
+
+    expect(await screen.findByText(/History could not be deleted/)).toBeInTheDocument();
+    expect(screen.getAllByTestId('history-entry')).toHaveLength(1);
+  });
+
+  test('edits extracted fields as a claim and recalculates GST from the new total', async () => {
+    respondWith({
+      xmlBlocks: [{
+        tagName: 'expense',
+        fields: { cost_centre: 'DEV632', total: '35,000' },
+        rawXml: '<expense><cost_centre>DEV632</cost_centre><total>35,000</total></expense>'
+      }],
+      taggedFields: {},
+      calculations: { totalIncludingTax: 35000, taxAmount: 4565.22, totalExcludingTax: 30434.78, taxRate: 15, taxName: 'GST', currency: 'NZD', jurisdiction: 'NZ' },
+      isValid: true,
+      errors: [],
+      errorDetails: []
+    });
+
+    renderApp();
+
+    fireEvent.change(screen.getByLabelText('Text Input'), {
+      target: { value: '<expense><cost_centre>DEV632</cost_centre><total>35,000</total></expense>' }
+    });
+    fireEvent.click(screen.getByRole('button', { name: /submit/i }));
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Edit as Claim' }));
+
+    const totalInput = screen.getByLabelText('total') as HTMLInputElement;
+    expect(totalInput.value).toBe('35,000');
+    expect(screen.getByTestId('claim-tax-amount')).toHaveTextContent('$4,565.22');
+
+    fireEvent.change(totalInput, { target: { value: '115' } });
+
+    expect(screen.getByTestId('claim-tax-amount')).toHaveTextContent('$15.00');
+    expect(screen.getByTestId('claim-total-excluding-tax')).toHaveTextContent('$100.00');
+    expect(screen.getByText('Edited')).toBeInTheDocument();
+    expect(screen.getByText('Extracted: 35,000')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Confirm Claim' }));
+    expect(screen.getByText('✓ Claim confirmed with 1 field overridden')).toBeInTheDocument();
+  });
+
+  test('exports the confirmed claim until it is edited again', async () => {
+    const downloadFile = jest.spyOn(downloadModule, 'downloadFile').mockImplementation(() => {});
+    const exportedJson = () => JSON.parse(downloadFile.mock.calls[downloadFile.mock.calls.length - 1][0]);
+    renderApp();
+
+    fireEvent.change(await screen.findByLabelText('Text Input'), {
+      target: { value: '<expense><cost_centre>DEV632</cost_centre><total>35,000</total></expense>' }
+    });
+    fireEvent.click(screen.getByRole('button', { name: /submit/i }));
+    fireEvent.click(await screen.findByRole('button', { name: 'Edit as Claim' }));
+    const totalInput = screen.getByLabelText('total');
+    fireEvent.change(totalInput, { target: { value: '115' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Confirm Claim' }));
+
+    expect(screen.getByText('Export and print now use the confirmed values.')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Export JSON' }));
+    expect(exportedJson().xmlBlocks[0].fields.total).toBe('115');
+    expect(exportedJson().calculations.taxAmount).toBe(15);
+
+    // Editing withdraws the confirmation, so exports go back to the extracted values
+    fireEvent.change(totalInput, { target: { value: '230' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Export JSON' }));
+    expect(exportedJson().xmlBlocks[0].fields.total).toBe('35,000');
+  });
+
+  test('parses each message of a pasted thread separately and flags fields they disagree on', async () => {
+    const thread = [
+      'Please charge it to <cost_centre>DEV632</cost_centre>.',
+      '',
+      'From: William Steele',
+      'Sent: Friday, 16 June 2022 10:32 AM',
+      'To: Maria Washington',
+      'Subject: Team dinner',
+      '',
+      'Booked <vendor>Seaside Steakhouse</vendor> on <cost_centre>DEV002</cost_centre>.'
+    ].join('\n');
+
+    renderApp();
+
+    fireEvent.change(screen.getByLabelText('Text Input'), { target: { value: thread } });
+    fireEvent.click(screen.getByRole('button', { name: /submit/i }));
+
+    expect(await screen.findByText('✉️ Email Thread (2 messages)')).toBeInTheDocument();
+    expect(requestsTo('parse')).toHaveLength(3);
+    expect(screen.getByRole('note')).toHaveTextContent(
+      'cost_centre is "DEV632" in message 1, "DEV002" in message 2 - the whole-thread result keeps only the last'
+    );
+
+    const reply = screen.getByRole('region', { name: 'Message 2 of 2' });
+    expect(within(reply).getByText('William Steele')).toBeInTheDocument();
+    expect(within(reply).getByText('Friday, 16 June 2022 10:32 AM')).toBeInTheDocument();
+    expect(within(reply).getByText('Team dinner')).toBeInTheDocument();
+    expect(within(within(reply).getByRole('region', { name: 'Reservation' })).getByText('Seaside Steakhouse')).toBeInTheDocument();
+    // No message has a total, but that is a rule for the thread rather than for each message
+    expect(within(reply).getByRole('list', { name: 'Message 2 of 2 notes' }))
+      .toHaveTextContent('Missing required <total> tag (checked on the whole thread, not each message)');
+    expect(within(reply).queryByRole('list', { name: 'Message 2 of 2 errors' })).not.toBeInTheDocument();
+
+    // Fields of a message are traced to the message's place in the whole text
+    const costCentre = within(screen.getByRole('region', { name: 'Message 1 of 2' }))
+      .getAllByTestId('traced-field')
+      .find(field => field.textContent?.includes('DEV632'))!;
+    expect(costCentre).toHaveAttribute('title', 'From line 1, column 21');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Whole thread' }));
+    expect(screen.queryByRole('region', { name: 'Message 1 of 2' })).not.toBeInTheDocument();
+    expect(screen.getAllByText('Parse Results')).toHaveLength(1);
+  });
+
+  test('keeps the requests for a thread and its messages to the batch concurrency limit', async () => {
+    let inFlight = 0;
+    let mostInFlight = 0;
+    backend.configure({
+      onParse: async () => {
+        inFlight++;
+        mostInFlight = Math.max(mostInFlight, inFlight);
+        await new Promise(resolve => setTimeout(resolve, 10));
+        inFlight--;
+        return {
+          xmlBlocks: [],
+          taggedFields: { total: '115', cost_centre: 'DEV632' },
+          calculations: { totalIncludingTax: 115, taxAmount: 15, totalExcludingTax: 100, taxRate: 15, taxName: 'GST', currency: 'NZD', jurisdiction: 'NZ' },
+          isValid: true,
+          errors: [],
+          errorDetails: []
+        };
+      }
+    });
+    const reply = (from: string) => ['', `From: ${from}`, 'Sent: Friday, 16 June 2022 10:32 AM', 'Subject: Team dinner', '', '<total>115</total>'];
+    const thread = ['<total>115</total>', ...reply('Ann'), ...reply('Ben'), ...reply('Cal')].join('\n');
+
+    renderApp();
+
+    fireEvent.change(screen.getByLabelText('Text Input'), { target: { value: thread } });
+    fireEvent.click(screen.getByRole('button', { name: /submit/i }));
+
+    expect(await screen.findByText('✉️ Email Thread (4 messages)')).toBeInTheDocument();
+    expect(requestsTo('parse')).toHaveLength(5);
+    expect(mostInFlight).toBe(BATCH_CONCURRENCY);
+  });
+
+  test('converts an HTML paste with escaped tags and can undo back to the plain text', async () => {
+    renderApp();
+
+    const textInput = screen.getByLabelText('Text Input') as HTMLTextAreaElement;
+    fireEvent.change(textInput, { target: { value: 'Claim: ' } });
+    textInput.setSelectionRange(7, 7);
+
+    const clipboard: Record<string, string> = {
+      'text/html': '<p class="MsoNormal">&lt;<span style="color:red">total</span>&gt;120&lt;/total&gt;</p>',
+      'text/plain': '120'
+    };
+    fireEvent.paste(textInput, { clipboardData: { getData: (type: string) => clipboard[type] || '' } });
+
+    expect(textInput.value).toBe('Claim: <total>120</total>');
+    expect(screen.getByText('Converted from HTML - 2 tags recovered from the formatted paste')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Undo' }));
+
+    expect(textInput.value).toBe('Claim: 120');
+    expect(screen.queryByText(/Converted from HTML/)).not.toBeInTheDocument();
+  });
+
+  test('reports an unexpected failure while submitting instead of leaving it unhandled', async () => {
+    jest.spyOn(parseWithFallbackModule, 'parseWithFallback').mockRejectedValueOnce(new Error('Unexpected failure'));
+    renderApp();
+
+    fireEvent.change(await screen.findByLabelText('Text Input'), { target: { value: '<total>115</total>' } });
+    fireEvent.click(screen.getByRole('button', { name: /submit/i }));
+
+    expect(await screen.findByText('An unexpected error occurred while parsing the text')).toBeInTheDocument();
+    expect(screen.getByText('Processing Errors')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Submit' })).toBeEnabled();
+  });
+
+  test('cancels a slow submission without saving it to history', async () => {
+    backend.configure({ latencyMs: 10000 });
+
+    renderApp();
+
+    fireEvent.change(screen.getByLabelText('Text Input'), { target: { value: '<total>115</total>' } });
+    fireEvent.click(screen.getByRole('button', { name: /submit/i }));
+    expect(screen.getByRole('button', { name: 'Processing...' })).toBeDisabled();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Cancel' }));
+
+    expect(await screen.findByRole('button', { name: 'Submit' })).toBeEnabled();
+    expect(screen.queryByRole('button', { name: 'Cancel' })).not.toBeInTheDocument();
+    expect(screen.queryByText('Processing Errors')).not.toBeInTheDocument();
+    expect(screen.queryAllByTestId('history-entry')).toHaveLength(0);
+  });
 });
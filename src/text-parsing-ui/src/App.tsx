@@ -1,10 +1,40 @@
-import React, { useState, useEffect } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import './App.css';
-import TextParsingApiService from './services/textParsingApi';
-import { ParseResult, ApiError, ValidationError } from './types/api';
+import { parseWithFallback } from './services/parseWithFallback';
+import { DisplayError, ParseResult, ResultSource, SourceLocation, StructuredError } from './types/api';
+import { importTextFile, ImportedFile, IMPORT_FILE_ACCEPT } from './email/emailImport';
+import { splitThread } from './email/threadSplitter';
+import { convertHtmlPaste } from './email/htmlPaste';
 import ParseResults from './components/ParseResults';
 import ErrorDisplay from './components/ErrorDisplay';
+import TagEditor from './components/TagEditor';
+import TagPalette from './components/TagPalette';
 import LoadingSpinner from './components/LoadingSpinner';
+import ValidationStatus from './components/ValidationStatus';
+import ConnectionStatusBadge from './components/ConnectionStatusBadge';
+import EmailMetadataPanel from './components/EmailMetadataPanel';
+import BatchParser from './components/BatchParser';
+import HistoryPanel from './components/HistoryPanel';
+import HtmlPasteNotice from './components/HtmlPasteNotice';
+import ThreadMessages, { ThreadMessageResult, ThreadView } from './components/ThreadMessages';
+import { HistoryEntry } from './history/historyStore';
+import { DEFAULT_JURISDICTION, findJurisdiction, JurisdictionCode, TAX_JURISDICTIONS } from './parsing/taxJurisdictions';
+import { locateErrors, locationAt } from './parsing/errorLocations';
+import { applyEdit, QuickFix } from './parsing/quickFixes';
+import { validateContent } from './parsing/textParsing';
+import { knownTags } from './parsing/knownTags';
+import { traceFieldSources } from './parsing/fieldProvenance';
+import { wrapInTag } from './parsing/tagEditing';
+import { DEFAULT_FIELD_RULES } from './parsing/validationRules';
+import { useLiveValidation } from './hooks/useLiveValidation';
+import { useConnectionMonitor } from './hooks/useConnectionMonitor';
+import { useParseHistory } from './hooks/useParseHistory';
+import { useApiClient } from './hooks/useApiClient';
+import { BATCH_CONCURRENCY, useBatchParser } from './hooks/useBatchParser';
+import { createLimiter } from './utils/concurrency';
+import { createLogger } from './utils/logger';
+
+const log = createLogger('app');
 
 /**
  * Main Text Parsing Application Component
@@ -20,8 +50,48 @@ function App() {
   const [inputText, setInputText] = useState<string>('');
   const [parseResult, setParseResult] = useState<ParseResult | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
-  const [errors, setErrors] = useState<string[]>([]);
-  const [apiConnected, setApiConnected] = useState<boolean | null>(null);
+  // Located against the text they were reported for
+  const [errors, setErrors] = useState<DisplayError[]>([]);
+  const [resultSource, setResultSource] = useState<ResultSource>('api');
+  const [importedFile, setImportedFile] = useState<ImportedFile | null>(null);
+  const [isDragActive, setIsDragActive] = useState<boolean>(false);
+  const [mode, setMode] = useState<'single' | 'batch'>('single');
+  const [jurisdiction, setJurisdiction] = useState<JurisdictionCode>(DEFAULT_JURISDICTION.code);
+  // Origin of the result field being hovered, marked in the editor
+  const [sourceHighlight, setSourceHighlight] = useState<SourceLocation | null>(null);
+  // Each message of a pasted thread parsed on its own; null unless the last submission was a thread
+  const [threadResults, setThreadResults] = useState<ThreadMessageResult[] | null>(null);
+  const [threadView, setThreadView] = useState<ThreadView>('messages');
+  // Last paste converted from HTML, with the text a plain paste would have given
+  const [htmlPaste, setHtmlPaste] = useState<{ text: string; plainText: string; plainCaret: number; tagCount: number } | null>(null);
+  const selectedJurisdiction = findJurisdiction(jurisdiction) || DEFAULT_JURISDICTION;
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const textInputRef = useRef<HTMLTextAreaElement>(null);
+  // Aborts the submission in progress when the user cancels
+  const submitController = useRef<AbortController | null>(null);
+  // Selection to make once the editor has rendered new text (setting the value moves the caret)
+  const pendingSelection = useRef<SourceLocation | null>(null);
+  const client = useApiClient();
+  const connection = useConnectionMonitor();
+  const history = useParseHistory();
+  const apiConnected = connection.status === 'checking' ? null : connection.status !== 'offline';
+  const liveValidation = useLiveValidation(inputText, apiConnected);
+  // Kept here rather than in BatchParser so switching to single mode neither stops a batch nor loses it
+  const batch = useBatchParser(apiConnected, jurisdiction, connection.checkNow);
+  const paletteTags = useMemo(
+    () => knownTags(DEFAULT_FIELD_RULES, [parseResult, ...history.entries.map(entry => entry.result)]),
+    [parseResult, history.entries]
+  );
+  const tagSuggestions = useMemo(() => paletteTags.map(tag => tag.name), [paletteTags]);
+  // Traced against the current text too; values edited away since the run show as not found
+  const fieldProvenance = useMemo(
+    () => parseResult ? traceFieldSources(inputText, parseResult) : null,
+    [inputText, parseResult]
+  );
+
+  useEffect(() => {
+    setSourceHighlight(null);
+  }, [parseResult]);
 
   // Sample data for demonstration
   const sampleData = `Hi Patricia,
@@ -40,67 +110,228 @@ Please create a reservation for 10 at the <vendor>Seaside Steakhouse</vendor> fo
 Regards,
 William`;
 
-  // Check API connectivity on component mount
-  useEffect(() => {
-    checkApiConnection();
-  }, []);
-
-  const checkApiConnection = async () => {
-    try {
-      const result = await TextParsingApiService.testConnection();
-      setApiConnected(result.connected);
-      if (!result.connected) {
-        setErrors([result.message]);
-      }
-    } catch (error) {
-      setApiConnected(false);
-      setErrors(['Failed to connect to API server']);
-    }
-  };
-
   const handleSubmit = async () => {
     if (!inputText.trim()) {
       setErrors(['Please enter some text to parse']);
       return;
     }
 
+    const controller = new AbortController();
+    submitController.current = controller;
     setIsLoading(true);
     setErrors([]);
     setParseResult(null);
+    setThreadResults(null);
 
     try {
-      const result = await TextParsingApiService.parseText(inputText);
-      setParseResult(result);
+      // Falls back to the in-browser engine when the API is offline or unreachable
+      const options = { apiAvailable: apiConnected !== false, jurisdiction, signal: controller.signal };
+      // A pasted thread is also parsed message by message, so a tag in one message cannot hide another's;
+      // one limiter caps the whole-thread request and the per-message ones together
+      const messages = splitThread(inputText);
+      const limiter = createLimiter(BATCH_CONCURRENCY);
+      const parse = (text: string) => limiter.run(() => parseWithFallback(client, text, options));
+      const [outcome, messageOutcomes] = await Promise.all([
+        parse(inputText),
+        messages.length > 1 ? Promise.all(messages.map(message => parse(message.text))) : Promise.resolve(null)
+      ]);
+      setParseResult(outcome.result);
+      setResultSource(outcome.source);
+      setErrors(locateErrors(inputText, outcome.errors, outcome.result?.errorDetails));
+      if (messageOutcomes) {
+        setThreadResults(messages.map((message, index) => ({ message, outcome: messageOutcomes[index] })));
+        setThreadView('messages');
+      }
+
+      // Saved in the background so the results are not held up by storage; addEntry logs its own failures
+      history.addEntry({
+        inputText,
+        result: outcome.result,
+        errors: outcome.errors,
+        source: outcome.source,
+        createdAt: new Date().toISOString(),
+        fileName: importedFile?.fileName,
+        jurisdiction
+      });
 
-      // If parsing failed, show errors
-      if (!result.isValid && result.errors?.length > 0) {
-        setErrors(result.errors);
+      // A network failure means the API may have gone away - refresh the status badge now
+      if (outcome.apiUnreachable || messageOutcomes?.some(messageOutcome => messageOutcome.apiUnreachable)) {
+        connection.checkNow();
       }
     } catch (error) {
-      console.error('Parse failed:', error);
-
-      if (error instanceof ValidationError) {
-        setErrors(error.validationErrors);
-      } else if (error instanceof ApiError) {
-        setErrors(error.errors || [error.message]);
-      } else {
+      // A cancelled submission leaves the editor as it was, with nothing saved.
+      // Nothing awaits this handler, so anything else has to be reported here rather than rethrown
+      if (!controller.signal.aborted) {
+        log.error('Submit failed', { error });
         setErrors(['An unexpected error occurred while parsing the text']);
       }
     } finally {
+      if (submitController.current === controller) {
+        submitController.current = null;
+      }
       setIsLoading(false);
     }
   };
 
+  const handleCancel = () => {
+    submitController.current?.abort();
+  };
+
   const handleClear = () => {
     setInputText('');
     setParseResult(null);
+    setThreadResults(null);
     setErrors([]);
+    setImportedFile(null);
   };
 
   const handleLoadSample = () => {
     setInputText(sampleData);
     setErrors([]);
     setParseResult(null);
+    setThreadResults(null);
+    setImportedFile(null);
+  };
+
+  const selectInEditor = ({ offset, length, line }: SourceLocation) => {
+    const textarea = textInputRef.current;
+    if (!textarea) {
+      return;
+    }
+
+    textarea.focus();
+    textarea.setSelectionRange(offset, offset + length);
+    // Bring the selected line into view; textareas do not scroll to a programmatic selection
+    const lineHeight = parseFloat(window.getComputedStyle(textarea).lineHeight) || 20;
+    textarea.scrollTop = Math.max(0, (line - 3) * lineHeight);
+  };
+
+  useEffect(() => {
+    if (pendingSelection.current) {
+      selectInEditor(pendingSelection.current);
+      pendingSelection.current = null;
+    }
+  }, [inputText]);
+
+  const handleSelectError = (error: StructuredError) => {
+    if (error.location) {
+      selectInEditor(error.location);
+    }
+  };
+
+  const handleApplyFix = (fix: QuickFix) => {
+    const fixedText = applyEdit(inputText, fix.edit);
+    setInputText(fixedText);
+    // Re-check the structure straight away so the error list reflects the fix
+    const validation = validateContent(fixedText);
+    setErrors(locateErrors(fixedText, validation.errors, validation.errorDetails));
+    pendingSelection.current = locationAt(fixedText, fix.edit.offset, fix.edit.replacement.length);
+  };
+
+  const handleInsertTag = (tagName: string) => {
+    const textarea = textInputRef.current;
+    const start = textarea ? textarea.selectionStart : inputText.length;
+    const end = textarea ? textarea.selectionEnd : inputText.length;
+    const edit = wrapInTag(inputText, start, end, tagName);
+
+    setInputText(edit.text);
+    pendingSelection.current = locationAt(edit.text, edit.selectionStart, edit.selectionEnd - edit.selectionStart);
+  };
+
+  const handleLoadHistoryEntry = (entry: HistoryEntry) => {
+    const entryJurisdiction = findJurisdiction(entry.jurisdiction);
+    if (entryJurisdiction) {
+      setJurisdiction(entryJurisdiction.code);
+    }
+    setInputText(entry.inputText);
+    setParseResult(entry.result);
+    setThreadResults(null);
+    setErrors(locateErrors(entry.inputText, entry.errors, entry.result?.errorDetails));
+    setResultSource(entry.source);
+    setImportedFile(null);
+  };
+
+  const handleImportFiles = async (files: FileList | null) => {
+    const file = files?.[0];
+    if (!file) {
+      return;
+    }
+
+    setErrors([]);
+    setParseResult(null);
+    setThreadResults(null);
+
+    try {
+      const imported = await importTextFile(file);
+      setInputText(imported.text);
+      setImportedFile(imported);
+    } catch (error) {
+      setImportedFile(null);
+      setErrors([error instanceof Error ? error.message : `Failed to import ${file.name}`]);
+    }
+  };
+
+  const handleDragOver = (event: React.DragEvent) => {
+    event.preventDefault();
+    if (!isLoading) {
+      setIsDragActive(true);
+    }
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    setIsDragActive(false);
+    if (!isLoading) {
+      handleImportFiles(event.dataTransfer.files);
+    }
+  };
+
+  const renderParseResults = (result: ParseResult) => (
+    <ParseResults
+      xmlBlocks={result.xmlBlocks}
+      taggedFields={result.taggedFields}
+      calculations={result.calculations}
+      isValid={result.isValid}
+      source={resultSource}
+      errors={result.errors}
+      errorDetails={result.errorDetails}
+      fileName={importedFile?.fileName}
+      metadata={importedFile?.metadata}
+      jurisdiction={jurisdiction}
+      provenance={fieldProvenance}
+      onHighlightSource={setSourceHighlight}
+    />
+  );
+
+  const handlePaste = (event: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const plainText = event.clipboardData.getData('text/plain');
+    const converted = convertHtmlPaste(event.clipboardData.getData('text/html'), plainText);
+    if (!converted) {
+      return;
+    }
+
+    event.preventDefault();
+    const { selectionStart, selectionEnd } = event.currentTarget;
+    const replaceSelection = (pasted: string) =>
+      inputText.substring(0, selectionStart) + pasted + inputText.substring(selectionEnd);
+    const text = replaceSelection(converted.text);
+
+    setInputText(text);
+    setHtmlPaste({
+      text,
+      plainText: replaceSelection(plainText),
+      plainCaret: selectionStart + plainText.length,
+      tagCount: converted.tagCount
+    });
+    pendingSelection.current = locationAt(text, selectionStart + converted.text.length, 0);
+  };
+
+  const handleUndoHtmlPaste = () => {
+    if (htmlPaste) {
+      setInputText(htmlPaste.plainText);
+      pendingSelection.current = locationAt(htmlPaste.plainText, htmlPaste.plainCaret, 0);
+      setHtmlPaste(null);
+    }
   };
 
   const handleKeyPress = (event: React.KeyboardEvent) => {
@@ -127,128 +358,244 @@ William`;
             </p>
           </div>
           <div className="header-right">
-            {/* Reserved for future elements */}
+            <ConnectionStatusBadge connection={connection} />
           </div>
         </div>
       </header>
 
       <main className="app-main">
-        <div className="input-section">
-          <div className="input-header">
-            <label htmlFor="text-input" className="input-label">
-              Text Input
-            </label>
-            <div className="input-actions">
-              <button
-                onClick={handleLoadSample}
-                className="sample-button"
-                type="button"
-                disabled={isLoading}
-              >
-                Load Sample
-              </button>
-            </div>
-          </div>
-
-          <textarea
-            id="text-input"
-            className="text-input"
-            value={inputText}
-            onChange={(e) => setInputText(e.target.value)}
-            onKeyDown={handleKeyPress}
-            placeholder="Paste your email or text content here...
-
-Example:
-Hi Patricia,
-Please create an expense claim for the below.
-
-<expense><cost_centre>DEV632</cost_centre><total>35,000</total></expense>
-
-Tagged fields: <vendor>Seaside Steakhouse</vendor>"
-            rows={12}
-            disabled={isLoading}
-          />
-
-          <div className="button-group">
+        <div className="app-toolbar">
+          <div className="mode-toggle" role="group" aria-label="Parsing mode">
             <button
-              onClick={handleSubmit}
-              className="submit-button"
-              disabled={isLoading || !inputText.trim() || apiConnected === false}
               type="button"
+              className={`mode-button ${mode === 'single' ? 'active' : ''}`}
+              aria-pressed={mode === 'single'}
+              onClick={() => setMode('single')}
+              disabled={isLoading}
             >
-              {isLoading ? 'Processing...' : 'Submit'}
+              Single Text
             </button>
-
             <button
-              onClick={handleClear}
-              className="clear-button"
-              disabled={isLoading}
               type="button"
+              className={`mode-button ${mode === 'batch' ? 'active' : ''}`}
+              aria-pressed={mode === 'batch'}
+              onClick={() => setMode('batch')}
+              disabled={isLoading}
             >
-              Clear
+              Batch Files
             </button>
           </div>
 
-          <div className="input-help">
-            <p>💡 <strong>Tips:</strong></p>
-            <ul>
-              <li>Use Ctrl+Enter to submit quickly</li>
-              <li>XML blocks: <code>&lt;expense&gt;&lt;total&gt;100&lt;/total&gt;&lt;/expense&gt;</code></li>
-              <li>Tagged fields: <code>&lt;vendor&gt;Company Name&lt;/vendor&gt;</code></li>
-              <li>Required: <code>&lt;total&gt;</code> tag for tax calculation</li>
-            </ul>
-          </div>
+          <label className="jurisdiction-select">
+            Tax jurisdiction
+            <select
+              value={jurisdiction}
+              onChange={(e) => setJurisdiction(e.target.value as JurisdictionCode)}
+              disabled={isLoading}
+            >
+              {TAX_JURISDICTIONS.map(option => (
+                <option key={option.code} value={option.code}>
+                  {option.name} ({option.taxRate}% {option.taxName}, {option.currency})
+                </option>
+              ))}
+            </select>
+          </label>
         </div>
 
-        {/* Loading State */}
-        {isLoading && (
-          <LoadingSpinner
-            message="Parsing text and calculating tax..."
-            size="large"
-          />
-        )}
+        {mode === 'batch' && <BatchParser batch={batch} jurisdiction={jurisdiction} />}
 
-        {/* Error Display */}
-        {errors.length > 0 && !isLoading && (
-          <ErrorDisplay
-            errors={errors}
-            title="Processing Errors"
-          />
-        )}
+        {mode === 'single' && (
+          <>
+            <div className="input-section">
+              <div className="input-header">
+                <label htmlFor="text-input" className="input-label">
+                  Text Input
+                </label>
+                <div className="input-actions">
+                  <button
+                    onClick={handleLoadSample}
+                    className="sample-button"
+                    type="button"
+                    disabled={isLoading}
+                  >
+                    Load Sample
+                  </button>
+                  <button
+                    onClick={() => fileInputRef.current?.click()}
+                    className="sample-button"
+                    type="button"
+                    disabled={isLoading}
+                  >
+                    Import Email
+                  </button>
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept={IMPORT_FILE_ACCEPT}
+                    className="file-input-hidden"
+                    data-testid="email-file-input"
+                    onChange={(e) => {
+                      handleImportFiles(e.target.files);
+                      e.target.value = '';
+                    }}
+                  />
+                </div>
+              </div>
 
-        {/* Results Display */}
-        {parseResult && !isLoading && (
-          <ParseResults
-            xmlBlocks={parseResult.xmlBlocks}
-            taggedFields={parseResult.taggedFields}
-            calculations={parseResult.calculations}
-            isValid={parseResult.isValid}
-          />
-        )}
+              <div
+                className={`text-input-dropzone ${isDragActive ? 'drag-active' : ''}`}
+                onDragOver={handleDragOver}
+                onDragLeave={() => setIsDragActive(false)}
+                onDrop={handleDrop}
+              >
+                <TagEditor
+                  ref={textInputRef}
+                  id="text-input"
+                  value={inputText}
+                  onChange={setInputText}
+                  onKeyDown={handleKeyPress}
+                  onPaste={handlePaste}
+                  tagSuggestions={tagSuggestions}
+                  highlightedRange={sourceHighlight}
+                  placeholder="Paste your email or text content here...
 
-        {/* Instructions */}
-        {!parseResult && !isLoading && errors.length === 0 && (
-          <div className="instructions">
-            <h2>How to Use</h2>
-            <div className="instruction-grid">
-              <div className="instruction-item">
-                <h3>📝 Input Text</h3>
-                <p>Paste email content or text containing XML blocks and tagged fields</p>
-              </div>
-              <div className="instruction-item">
-                <h3>🔍 XML Extraction</h3>
-                <p>Extracts complete XML blocks like <code>&lt;expense&gt;...&lt;/expense&gt;</code></p>
-              </div>
-              <div className="instruction-item">
-                <h3>🏷️ Tagged Fields</h3>
-                <p>Finds individual tagged fields like <code>&lt;vendor&gt;Name&lt;/vendor&gt;</code></p>
+Example:
+Hi Patricia,
+Please create an expense claim for the below.
+
+<expense><cost_centre>DEV632</cost_centre><total>35,000</total></expense>
+
+Tagged fields: <vendor>Seaside Steakhouse</vendor>"
+                  rows={12}
+                  disabled={isLoading}
+                />
+                {isDragActive && (
+                  <div className="drop-overlay">Drop a .eml or .txt file to load it</div>
+                )}
               </div>
-              <div className="instruction-item">
-                <h3>💰 Tax Calculation</h3>
-                <p>Automatically calculates 15% GST from extracted totals</p>
+
+              {/* Only offered until the text is edited again, when undo would lose the edit */}
+              {htmlPaste && htmlPaste.text === inputText && (
+                <HtmlPasteNotice
+                  tagCount={htmlPaste.tagCount}
+                  onUndo={handleUndoHtmlPaste}
+                  onDismiss={() => setHtmlPaste(null)}
+                />
+              )}
+
+              <ValidationStatus validation={liveValidation} />
+
+              <div className="button-group">
+                <button
+                  onClick={handleSubmit}
+                  className="submit-button"
+                  disabled={isLoading || !inputText.trim()}
+                  type="button"
+                >
+                  {isLoading ? 'Processing...' : 'Submit'}
+                </button>
+
+                {isLoading && (
+                  <button
+                    onClick={handleCancel}
+                    className="cancel-button"
+                    type="button"
+                  >
+                    Cancel
+                  </button>
+                )}
+
+                <button
+                  onClick={handleClear}
+                  className="clear-button"
+                  disabled={isLoading}
+                  type="button"
+                >
+                  Clear
+                </button>
               </div>
+
+              <TagPalette tags={paletteTags} onInsertTag={handleInsertTag} disabled={isLoading} />
             </div>
-          </div>
+
+            {/* Loading State */}
+            {isLoading && (
+              <LoadingSpinner
+                message="Parsing text and calculating tax..."
+                size="large"
+              />
+            )}
+
+            {/* Error Display */}
+            {errors.length > 0 && !isLoading && (
+              <ErrorDisplay
+                errors={errors}
+                title="Processing Errors"
+                onSelectError={handleSelectError}
+                content={inputText}
+                onApplyFix={handleApplyFix}
+              />
+            )}
+
+            {/* Imported email headers */}
+            {importedFile?.metadata && parseResult && !isLoading && (
+              <EmailMetadataPanel
+                metadata={importedFile.metadata}
+                fileName={importedFile.fileName}
+              />
+            )}
+
+            {/* Results Display */}
+            {parseResult && !isLoading && (threadResults ? (
+              <ThreadMessages
+                messages={threadResults}
+                view={threadView}
+                onViewChange={setThreadView}
+                content={inputText}
+                jurisdiction={jurisdiction}
+                onHighlightSource={setSourceHighlight}
+              >
+                {renderParseResults(parseResult)}
+              </ThreadMessages>
+            ) : renderParseResults(parseResult))}
+
+            {/* Instructions */}
+            {!parseResult && !isLoading && errors.length === 0 && (
+              <div className="instructions">
+                <h2>How to Use</h2>
+                <div className="instruction-grid">
+                  <div className="instruction-item">
+                    <h3>📝 Input Text</h3>
+                    <p>Paste email content or text containing XML blocks and tagged fields</p>
+                  </div>
+                  <div className="instruction-item">
+                    <h3>🔍 XML Extraction</h3>
+                    <p>Extracts complete XML blocks like <code>&lt;expense&gt;...&lt;/expense&gt;</code></p>
+                  </div>
+                  <div className="instruction-item">
+                    <h3>🏷️ Tagged Fields</h3>
+                    <p>Finds individual tagged fields like <code>&lt;vendor&gt;Name&lt;/vendor&gt;</code></p>
+                  </div>
+                  <div className="instruction-item">
+                    <h3>💰 Tax Calculation</h3>
+                    <p>
+                      Automatically calculates {selectedJurisdiction.taxRate}% {selectedJurisdiction.taxName} from
+                      extracted totals for {selectedJurisdiction.name}
+                    </p>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            <HistoryPanel
+              history={history}
+              apiConnected={apiConnected}
+              jurisdiction={jurisdiction}
+              onLoad={handleLoadHistoryEntry}
+              onApiUnreachable={connection.checkNow}
+              disabled={isLoading}
+            />
+          </>
         )}
       </main>
 
@@ -0,0 +1,73 @@
+import { buildExpenseClaim, claimAsResult, claimFieldsFromResult, recalculateTax } from './expenseClaim';
+import { ParseResult } from '../types/api';
+
+const result: ParseResult = {
+  xmlBlocks: [
+    { tagName: 'expense', fields: { cost_centre: 'DEV632', total: '35,000' }, rawXml: '<expense>...</expense>' }
+  ],
+  taggedFields: { vendor: 'Seaside Steakhouse' },
+  calculations: { totalIncludingTax: 35000, taxAmount: 4565.22, totalExcludingTax: 30434.78, taxRate: 15, taxName: 'GST', currency: 'NZD', jurisdiction: 'NZ' },
+  isValid: true,
+  errors: [],
+  errorDetails: []
+};
+
+describe('expense claim', () => {
+  test('lists block and tagged fields with stable keys', () => {
+    expect(claimFieldsFromResult(result).map(field => field.key)).toEqual([
+      'block:0:cost_centre',
+      'block:0:total',
+      'tagged:vendor'
+    ]);
+  });
+
+  test('adds an empty total when none was extracted', () => {
+    const fields = claimFieldsFromResult({ ...result, xmlBlocks: [], calculations: null, isValid: false });
+    expect(fields[fields.length - 1]).toEqual({ key: 'tagged:total', name: 'total', originalValue: '' });
+  });
+
+  test('recalculates tax with the 15/115 formula from an edited total', () => {
+    const fields = claimFieldsFromResult(result);
+    const claim = buildExpenseClaim(result, fields, { 'block:0:total': '1,234.50', 'tagged:vendor': 'Seaside Steakhouse' },
+      new Date('2026-01-02T03:04:05Z'));
+
+    expect(claim).toEqual({
+      xmlBlocks: [{ tagName: 'expense', fields: { cost_centre: 'DEV632', total: '1,234.50' } }],
+      taggedFields: { vendor: 'Seaside Steakhouse' },
+      calculations: { totalIncludingTax: 1234.5, taxAmount: 161.02, totalExcludingTax: 1073.48, taxRate: 15, taxName: 'GST', currency: 'NZD', jurisdiction: 'NZ' },
+      // Re-typing the extracted vendor is not an override
+      overriddenFields: ['block:0:total'],
+      confirmedAt: '2026-01-02T03:04:05.000Z'
+    });
+  });
+
+  test('keeps recalculating in the jurisdiction the result was parsed for', () => {
+    const australian: ParseResult = {
+      ...result,
+      calculations: { totalIncludingTax: 110, taxAmount: 10, totalExcludingTax: 100, taxRate: 10, taxName: 'GST', currency: 'AUD', jurisdiction: 'AU' }
+    };
+    const claim = buildExpenseClaim(australian, claimFieldsFromResult(australian), { 'block:0:total': '220' });
+
+    expect(claim.calculations).toEqual({
+      totalIncludingTax: 220, taxAmount: 20, totalExcludingTax: 200, taxRate: 10, taxName: 'GST', currency: 'AUD', jurisdiction: 'AU'
+    });
+  });
+
+  test('has no calculation for a total that is not a number', () => {
+    expect(recalculateTax([], { total: 'lots' })).toBeNull();
+  });
+
+  test('exports a confirmed claim in place of the extracted values', () => {
+    const fields = claimFieldsFromResult(result);
+    const claim = buildExpenseClaim(result, fields, { 'block:0:total': '115', 'tagged:vendor': 'Harbour Cafe' });
+
+    expect(claimAsResult(result, claim)).toEqual({
+      ...result,
+      xmlBlocks: [
+        { tagName: 'expense', fields: { cost_centre: 'DEV632', total: '115' }, rawXml: '<expense>...</expense>' }
+      ],
+      taggedFields: { vendor: 'Harbour Cafe' },
+      calculations: { totalIncludingTax: 115, taxAmount: 15, totalExcludingTax: 100, taxRate: 15, taxName: 'GST', currency: 'NZD', jurisdiction: 'NZ' }
+    });
+  });
+});
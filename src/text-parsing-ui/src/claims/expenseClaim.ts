@@ -0,0 +1,145 @@
+import { calculateFromTotalIncludingTax, extractTotalAmount } from '../parsing/taxCalculation';
+import { DEFAULT_JURISDICTION, findJurisdiction, TaxJurisdiction } from '../parsing/taxJurisdictions';
+import { ParseResult, TaxCalculation, XmlBlock } from '../types/api';
+
+/**
+ * Turns a parse result into editable claim fields and back into a confirmed claim.
+ * Tax is recalculated with the same engine the offline parser uses, so edited
+ * totals produce exactly the figures the API would.
+ */
+
+export interface ClaimField {
+  /** Stable key, e.g. "block:0:total" or "tagged:vendor" */
+  key: string;
+  name: string;
+  originalValue: string;
+  blockIndex?: number;
+}
+
+export interface ClaimBlock {
+  tagName: string;
+  fields: Record<string, string>;
+}
+
+export interface ExpenseClaim {
+  xmlBlocks: ClaimBlock[];
+  taggedFields: Record<string, string>;
+  calculations: TaxCalculation | null;
+  /** Keys of every field whose value was changed by hand */
+  overriddenFields: string[];
+  confirmedAt: string;
+}
+
+const blockFieldKey = (blockIndex: number, name: string) => `block:${blockIndex}:${name}`;
+const taggedFieldKey = (name: string) => `tagged:${name}`;
+
+/**
+ * Lists every extracted field as an editable input. When no total was extracted an
+ * empty tagged total is added so the claim can still be completed by hand.
+ */
+export function claimFieldsFromResult(result: ParseResult): ClaimField[] {
+  const fields: ClaimField[] = [];
+
+  (result.xmlBlocks || []).forEach((block, blockIndex) => {
+    for (const [name, value] of Object.entries(block.fields)) {
+      fields.push({ key: blockFieldKey(blockIndex, name), name, originalValue: value, blockIndex });
+    }
+  });
+
+  for (const [name, value] of Object.entries(result.taggedFields || {})) {
+    fields.push({ key: taggedFieldKey(name), name, originalValue: value });
+  }
+
+  if (!fields.some(field => field.name === 'total')) {
+    fields.push({ key: taggedFieldKey('total'), name: 'total', originalValue: '' });
+  }
+
+  return fields;
+}
+
+/**
+ * Only values that differ from what was extracted count as overrides
+ */
+export function overriddenFieldKeys(fields: ClaimField[], values: Record<string, string>): string[] {
+  return fields
+    .filter(field => field.key in values && values[field.key] !== field.originalValue)
+    .map(field => field.key);
+}
+
+export function applyClaimValues(
+  result: ParseResult,
+  fields: ClaimField[],
+  values: Record<string, string>
+): { xmlBlocks: ClaimBlock[]; taggedFields: Record<string, string> } {
+  const xmlBlocks = (result.xmlBlocks || []).map((block: XmlBlock) => ({ tagName: block.tagName, fields: { ...block.fields } }));
+  const taggedFields: Record<string, string> = { ...result.taggedFields };
+
+  for (const field of fields) {
+    const value = field.key in values ? values[field.key] : field.originalValue;
+    if (field.blockIndex !== undefined) {
+      xmlBlocks[field.blockIndex].fields[field.name] = value;
+    } else if (value !== '' || field.name in taggedFields) {
+      taggedFields[field.name] = value;
+    }
+  }
+
+  return { xmlBlocks, taggedFields };
+}
+
+/**
+ * Jurisdiction a claim is taxed in: the one the result was calculated for, otherwise the fallback
+ */
+export function claimJurisdiction(
+  result: ParseResult,
+  fallback: TaxJurisdiction = DEFAULT_JURISDICTION
+): TaxJurisdiction {
+  return (result.calculations && findJurisdiction(result.calculations.jurisdiction)) || fallback;
+}
+
+/**
+ * Recalculates tax from the (possibly edited) total; null when the total is missing or not a number
+ */
+export function recalculateTax(
+  xmlBlocks: ClaimBlock[],
+  taggedFields: Record<string, string>,
+  jurisdiction: TaxJurisdiction = DEFAULT_JURISDICTION
+): TaxCalculation | null {
+  try {
+    const total = extractTotalAmount(xmlBlocks.map(block => ({ ...block, rawXml: '' })), taggedFields);
+    return total === null ? null : calculateFromTotalIncludingTax(total, jurisdiction);
+  } catch {
+    // Totals too large for a decimal cannot be claimed
+    return null;
+  }
+}
+
+export function buildExpenseClaim(
+  result: ParseResult,
+  fields: ClaimField[],
+  values: Record<string, string>,
+  confirmedAt: Date = new Date(),
+  jurisdiction: TaxJurisdiction = claimJurisdiction(result)
+): ExpenseClaim {
+  const { xmlBlocks, taggedFields } = applyClaimValues(result, fields, values);
+
+  return {
+    xmlBlocks,
+    taggedFields,
+    calculations: recalculateTax(xmlBlocks, taggedFields, jurisdiction),
+    overriddenFields: overriddenFieldKeys(fields, values),
+    confirmedAt: confirmedAt.toISOString()
+  };
+}
+
+/**
+ * The result with a confirmed claim's values in place of the extracted ones, for exporting.
+ * Blocks keep their raw XML and the result keeps its validity and errors.
+ */
+export function claimAsResult(result: ParseResult, claim: ExpenseClaim): ParseResult {
+  return {
+    ...result,
+    xmlBlocks: (result.xmlBlocks || []).map((block, index) => ({ ...block, fields: claim.xmlBlocks[index].fields })),
+    taggedFields: claim.taggedFields,
+    calculations: claim.calculations
+  };
+}
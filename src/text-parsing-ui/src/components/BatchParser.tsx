@@ -0,0 +1,109 @@
+import React, { useRef, useState } from 'react';
+import { IMPORT_FILE_ACCEPT } from '../email/emailImport';
+import { ExportEntry } from '../export/resultExport';
+import { BatchParserState } from '../hooks/useBatchParser';
+import BatchResultsTable from './BatchResultsTable';
+import ExportActions from './ExportActions';
+import './BatchParser.css';
+
+interface BatchParserProps {
+  /** Owned by the app, so the batch keeps running and keeps its results while single mode is shown */
+  batch: BatchParserState;
+  /** Jurisdiction selected in the app, for claim edits in a file's results */
+  jurisdiction: string;
+}
+
+/**
+ * Batch mode: drop many .eml/.txt files and parse each one through the API
+ */
+const BatchParser: React.FC<BatchParserProps> = ({ batch, jurisdiction }) => {
+  const [isDragActive, setIsDragActive] = useState<boolean>(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const finishedCount = batch.items.filter(item => item.status !== 'queued' && item.status !== 'parsing').length;
+
+  const exportEntries: ExportEntry[] = batch.items
+    .filter(item => item.result)
+    .map(item => ({
+      result: { ...item.result!, errors: item.errors },
+      fileName: item.fileName,
+      source: item.source,
+      metadata: item.metadata
+    }));
+
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    setIsDragActive(false);
+    batch.addFiles(event.dataTransfer.files);
+  };
+
+  return (
+    <div className="batch-parser">
+      <div
+        className={`batch-dropzone ${isDragActive ? 'drag-active' : ''}`}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragActive(true);
+        }}
+        onDragLeave={() => setIsDragActive(false)}
+        onDrop={handleDrop}
+        data-testid="batch-dropzone"
+      >
+        <p className="batch-dropzone-title">Drop .eml or .txt files here</p>
+        <p className="batch-dropzone-hint">Each file is parsed separately and summarised in the table below</p>
+        <div className="batch-actions">
+          <button
+            type="button"
+            className="sample-button"
+            onClick={() => fileInputRef.current?.click()}
+          >
+            Choose Files
+          </button>
+          {batch.isRunning && (
+            <button type="button" className="cancel-button" onClick={batch.cancel}>
+              Cancel
+            </button>
+          )}
+          <button
+            type="button"
+            className="clear-button"
+            onClick={batch.clear}
+            disabled={batch.isRunning || batch.items.length === 0}
+          >
+            Clear Batch
+          </button>
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={IMPORT_FILE_ACCEPT}
+          multiple
+          className="file-input-hidden"
+          data-testid="batch-file-input"
+          onChange={(e) => {
+            if (e.target.files) {
+              batch.addFiles(e.target.files);
+            }
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {batch.items.length > 0 && (
+        <>
+          <div className="batch-toolbar">
+            <p className="batch-progress" role="status">
+              {batch.isRunning
+                ? `Parsing files... ${finishedCount} of ${batch.items.length} done`
+                : `Parsed ${batch.items.length} ${batch.items.length === 1 ? 'file' : 'files'}`}
+            </p>
+            <ExportActions entries={exportEntries} fileBaseName="batch-results" disabled={batch.isRunning} />
+          </div>
+          <BatchResultsTable items={batch.items} jurisdiction={jurisdiction} />
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BatchParser;
@@ -0,0 +1,273 @@
+import React, { useMemo, useState } from 'react';
+import { BatchItem } from '../hooks/useBatchParser';
+import { DEFAULT_JURISDICTION } from '../parsing/taxJurisdictions';
+import { formatCurrency } from '../utils/formatting';
+import { findFieldValue } from '../utils/parseResultFields';
+import ParseResults from './ParseResults';
+import EmailMetadataPanel from './EmailMetadataPanel';
+import './BatchResultsTable.css';
+
+interface BatchResultsTableProps {
+  items: BatchItem[];
+  /** Jurisdiction selected in the app, for claim edits and results without a calculation */
+  jurisdiction?: string;
+}
+
+type SortKey = 'fileName' | 'status' | 'costCentre' | 'totalIncludingTax' | 'totalExcludingTax' | 'taxAmount' | 'errors';
+type SortDirection = 'ascending' | 'descending';
+
+interface BatchRow {
+  item: BatchItem;
+  isValid: boolean;
+  statusLabel: string;
+  costCentre: string;
+  totalIncludingTax: number | null;
+  totalExcludingTax: number | null;
+  taxAmount: number | null;
+  currency: string;
+}
+
+interface CurrencyTotals {
+  currency: string;
+  fileCount: number;
+  totalIncludingTax: number;
+  totalExcludingTax: number;
+  taxAmount: number;
+}
+
+const COLUMNS: { key: SortKey; label: string; numeric?: boolean }[] = [
+  { key: 'fileName', label: 'File' },
+  { key: 'status', label: 'Status' },
+  { key: 'costCentre', label: 'Cost Centre' },
+  { key: 'totalIncludingTax', label: 'Total (incl. tax)', numeric: true },
+  { key: 'totalExcludingTax', label: 'Total (excl. tax)', numeric: true },
+  { key: 'taxAmount', label: 'Tax', numeric: true },
+  { key: 'errors', label: 'Errors' }
+];
+
+const toRow = (item: BatchItem): BatchRow => {
+  const result = item.result;
+  const isValid = item.status === 'done' && !!result?.isValid;
+  const statusLabel = item.status === 'queued' ? 'Queued'
+    : item.status === 'parsing' ? 'Parsing...'
+    : item.status === 'cancelled' ? 'Cancelled'
+    : isValid ? 'Valid' : 'Invalid';
+
+  return {
+    item,
+    isValid,
+    statusLabel,
+    costCentre: (result && findFieldValue(result, 'cost_centre')) || '',
+    totalIncludingTax: result?.calculations?.totalIncludingTax ?? null,
+    totalExcludingTax: result?.calculations?.totalExcludingTax ?? null,
+    taxAmount: result?.calculations?.taxAmount ?? null,
+    currency: result?.calculations?.currency || DEFAULT_JURISDICTION.currency
+  };
+};
+
+const sortValue = (row: BatchRow, key: SortKey): string | number | null => {
+  switch (key) {
+    case 'fileName':
+      return row.item.fileName.toLowerCase();
+    case 'status':
+      return row.statusLabel;
+    case 'costCentre':
+      return row.costCentre.toLowerCase();
+    case 'errors':
+      return row.item.errors.length;
+    default:
+      return row[key];
+  }
+};
+
+// Sum in cents so totals are not thrown off by floating point drift
+const sumCents = (values: (number | null)[]): number =>
+  values.reduce<number>((sum, value) => sum + Math.round((value ?? 0) * 100), 0) / 100;
+
+// Amounts in different currencies are never added together
+const totalsByCurrency = (rows: BatchRow[]): CurrencyTotals[] => {
+  const currencies = Array.from(new Set(rows.map(row => row.currency)));
+  if (currencies.length === 0) {
+    currencies.push(DEFAULT_JURISDICTION.currency);
+  }
+
+  return currencies.map(currency => {
+    const inCurrency = rows.filter(row => row.currency === currency);
+    return {
+      currency,
+      fileCount: inCurrency.length,
+      totalIncludingTax: sumCents(inCurrency.map(row => row.totalIncludingTax)),
+      totalExcludingTax: sumCents(inCurrency.map(row => row.totalExcludingTax)),
+      taxAmount: sumCents(inCurrency.map(row => row.taxAmount))
+    };
+  });
+};
+
+/**
+ * Sortable summary of a batch run; each row expands to the full parse results for that file
+ */
+const BatchResultsTable: React.FC<BatchResultsTableProps> = ({ items, jurisdiction }) => {
+  const [sortKey, setSortKey] = useState<SortKey | null>(null);
+  const [sortDirection, setSortDirection] = useState<SortDirection>('ascending');
+  const [expandedIds, setExpandedIds] = useState<Set<number>>(new Set());
+
+  const rows = useMemo(() => {
+    const mapped = items.map(toRow);
+    if (!sortKey) {
+      return mapped;
+    }
+
+    const direction = sortDirection === 'ascending' ? 1 : -1;
+    return [...mapped].sort((a, b) => {
+      const left = sortValue(a, sortKey);
+      const right = sortValue(b, sortKey);
+      // Rows without a value always sink to the bottom
+      if (left === null || right === null) {
+        return left === right ? 0 : left === null ? 1 : -1;
+      }
+      return left < right ? -direction : left > right ? direction : 0;
+    });
+  }, [items, sortKey, sortDirection]);
+
+  const validRows = rows.filter(row => row.isValid);
+  const currencyTotals = totalsByCurrency(validRows);
+  const mixedCurrencies = currencyTotals.length > 1;
+
+  const handleSort = (key: SortKey) => {
+    if (sortKey === key) {
+      setSortDirection(sortDirection === 'ascending' ? 'descending' : 'ascending');
+    } else {
+      setSortKey(key);
+      setSortDirection('ascending');
+    }
+  };
+
+  const toggleExpanded = (id: number) => {
+    setExpandedIds(current => {
+      const next = new Set(current);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const renderAmount = (value: number | null, currency: string) =>
+    (value === null ? '—' : formatCurrency(value, currency));
+
+  return (
+    <div className="batch-results">
+      <table className="batch-table">
+        <thead>
+          <tr>
+            {COLUMNS.map(column => (
+              <th
+                key={column.key}
+                scope="col"
+                className={column.numeric ? 'numeric' : undefined}
+                aria-sort={sortKey === column.key ? sortDirection : 'none'}
+              >
+                <button type="button" className="sort-button" onClick={() => handleSort(column.key)}>
+                  {column.label}
+                  <span className="sort-indicator" aria-hidden="true">
+                    {sortKey === column.key ? (sortDirection === 'ascending' ? '▲' : '▼') : ''}
+                  </span>
+                </button>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => {
+            const { item } = row;
+            const isExpanded = expandedIds.has(item.id);
+            const canExpand = item.status === 'done' || item.status === 'failed';
+
+            return (
+              <React.Fragment key={item.id}>
+                <tr className={`batch-row ${item.status}`}>
+                  <td>
+                    <button
+                      type="button"
+                      className="expand-button"
+                      onClick={() => toggleExpanded(item.id)}
+                      aria-expanded={isExpanded}
+                      disabled={!canExpand}
+                    >
+                      <span aria-hidden="true">{isExpanded ? '▾' : '▸'}</span> {item.fileName}
+                    </button>
+                  </td>
+                  <td>
+                    <span className={`batch-status ${row.isValid ? 'valid' : item.status === 'done' || item.status === 'failed' ? 'invalid' : 'pending'}`}>
+                      {row.statusLabel}
+                    </span>
+                    {item.source === 'local' && item.result && (
+                      <span className="batch-local" title="Computed in your browser because the API was unreachable"> (local)</span>
+                    )}
+                  </td>
+                  <td>{row.costCentre || '—'}</td>
+                  <td className="numeric">{renderAmount(row.totalIncludingTax, row.currency)}</td>
+                  <td className="numeric">{renderAmount(row.totalExcludingTax, row.currency)}</td>
+                  <td className="numeric">{renderAmount(row.taxAmount, row.currency)}</td>
+                  <td className="batch-errors">
+                    {item.errors.length > 0 ? item.errors.join('; ') : '—'}
+                  </td>
+                </tr>
+                {isExpanded && (
+                  <tr className="batch-detail-row">
+                    <td colSpan={COLUMNS.length}>
+                      {item.metadata && (
+                        <EmailMetadataPanel metadata={item.metadata} fileName={item.fileName} />
+                      )}
+                      {item.result ? (
+                        <ParseResults
+                          xmlBlocks={item.result.xmlBlocks}
+                          taggedFields={item.result.taggedFields}
+                          calculations={item.result.calculations}
+                          isValid={item.result.isValid}
+                          source={item.source}
+                          errors={item.errors}
+                          errorDetails={item.result.errorDetails}
+                          fileName={item.fileName}
+                          metadata={item.metadata}
+                          jurisdiction={jurisdiction}
+                        />
+                      ) : (
+                        <p className="empty-state">No results could be extracted from this file</p>
+                      )}
+                    </td>
+                  </tr>
+                )}
+              </React.Fragment>
+            );
+          })}
+        </tbody>
+        <tfoot>
+          {currencyTotals.map(totals => (
+            <tr key={totals.currency}>
+              <th scope="row" colSpan={3}>
+                Total of {totals.fileCount} valid{' '}
+                {mixedCurrencies ? `${totals.currency} ` : ''}
+                {totals.fileCount === 1 ? 'file' : 'files'}
+              </th>
+              <td className="numeric" data-testid="batch-total-including-tax">
+                {formatCurrency(totals.totalIncludingTax, totals.currency)}
+              </td>
+              <td className="numeric" data-testid="batch-total-excluding-tax">
+                {formatCurrency(totals.totalExcludingTax, totals.currency)}
+              </td>
+              <td className="numeric" data-testid="batch-total-tax">
+                {formatCurrency(totals.taxAmount, totals.currency)}
+              </td>
+              <td />
+            </tr>
+          ))}
+        </tfoot>
+      </table>
+    </div>
+  );
+};
+
+export default BatchResultsTable;
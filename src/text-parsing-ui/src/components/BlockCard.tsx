@@ -0,0 +1,75 @@
+import React from 'react';
+import { SourceLocation, TracedField } from '../types/api';
+import './BlockCard.css';
+
+export interface BlockCardRow {
+  label: string;
+  value: React.ReactNode;
+  /** Block field the row shows, so hovering it can highlight the field's origin */
+  fieldName?: string;
+  className?: string;
+}
+
+interface BlockCardProps {
+  icon: string;
+  title: string;
+  rows: BlockCardRow[];
+  /** Block fields the card has no dedicated row for, listed after the rows */
+  otherFields?: Record<string, string>;
+  tracedFields?: TracedField[];
+  onHighlightSource?: (location: SourceLocation | null) => void;
+  className?: string;
+}
+
+/**
+ * Summary card layout shared by the type-specific XML block renderers
+ */
+const BlockCard: React.FC<BlockCardProps> = ({
+  icon,
+  title,
+  rows,
+  otherFields = {},
+  tracedFields = [],
+  onHighlightSource,
+  className = ""
+}) => {
+  const allRows: BlockCardRow[] = [
+    ...rows,
+    ...Object.entries(otherFields).map(([name, value]) => ({ label: name, value, fieldName: name, className: 'extra' }))
+  ];
+
+  const sourceOf = (fieldName: string | undefined): SourceLocation | null => {
+    const traced = tracedFields.find(field => field.name === fieldName && field.source.kind === 'extracted');
+    return traced && traced.source.kind === 'extracted' ? traced.source.location : null;
+  };
+
+  return (
+    <section className={`block-card ${className}`} aria-label={title}>
+      <h5 className="block-card-title">
+        <span aria-hidden="true">{icon}</span> {title}
+      </h5>
+      <dl className="block-card-rows">
+        {allRows.map(row => {
+          const source = sourceOf(row.fieldName);
+          return (
+            <div
+              key={row.label}
+              className={`block-card-row ${row.className || ''} ${source ? 'traced' : ''}`}
+              data-testid="block-card-row"
+              tabIndex={source ? 0 : undefined}
+              onMouseEnter={source ? () => onHighlightSource?.(source) : undefined}
+              onMouseLeave={source ? () => onHighlightSource?.(null) : undefined}
+              onFocus={source ? () => onHighlightSource?.(source) : undefined}
+              onBlur={source ? () => onHighlightSource?.(null) : undefined}
+            >
+              <dt>{row.label}</dt>
+              <dd>{row.value ?? <span className="block-card-missing">Not provided</span>}</dd>
+            </div>
+          );
+        })}
+      </dl>
+    </section>
+  );
+};
+
+export default BlockCard;
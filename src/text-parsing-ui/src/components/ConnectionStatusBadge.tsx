@@ -0,0 +1,48 @@
+import React from 'react';
+import { ConnectionMonitor, MonitorStatus } from '../hooks/useConnectionMonitor';
+import './ConnectionStatusBadge.css';
+
+interface ConnectionStatusBadgeProps {
+  connection: ConnectionMonitor;
+}
+
+const STATUS_LABELS: Record<MonitorStatus, string> = {
+  checking: 'Checking API...',
+  connected: 'API connected',
+  degraded: 'API degraded',
+  offline: 'API offline'
+};
+
+/**
+ * Header badge showing the live API connection status and when it was last checked
+ */
+const ConnectionStatusBadge: React.FC<ConnectionStatusBadgeProps> = ({ connection }) => {
+  const { status, message, lastChecked, checkNow } = connection;
+
+  const formatTime = (date: Date): string => {
+    return date.toLocaleTimeString('en-NZ', {
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+  };
+
+  return (
+    <div className={`api-status ${status}`} role="status" title={message}>
+      <span className="status-dot" aria-hidden="true"></span>
+      <div className="status-text">
+        <span className="status-label">{STATUS_LABELS[status]}</span>
+        {lastChecked && (
+          <span className="status-checked">Checked {formatTime(lastChecked)}</span>
+        )}
+      </div>
+      {(status === 'offline' || status === 'degraded') && (
+        <button onClick={checkNow} className="retry-button" type="button">
+          Retry
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ConnectionStatusBadge;
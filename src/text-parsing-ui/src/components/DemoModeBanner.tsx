@@ -0,0 +1,27 @@
+import React from 'react';
+import { FakeScenario } from '../services/fakeBackend';
+import './DemoModeBanner.css';
+
+interface DemoModeBannerProps {
+  scenario: FakeScenario;
+  latencyMs: number;
+  className?: string;
+}
+
+const SCENARIO_LABELS: Record<FakeScenario, string> = {
+  normal: 'parsed in the browser',
+  'validation-failure': 'every parse fails validation',
+  'server-error': 'every request fails with a 500'
+};
+
+/**
+ * Marks the page as running against the in-memory backend rather than the .NET API
+ */
+const DemoModeBanner: React.FC<DemoModeBannerProps> = ({ scenario, latencyMs, className = "" }) => (
+  <div className={`demo-mode-banner ${className}`} role="note">
+    <strong>Demo mode</strong> - no server is used; requests are answered by an in-memory backend
+    ({SCENARIO_LABELS[scenario]}, {latencyMs} ms latency)
+  </div>
+);
+
+export default DemoModeBanner;
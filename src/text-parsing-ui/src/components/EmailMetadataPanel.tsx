@@ -0,0 +1,45 @@
+import React from 'react';
+import { EmailMetadata } from '../email/mimeDecoder';
+import './EmailMetadataPanel.css';
+
+interface EmailMetadataPanelProps {
+  metadata: EmailMetadata;
+  fileName?: string;
+}
+
+const METADATA_FIELDS: Array<{ key: keyof EmailMetadata; label: string }> = [
+  { key: 'from', label: 'From' },
+  { key: 'to', label: 'To' },
+  { key: 'subject', label: 'Subject' },
+  { key: 'date', label: 'Date' }
+];
+
+/**
+ * Header details of an imported email, shown alongside its parse results
+ */
+const EmailMetadataPanel: React.FC<EmailMetadataPanelProps> = ({ metadata, fileName }) => {
+  const fields = METADATA_FIELDS.filter(field => metadata[field.key]);
+
+  if (fields.length === 0 && !fileName) {
+    return null;
+  }
+
+  return (
+    <div className="email-metadata">
+      <h3 className="section-title">
+        ✉️ Email Details
+        {fileName && <span className="email-file-name">{fileName}</span>}
+      </h3>
+      <dl className="email-metadata-list">
+        {fields.map(field => (
+          <React.Fragment key={field.key}>
+            <dt>{field.label}</dt>
+            <dd>{metadata[field.key]}</dd>
+          </React.Fragment>
+        ))}
+      </dl>
+    </div>
+  );
+};
+
+export default EmailMetadataPanel;
@@ -1,37 +1,133 @@
 import React from 'react';
+import { previewEdit, QuickFix, quickFixesFor } from '../parsing/quickFixes';
+import { DisplayError, ErrorSeverity, StructuredError } from '../types/api';
 import './ErrorDisplay.css';
 
 interface ErrorDisplayProps {
-  errors: string[];
+  errors: DisplayError[];
   title?: string;
   className?: string;
+  /** Called when a located error is clicked, e.g. to select the offending text */
+  onSelectError?: (error: StructuredError) => void;
+  /** Text the errors were located in; quick fixes are only offered when it is given */
+  content?: string;
+  onApplyFix?: (fix: QuickFix) => void;
 }
 
+const SEVERITY_ORDER: ErrorSeverity[] = ['error', 'warning', 'info'];
+
+const SEVERITY_LABELS: Record<ErrorSeverity, string> = {
+  error: 'Errors',
+  warning: 'Warnings',
+  info: 'Notes'
+};
+
+const severityOf = (error: DisplayError): ErrorSeverity =>
+  typeof error === 'string' ? 'error' : error.severity;
+
+const describeLocation = (error: StructuredError): string => {
+  const parts = [
+    error.tagName && `<${error.tagName}>`,
+    error.location && `line ${error.location.line}, column ${error.location.column}`,
+    error.occurrences && `and ${error.occurrences - 1} more`
+  ].filter(Boolean);
+  return parts.join(' · ');
+};
+
 /**
- * Component for displaying validation errors and API errors
+ * Component for displaying validation errors and API errors, grouped by severity.
+ * Errors with a location can be clicked to jump to them in the editor.
  */
 const ErrorDisplay: React.FC<ErrorDisplayProps> = ({
   errors,
   title = "Validation Errors",
-  className = ""
+  className = "",
+  onSelectError,
+  content,
+  onApplyFix
 }) => {
   if (!errors || errors.length === 0) {
     return null;
   }
 
+  const groups = SEVERITY_ORDER
+    .map(severity => ({ severity, errors: errors.filter(error => severityOf(error) === severity) }))
+    .filter(group => group.errors.length > 0);
+
+  const renderFix = (fix: QuickFix) => {
+    const preview = previewEdit(content!, fix.edit);
+    return (
+      <li key={fix.id} className="quick-fix">
+        <button type="button" className="quick-fix-button" onClick={() => onApplyFix!(fix)}>
+          {fix.label}
+        </button>
+        <code className="quick-fix-preview" aria-label={`Preview of: ${fix.label}`}>
+          {preview.before}
+          {preview.removed && <del>{preview.removed}</del>}
+          {preview.inserted && <ins>{preview.inserted}</ins>}
+          {preview.after}
+        </code>
+      </li>
+    );
+  };
+
+  const renderError = (error: DisplayError, index: number) => {
+    if (typeof error === 'string') {
+      return (
+        <li key={index} className="error-item">
+          {error}
+        </li>
+      );
+    }
+
+    const detail = describeLocation(error);
+    const fixes = content !== undefined && onApplyFix ? quickFixesFor(content, error) : [];
+    const message = (
+      <>
+        <span className="error-message">{error.message}</span>
+        {detail && <span className="error-location">{detail}</span>}
+      </>
+    );
+
+    return (
+      <li key={index} className={`error-item ${error.severity}`} data-error-code={error.code}>
+        {error.location && onSelectError ? (
+          <button
+            type="button"
+            className="error-jump"
+            onClick={() => onSelectError(error)}
+            title="Select this in the text input"
+          >
+            {message}
+          </button>
+        ) : message}
+        {fixes.length > 0 && (
+          <ul className="quick-fix-list" aria-label="Quick fixes">
+            {fixes.map(renderFix)}
+          </ul>
+        )}
+      </li>
+    );
+  };
+
   return (
     <div className={`error-display ${className}`}>
       <div className="error-header">
         <span className="error-icon">⚠️</span>
         <h3 className="error-title">{title}</h3>
       </div>
-      <ul className="error-list">
-        {errors.map((error, index) => (
-          <li key={index} className="error-item">
-            {error}
-          </li>
-        ))}
-      </ul>
+      {groups.map(group => (
+        <section key={group.severity} className={`error-group ${group.severity}`} aria-label={SEVERITY_LABELS[group.severity]}>
+          {groups.length > 1 && (
+            <h4 className="error-group-title">
+              {SEVERITY_LABELS[group.severity]} ({group.errors.length})
+            </h4>
+          )}
+          <ul className="error-list">
+            {group.errors.map(renderError)}
+          </ul>
+        </section>
+      ))}
     </div>
   );
 };
@@ -0,0 +1,76 @@
+import React from 'react';
+import { TaxCalculation } from '../types/api';
+import { BlockRendererProps } from '../renderers/blockRenderers';
+import { calculateFromTotalIncludingTax, parseDecimalValue } from '../parsing/taxCalculation';
+import { DEFAULT_JURISDICTION, findJurisdiction } from '../parsing/taxJurisdictions';
+import { formatCurrency } from '../utils/formatting';
+import { findFieldValue } from '../utils/parseResultFields';
+import BlockCard from './BlockCard';
+
+const CARD_FIELDS = ['cost_centre', 'payment_method', 'total'];
+
+/**
+ * Expense block as a card: cost centre, payment method, and the total with its tax breakdown
+ */
+const ExpenseBlockCard: React.FC<BlockRendererProps> = ({
+  block,
+  result,
+  jurisdiction,
+  tracedFields,
+  onHighlightSource
+}) => {
+  const { fields } = block;
+
+  // The result's own calculation is what export and the summary show; without one the block's total is worked out here
+  let breakdown: TaxCalculation | null = result.calculations;
+  if (!breakdown) {
+    try {
+      const total = fields.total ? parseDecimalValue(fields.total) : null;
+      breakdown = total === null ? null : calculateFromTotalIncludingTax(total, findJurisdiction(jurisdiction) || DEFAULT_JURISDICTION);
+    } catch {
+      // Totals too large for a decimal are shown as written
+    }
+  }
+
+  const otherFields = Object.fromEntries(
+    Object.entries(fields).filter(([name]) => !CARD_FIELDS.includes(name))
+  );
+
+  return (
+    <BlockCard
+      icon="🧾"
+      title="Expense"
+      className="expense-card"
+      rows={[
+        // A missing cost centre is filled in by the field rules outside the block
+        { label: 'Cost centre', value: fields.cost_centre ?? findFieldValue(result, 'cost_centre'), fieldName: 'cost_centre' },
+        { label: 'Payment method', value: fields.payment_method, fieldName: 'payment_method' },
+        ...(breakdown ? [
+          {
+            label: `Total (incl. ${breakdown.taxName})`,
+            value: formatCurrency(breakdown.totalIncludingTax, breakdown.currency),
+            fieldName: 'total',
+            className: 'amount primary'
+          },
+          {
+            label: `${breakdown.taxName} (${breakdown.taxRate}%)`,
+            value: formatCurrency(breakdown.taxAmount, breakdown.currency),
+            className: 'amount'
+          },
+          {
+            label: `Total (excl. ${breakdown.taxName})`,
+            value: formatCurrency(breakdown.totalExcludingTax, breakdown.currency),
+            className: 'amount'
+          }
+        ] : [
+          { label: 'Total', value: fields.total, fieldName: 'total' }
+        ])
+      ]}
+      otherFields={otherFields}
+      tracedFields={tracedFields}
+      onHighlightSource={onHighlightSource}
+    />
+  );
+};
+
+export default ExpenseBlockCard;
@@ -0,0 +1,191 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  applyClaimValues,
+  buildExpenseClaim,
+  ClaimField,
+  claimFieldsFromResult,
+  claimJurisdiction,
+  ExpenseClaim,
+  overriddenFieldKeys,
+  recalculateTax
+} from '../claims/expenseClaim';
+import { findJurisdiction } from '../parsing/taxJurisdictions';
+import { ParseResult } from '../types/api';
+import { formatCurrency } from '../utils/formatting';
+import './ExpenseClaimForm.css';
+
+interface ExpenseClaimFormProps {
+  result: ParseResult;
+  /** Jurisdiction selected in the app, used when the result has no calculation of its own */
+  jurisdiction?: string;
+  /** Called with the claim when it is confirmed, and with null when an edit withdraws the confirmation */
+  onClaimChange?: (claim: ExpenseClaim | null) => void;
+}
+
+/**
+ * Editable expense claim built from the extracted fields, with tax recalculated as the total changes
+ */
+const ExpenseClaimForm: React.FC<ExpenseClaimFormProps> = ({ result, jurisdiction, onClaimChange }) => {
+  const fields = useMemo(() => claimFieldsFromResult(result), [result]);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [confirmedClaim, setConfirmedClaim] = useState<ExpenseClaim | null>(null);
+
+  // A new result starts a fresh claim
+  useEffect(() => {
+    setValues({});
+    setConfirmedClaim(null);
+  }, [fields]);
+
+  const overridden = new Set(overriddenFieldKeys(fields, values));
+  const edited = applyClaimValues(result, fields, values);
+  const taxJurisdiction = claimJurisdiction(result, findJurisdiction(jurisdiction));
+  const calculations = recalculateTax(edited.xmlBlocks, edited.taggedFields, taxJurisdiction);
+
+  const confirm = (claim: ExpenseClaim | null) => {
+    setConfirmedClaim(claim);
+    onClaimChange?.(claim);
+  };
+
+  const setValue = (key: string, value: string) => {
+    setValues(current => ({ ...current, [key]: value }));
+    confirm(null);
+  };
+
+  const resetValue = (key: string) => {
+    setValues(current => {
+      const { [key]: _removed, ...rest } = current;
+      return rest;
+    });
+    confirm(null);
+  };
+
+  const handleConfirm = () => {
+    confirm(buildExpenseClaim(result, fields, values, new Date(), taxJurisdiction));
+  };
+
+  const renderField = (field: ClaimField) => {
+    const value = field.key in values ? values[field.key] : field.originalValue;
+    const isOverridden = overridden.has(field.key);
+    const inputId = `claim-${field.key.replace(/[^\w-]/g, '-')}`;
+
+    return (
+      <div key={field.key} className={`claim-field ${isOverridden ? 'overridden' : ''}`}>
+        <label htmlFor={inputId} className="claim-field-label">
+          {field.name}
+          {isOverridden && <span className="override-marker" title="Changed by hand">Edited</span>}
+        </label>
+        <div className="claim-field-control">
+          <input
+            id={inputId}
+            type="text"
+            className="claim-input"
+            value={value}
+            placeholder={field.originalValue === '' ? 'Not extracted' : undefined}
+            onChange={(e) => setValue(field.key, e.target.value)}
+          />
+          {isOverridden && (
+            <button
+              type="button"
+              className="claim-reset"
+              onClick={() => resetValue(field.key)}
+              aria-label={`Reset ${field.name}`}
+              title="Restore the extracted value"
+            >
+              ↺
+            </button>
+          )}
+        </div>
+        {isOverridden && (
+          <span className="claim-original">Extracted: {field.originalValue || '(none)'}</span>
+        )}
+      </div>
+    );
+  };
+
+  const blockIndexes = Array.from(new Set(fields.filter(f => f.blockIndex !== undefined).map(f => f.blockIndex!)));
+  const taggedFields = fields.filter(field => field.blockIndex === undefined);
+
+  return (
+    <div className="expense-claim-form">
+      {blockIndexes.map(blockIndex => (
+        <fieldset key={blockIndex} className="claim-group">
+          <legend>{result.xmlBlocks[blockIndex].tagName || `Block ${blockIndex + 1}`}</legend>
+          {fields.filter(field => field.blockIndex === blockIndex).map(renderField)}
+        </fieldset>
+      ))}
+
+      {taggedFields.length > 0 && (
+        <fieldset className="claim-group">
+          <legend>Tagged Fields</legend>
+          {taggedFields.map(renderField)}
+        </fieldset>
+      )}
+
+      <div className="json-section calculations" aria-live="polite">
+        <h3 className="section-title">
+          Recalculated Tax ({taxJurisdiction.taxRate}% {taxJurisdiction.taxName})
+        </h3>
+        {calculations ? (
+          <div className="calculation-grid">
+            <div className="calculation-item">
+              <span className="calculation-label">Total (Including Tax):</span>
+              <span className="calculation-value primary" data-testid="claim-total-including-tax">
+                {formatCurrency(calculations.totalIncludingTax, calculations.currency)}
+              </span>
+            </div>
+            <div className="calculation-item">
+              <span className="calculation-label">Tax Amount:</span>
+              <span className="calculation-value tax" data-testid="claim-tax-amount">
+                {formatCurrency(calculations.taxAmount, calculations.currency)}
+              </span>
+            </div>
+            <div className="calculation-item">
+              <span className="calculation-label">Total (Excluding Tax):</span>
+              <span className="calculation-value" data-testid="claim-total-excluding-tax">
+                {formatCurrency(calculations.totalExcludingTax, calculations.currency)}
+              </span>
+            </div>
+          </div>
+        ) : (
+          <p className="empty-state">Enter a valid total to calculate tax</p>
+        )}
+      </div>
+
+      <div className="claim-actions">
+        <button
+          type="button"
+          className="submit-button"
+          onClick={handleConfirm}
+          disabled={!calculations}
+        >
+          Confirm Claim
+        </button>
+        <button
+          type="button"
+          className="clear-button"
+          onClick={() => {
+            setValues({});
+            confirm(null);
+          }}
+          disabled={overridden.size === 0}
+        >
+          Reset All
+        </button>
+      </div>
+
+      {confirmedClaim && (
+        <div className="claim-confirmed" role="status">
+          <p className="claim-confirmed-title">
+            ✓ Claim confirmed
+            {confirmedClaim.overriddenFields.length > 0 &&
+              ` with ${confirmedClaim.overriddenFields.length} ${confirmedClaim.overriddenFields.length === 1 ? 'field' : 'fields'} overridden`}
+          </p>
+          {onClaimChange && <p className="claim-confirmed-note">Export and print now use the confirmed values.</p>}
+          <pre className="json-content">{JSON.stringify(confirmedClaim, null, 2)}</pre>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExpenseClaimForm;
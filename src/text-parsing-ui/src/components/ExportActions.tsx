@@ -0,0 +1,58 @@
+import React from 'react';
+import { buildExpenseClaimHtml } from '../export/expenseClaimReport';
+import { ExportEntry, toCsvExport, toJsonExport } from '../export/resultExport';
+import { downloadFile, openPrintWindow } from '../utils/download';
+import './ExportActions.css';
+
+interface ExportActionsProps {
+  entries: ExportEntry[];
+  fileBaseName: string;
+  disabled?: boolean;
+}
+
+/**
+ * Download buttons for JSON, CSV and a printable expense-claim report
+ */
+const ExportActions: React.FC<ExportActionsProps> = ({ entries, fileBaseName, disabled = false }) => {
+  const isDisabled = disabled || entries.length === 0;
+
+  const handlePrint = () => {
+    const html = buildExpenseClaimHtml(entries);
+    // Fall back to downloading the report when pop-ups are blocked
+    if (!openPrintWindow(html)) {
+      downloadFile(html, `${fileBaseName}-expense-claim.html`, 'text/html;charset=utf-8');
+    }
+  };
+
+  return (
+    <div className="export-actions" role="group" aria-label="Export results">
+      <button
+        type="button"
+        className="export-button"
+        disabled={isDisabled}
+        onClick={() => downloadFile(toJsonExport(entries), `${fileBaseName}.json`, 'application/json')}
+      >
+        Export JSON
+      </button>
+      <button
+        type="button"
+        className="export-button"
+        disabled={isDisabled}
+        // The byte order mark lets spreadsheet apps detect UTF-8
+        onClick={() => downloadFile(`\uFEFF${toCsvExport(entries)}`, `${fileBaseName}.csv`, 'text/csv;charset=utf-8')}
+      >
+        Export CSV
+      </button>
+      <button
+        type="button"
+        className="export-button"
+        disabled={isDisabled}
+        onClick={handlePrint}
+      >
+        Print Claim
+      </button>
+    </div>
+  );
+};
+
+export default ExportActions;
@@ -0,0 +1,69 @@
+import React from 'react';
+import { SourceLocation, TracedField } from '../types/api';
+import './FieldSourceList.css';
+
+interface FieldSourceListProps {
+  fields: TracedField[];
+  /** Called with a field's origin while it is hovered or focused, and with null when it is left */
+  onHighlightSource?: (location: SourceLocation | null) => void;
+  className?: string;
+}
+
+const describeSource = (field: TracedField): string => {
+  const { source } = field;
+  switch (source.kind) {
+    case 'extracted':
+      return `From line ${source.location.line}, column ${source.location.column}`;
+    case 'overridden':
+      return `Line ${source.location.line}, replaced by the later <${field.name}> on line ${source.overriddenBy.line}`;
+    case 'defaulted':
+      return 'Not in the text - filled in from the field rules';
+    case 'unknown':
+      return 'Not found in the current text';
+  }
+};
+
+/**
+ * Extracted fields with where each value came from.
+ * Hovering or focusing a row reports its origin so the editor can highlight it.
+ */
+const FieldSourceList: React.FC<FieldSourceListProps> = ({
+  fields,
+  onHighlightSource,
+  className = ""
+}) => {
+  return (
+    <dl className={`field-source-list ${className}`}>
+      {fields.map((field, index) => {
+        const { source } = field;
+        const location = source.kind === 'extracted' || source.kind === 'overridden' ? source.location : null;
+        const highlight = () => onHighlightSource?.(location);
+        const clear = () => onHighlightSource?.(null);
+
+        return (
+          <div
+            key={`${field.name}-${index}`}
+            className={`field-source-row ${source.kind}`}
+            data-testid="traced-field"
+            title={describeSource(field)}
+            tabIndex={location ? 0 : undefined}
+            onMouseEnter={highlight}
+            onMouseLeave={clear}
+            onFocus={highlight}
+            onBlur={clear}
+          >
+            <dt className="field-source-name">{field.name}</dt>
+            <dd className="field-source-value">
+              <span className="field-value">{field.value}</span>
+              {source.kind === 'defaulted' && <span className="field-badge defaulted">Default</span>}
+              {source.kind === 'overridden' && <span className="field-badge overridden">Overridden</span>}
+              {location && <span className="field-source-line">line {location.line}</span>}
+            </dd>
+          </div>
+        );
+      })}
+    </dl>
+  );
+};
+
+export default FieldSourceList;
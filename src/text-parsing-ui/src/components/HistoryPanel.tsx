@@ -0,0 +1,230 @@
+import React, { useState } from 'react';
+import { HistoryEntry } from '../history/historyStore';
+import { matchesHistoryQuery } from '../history/historySearch';
+import { ParseHistory } from '../hooks/useParseHistory';
+import { parseWithFallback } from '../services/parseWithFallback';
+import { useApiClient } from '../hooks/useApiClient';
+import { findFieldValue } from '../utils/parseResultFields';
+import ResultDiff from './ResultDiff';
+import './HistoryPanel.css';
+
+interface HistoryPanelProps {
+  history: ParseHistory;
+  apiConnected: boolean | null;
+  jurisdiction: string;
+  onLoad: (entry: HistoryEntry) => void;
+  onApiUnreachable?: () => void;
+  disabled?: boolean;
+}
+
+const PREVIEW_LENGTH = 90;
+
+const formatRunTime = (createdAt: string) =>
+  new Date(createdAt).toLocaleString('en-NZ', { dateStyle: 'medium', timeStyle: 'medium' });
+
+/**
+ * Saved submissions: search them, load one back into the editor, re-run it against
+ * the current API, or tick two runs to compare their fields
+ */
+const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  history,
+  apiConnected,
+  jurisdiction,
+  onLoad,
+  onApiUnreachable,
+  disabled = false
+}) => {
+  const [query, setQuery] = useState<string>('');
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [rerunningId, setRerunningId] = useState<number | null>(null);
+  const [deleteError, setDeleteError] = useState<string | null>(null);
+  const client = useApiClient();
+
+  const visibleEntries = history.entries.filter(entry => matchesHistoryQuery(entry, query));
+  const comparedEntries = selectedIds
+    .map(id => history.entries.find(entry => entry.id === id))
+    .filter((entry): entry is HistoryEntry => !!entry)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt) || a.id - b.id);
+
+  const toggleSelected = (id: number) => {
+    setSelectedIds(current => {
+      if (current.includes(id)) {
+        return current.filter(selected => selected !== id);
+      }
+      // Keep the two most recently ticked runs
+      return [...current, id].slice(-2);
+    });
+  };
+
+  const handleRerun = async (entry: HistoryEntry) => {
+    setRerunningId(entry.id);
+    try {
+      // Re-run under the jurisdiction the original run used so the diff only shows extraction changes
+      const runJurisdiction = entry.jurisdiction || jurisdiction;
+      const outcome = await parseWithFallback(client, entry.inputText, {
+        apiAvailable: apiConnected !== false,
+        jurisdiction: runJurisdiction
+      });
+      if (outcome.apiUnreachable) {
+        onApiUnreachable?.();
+      }
+
+      const saved = await history.addEntry({
+        inputText: entry.inputText,
+        result: outcome.result,
+        errors: outcome.errors,
+        source: outcome.source,
+        createdAt: new Date().toISOString(),
+        fileName: entry.fileName,
+        jurisdiction: runJurisdiction
+      });
+
+      // Show what changed between the original run and the re-run straight away
+      if (saved) {
+        setSelectedIds([entry.id, saved.id]);
+      }
+    } finally {
+      setRerunningId(null);
+    }
+  };
+
+  const handleRemove = async (id: number) => {
+    setDeleteError(null);
+    setSelectedIds(current => current.filter(selected => selected !== id));
+    if (!await history.removeEntry(id)) {
+      setDeleteError('This run could not be deleted. Your browser may be blocking storage - try again later.');
+    }
+  };
+
+  const handleDeleteAll = async () => {
+    setDeleteError(null);
+    setSelectedIds([]);
+    if (!await history.clearHistory()) {
+      setDeleteError('History could not be deleted. Your browser may be blocking storage - try again later.');
+    }
+  };
+
+  const renderSummary = (entry: HistoryEntry) => {
+    const vendor = entry.result && findFieldValue(entry.result, 'vendor');
+    const costCentre = entry.result && findFieldValue(entry.result, 'cost_centre');
+    const isValid = !!entry.result?.isValid;
+
+    return (
+      <div className="history-summary">
+        <div className="history-meta">
+          <time dateTime={entry.createdAt}>{formatRunTime(entry.createdAt)}</time>
+          <span className={`history-status ${isValid ? 'valid' : 'invalid'}`}>
+            {isValid ? 'Valid' : entry.errors.length > 0 ? `Invalid (${entry.errors.length})` : 'Invalid'}
+          </span>
+          {entry.source === 'local' && <span className="history-local">local</span>}
+        </div>
+        <div className="history-fields">
+          {entry.fileName && <span>File: {entry.fileName}</span>}
+          {vendor && <span>Vendor: {vendor}</span>}
+          {costCentre && <span>Cost centre: {costCentre}</span>}
+        </div>
+        <p className="history-preview">
+          {entry.inputText.length > PREVIEW_LENGTH
+            ? `${entry.inputText.substring(0, PREVIEW_LENGTH)}…`
+            : entry.inputText}
+        </p>
+      </div>
+    );
+  };
+
+  return (
+    <section className="history-panel" aria-labelledby="history-title">
+      <div className="history-header">
+        <h2 id="history-title" className="history-title">
+          Parse History <span className="history-count">({history.entries.length})</span>
+        </h2>
+        <div className="history-tools">
+          <input
+            type="search"
+            className="history-search"
+            placeholder="Search vendor, cost centre or date"
+            aria-label="Search history"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+          />
+          <button
+            type="button"
+            className="history-button"
+            onClick={handleDeleteAll}
+            disabled={disabled || history.entries.length === 0}
+          >
+            Delete All
+          </button>
+        </div>
+      </div>
+
+      {deleteError && (
+        <p className="history-error" role="alert">{deleteError}</p>
+      )}
+
+      {!history.persistent && history.entries.length > 0 && (
+        <p className="history-notice">History is only kept until this page is closed in this browser.</p>
+      )}
+
+      {history.entries.length === 0 ? (
+        <p className="empty-state">Submitted text will be saved here</p>
+      ) : visibleEntries.length === 0 ? (
+        <p className="empty-state">No saved runs match "{query}"</p>
+      ) : (
+        <ul className="history-list">
+          {visibleEntries.map(entry => (
+            <li
+              key={entry.id}
+              className={`history-entry ${selectedIds.includes(entry.id) ? 'selected' : ''}`}
+              data-testid="history-entry"
+            >
+              <input
+                type="checkbox"
+                className="history-compare"
+                aria-label={`Compare run from ${formatRunTime(entry.createdAt)}`}
+                checked={selectedIds.includes(entry.id)}
+                onChange={() => toggleSelected(entry.id)}
+              />
+              {renderSummary(entry)}
+              <div className="history-actions">
+                <button type="button" className="history-button" onClick={() => onLoad(entry)} disabled={disabled}>
+                  Load
+                </button>
+                <button
+                  type="button"
+                  className="history-button"
+                  onClick={() => handleRerun(entry)}
+                  disabled={disabled || rerunningId !== null}
+                >
+                  {rerunningId === entry.id ? 'Re-running...' : 'Re-run'}
+                </button>
+                <button
+                  type="button"
+                  className="history-button danger"
+                  onClick={() => handleRemove(entry.id)}
+                  disabled={disabled}
+                  aria-label={`Delete run from ${formatRunTime(entry.createdAt)}`}
+                >
+                  ✕
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {comparedEntries.length === 2 ? (
+        <ResultDiff
+          before={comparedEntries[0].result}
+          after={comparedEntries[1].result}
+          beforeLabel={`Before: ${formatRunTime(comparedEntries[0].createdAt)}`}
+          afterLabel={`After: ${formatRunTime(comparedEntries[1].createdAt)}`}
+        />
+      ) : history.entries.length > 1 && (
+        <p className="history-hint">Tick two runs to compare their fields.</p>
+      )}
+    </section>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,32 @@
+import React from 'react';
+import './HtmlPasteNotice.css';
+
+interface HtmlPasteNoticeProps {
+  /** Tags recovered from the pasted HTML */
+  tagCount: number;
+  /** Replaces the converted text with the clipboard's plain text */
+  onUndo: () => void;
+  onDismiss: () => void;
+  className?: string;
+}
+
+/**
+ * Tells the user a paste was converted from HTML, with a way back to the plain-text paste
+ */
+const HtmlPasteNotice: React.FC<HtmlPasteNoticeProps> = ({ tagCount, onUndo, onDismiss, className = "" }) => (
+  <div className={`html-paste-notice ${className}`} role="status">
+    <span className="html-paste-message">
+      Converted from HTML - {tagCount} {tagCount === 1 ? 'tag' : 'tags'} recovered from the formatted paste
+    </span>
+    <div className="html-paste-actions">
+      <button type="button" className="html-paste-button" onClick={onUndo}>
+        Undo
+      </button>
+      <button type="button" className="html-paste-dismiss" onClick={onDismiss} aria-label="Dismiss">
+        ×
+      </button>
+    </div>
+  </div>
+);
+
+export default HtmlPasteNotice;
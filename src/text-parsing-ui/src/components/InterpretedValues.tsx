@@ -0,0 +1,87 @@
+import React, { useMemo, useState } from 'react';
+import { ParseResult } from '../types/api';
+import {
+  DEFAULT_NUMBER_FORMAT,
+  interpretResult,
+  InterpretationStatus,
+  NUMBER_FORMATS,
+  NumberFormatCode
+} from '../parsing/valueInterpretation';
+import './InterpretedValues.css';
+
+interface InterpretedValuesProps {
+  result: ParseResult;
+  className?: string;
+}
+
+const STATUS_LABELS: Record<InterpretationStatus, string> = {
+  ok: '✓',
+  ambiguous: '⚠ Ambiguous',
+  invalid: '✗ Unreadable'
+};
+
+/**
+ * Dates, amounts and payment methods read as typed values, with the raw text beside each.
+ * Amounts are read in the number format chosen here; readings that need a second look are flagged.
+ */
+const InterpretedValues: React.FC<InterpretedValuesProps> = ({ result, className = "" }) => {
+  const [formatCode, setFormatCode] = useState<NumberFormatCode>(DEFAULT_NUMBER_FORMAT.code);
+  const format = NUMBER_FORMATS.find(candidate => candidate.code === formatCode) || DEFAULT_NUMBER_FORMAT;
+  const values = useMemo(() => interpretResult(result, format), [result, format]);
+
+  if (values.length === 0) {
+    return null;
+  }
+
+  const warningCount = values.filter(value => value.status !== 'ok').length;
+
+  return (
+    <div className={`json-section interpreted-values ${className}`}>
+      <h3 className="section-title">
+        Interpreted Values
+        {warningCount > 0 && (
+          <span className="interpretation-warning-count">
+            {warningCount} {warningCount === 1 ? 'warning' : 'warnings'}
+          </span>
+        )}
+      </h3>
+
+      <label className="number-format-select">
+        Amounts written as
+        <select value={formatCode} onChange={(e) => setFormatCode(e.target.value as NumberFormatCode)}>
+          {NUMBER_FORMATS.map(option => (
+            <option key={option.code} value={option.code}>{option.example}</option>
+          ))}
+        </select>
+      </label>
+
+      <table className="interpretation-table">
+        <thead>
+          <tr>
+            <th scope="col">Field</th>
+            <th scope="col">Raw</th>
+            <th scope="col">Interpreted</th>
+            <th scope="col"><span className="sr-only">Status</span></th>
+          </tr>
+        </thead>
+        <tbody>
+          {values.map((value, index) => (
+            <tr key={`${value.field}-${index}`} className={`interpretation-row ${value.status}`} data-testid="interpreted-value">
+              <th scope="row" className="interpretation-field">{value.field}</th>
+              <td className="interpretation-raw">{value.raw}</td>
+              <td className="interpretation-normalised">
+                {value.normalised ?? <span className="interpretation-missing">—</span>}
+              </td>
+              <td className="interpretation-status">
+                <span className={`interpretation-badge ${value.status}`}>{STATUS_LABELS[value.status]}</span>
+                {value.warning && <span className="interpretation-warning">{value.warning}</span>}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default InterpretedValues;
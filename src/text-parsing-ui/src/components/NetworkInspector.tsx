@@ -0,0 +1,143 @@
+import React, { useCallback, useEffect, useState, useSyncExternalStore } from 'react';
+import { Metric } from 'web-vitals';
+import { NetworkEntry, NetworkLog, networkLog } from '../services/networkLog';
+import { WebVitalsLog, webVitalsLog } from '../services/webVitalsLog';
+import './NetworkInspector.css';
+
+interface NetworkInspectorProps {
+  log?: NetworkLog;
+  vitals?: WebVitalsLog;
+  className?: string;
+}
+
+export const INSPECTOR_SHORTCUT_LABEL = 'Ctrl+Alt+N';
+
+// Matched on the physical key so Option+N on a Mac still toggles the panel
+const isToggleShortcut = (event: KeyboardEvent) =>
+  event.ctrlKey && event.altKey && !event.shiftKey && event.code === 'KeyN';
+
+const formatBytes = (bytes: number | null) => {
+  if (bytes === null) {
+    return '-';
+  }
+  return bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+};
+
+const formatStatus = (entry: NetworkEntry) => {
+  if (entry.status === null) {
+    return 'pending';
+  }
+  return entry.status === 0 ? entry.error || 'failed' : String(entry.status);
+};
+
+// CLS is a unitless score; the other metrics are durations
+const formatMetric = (metric: Metric) =>
+  metric.name === 'CLS' ? metric.value.toFixed(3) : `${Math.round(metric.value)} ms`;
+
+/**
+ * Hidden developer panel listing recent API requests and the web-vitals metrics.
+ * Opened and closed with Ctrl+Alt+N; Escape also closes it.
+ */
+const NetworkInspector: React.FC<NetworkInspectorProps> = ({
+  log = networkLog,
+  vitals = webVitalsLog,
+  className = ""
+}) => {
+  const [open, setOpen] = useState(false);
+  const subscribeToLog = useCallback((listener: () => void) => log.subscribe(listener), [log]);
+  const subscribeToVitals = useCallback((listener: () => void) => vitals.subscribe(listener), [vitals]);
+  const entries = useSyncExternalStore(subscribeToLog, () => log.getEntries());
+  const metrics = useSyncExternalStore(subscribeToVitals, () => vitals.getMetrics());
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isToggleShortcut(event)) {
+        event.preventDefault();
+        setOpen(current => !current);
+      } else if (event.key === 'Escape') {
+        setOpen(false);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  if (!open) {
+    return null;
+  }
+
+  const renderEntry = (entry: NetworkEntry) => (
+    <li key={entry.correlationId} className={`inspector-request ${entry.status === null ? 'pending' : ''}`}>
+      <details>
+        <summary className="inspector-request-summary">
+          <span className="inspector-method">{entry.method}</span>
+          <span className="inspector-url">{entry.url}</span>
+          <span className={`inspector-status ${entry.status !== null && (entry.status === 0 || entry.status >= 400) ? 'failed' : ''}`}>
+            {formatStatus(entry)}
+          </span>
+          <span className="inspector-duration">{entry.durationMs === null ? '-' : `${entry.durationMs} ms`}</span>
+        </summary>
+        <dl className="inspector-request-details">
+          <dt>Correlation ID</dt>
+          <dd><code>{entry.correlationId}</code></dd>
+          <dt>Started</dt>
+          <dd>{entry.startedAt.toLocaleTimeString('en-NZ')}</dd>
+          <dt>Sent</dt>
+          <dd>{formatBytes(entry.requestBytes)}</dd>
+          <dt>Received</dt>
+          <dd>{formatBytes(entry.responseBytes)}</dd>
+        </dl>
+        {entry.responseBody !== null && (
+          <pre className="inspector-body" aria-label="Response body">
+            {JSON.stringify(entry.responseBody, null, 2)}
+          </pre>
+        )}
+      </details>
+    </li>
+  );
+
+  return (
+    <aside className={`network-inspector ${className}`} aria-label="Network inspector">
+      <div className="inspector-header">
+        <h2 className="inspector-title">Network Inspector</h2>
+        <span className="inspector-hint">{INSPECTOR_SHORTCUT_LABEL} to toggle</span>
+        <div className="inspector-actions">
+          <button type="button" className="inspector-button" onClick={() => log.clear()} disabled={entries.length === 0}>
+            Clear
+          </button>
+          <button type="button" className="inspector-close" onClick={() => setOpen(false)} aria-label="Close inspector">
+            ×
+          </button>
+        </div>
+      </div>
+
+      <section className="inspector-section" aria-label="Requests">
+        <h3 className="inspector-section-title">Requests ({entries.length})</h3>
+        {entries.length > 0 ? (
+          <ul className="inspector-requests">{entries.map(renderEntry)}</ul>
+        ) : (
+          <p className="inspector-empty">No API requests yet</p>
+        )}
+      </section>
+
+      <section className="inspector-section" aria-label="Web vitals">
+        <h3 className="inspector-section-title">Web Vitals</h3>
+        {metrics.length > 0 ? (
+          <dl className="inspector-vitals">
+            {metrics.map(metric => (
+              <React.Fragment key={metric.name}>
+                <dt>{metric.name}</dt>
+                <dd>{formatMetric(metric)}</dd>
+              </React.Fragment>
+            ))}
+          </dl>
+        ) : (
+          <p className="inspector-empty">No metrics reported yet</p>
+        )}
+      </section>
+    </aside>
+  );
+};
+
+export default NetworkInspector;
@@ -1,14 +1,38 @@
-import React from 'react';
-import { XmlBlock, TaxCalculation } from '../types/api';
+import React, { useEffect, useMemo, useState } from 'react';
+import { XmlBlock, TaxCalculation, ResultSource, FieldProvenance, SourceLocation, TracedField, ErrorDetail } from '../types/api';
+import { EmailMetadata } from '../email/mimeDecoder';
+import { claimAsResult, ExpenseClaim } from '../claims/expenseClaim';
+import { exportBaseName } from '../export/resultExport';
+import { formatCurrency } from '../utils/formatting';
+import { buildXmlTree, countOmitted } from '../parsing/xmlTree';
+import { findBlockRenderer, taggedReservation } from '../renderers/blockRenderers';
+import ExportActions from './ExportActions';
+import ExpenseClaimForm from './ExpenseClaimForm';
+import FieldSourceList from './FieldSourceList';
+import XmlTreeView from './XmlTreeView';
+import InterpretedValues from './InterpretedValues';
 import './ParseResults.css';
 
 interface ParseResultsProps {
   xmlBlocks: XmlBlock[];
   taggedFields: Record<string, string>;
-  calculations: TaxCalculation;
+  calculations: TaxCalculation | null;
   isValid: boolean;
+  source?: ResultSource;
+  errors?: string[];
+  errorDetails?: ErrorDetail[];
+  fileName?: string;
+  metadata?: EmailMetadata | null;
+  /** Jurisdiction selected in the app; claim edits fall back to it when there is no calculation */
+  jurisdiction?: string;
+  /** Where each field came from in the input; without it fields are shown as JSON */
+  provenance?: FieldProvenance | null;
+  onHighlightSource?: (location: SourceLocation | null) => void;
 }
 
+const NO_ERRORS: string[] = [];
+const NO_ERROR_DETAILS: ErrorDetail[] = [];
+
 /**
  * Component for displaying parsed results in a structured format
  */
@@ -16,14 +40,27 @@ const ParseResults: React.FC<ParseResultsProps> = ({
   xmlBlocks,
   taggedFields,
   calculations,
-  isValid
+  isValid,
+  source = 'api',
+  errors = NO_ERRORS,
+  errorDetails = NO_ERROR_DETAILS,
+  fileName,
+  metadata,
+  jurisdiction,
+  provenance,
+  onHighlightSource
 }) => {
-  const formatCurrency = (amount: number): string => {
-    return new Intl.NumberFormat('en-NZ', {
-      style: 'currency',
-      currency: 'NZD'
-    }).format(amount);
-  };
+  const [view, setView] = useState<'results' | 'claim'>('results');
+  const result = useMemo(
+    () => ({ xmlBlocks, taggedFields, calculations, isValid, errors, errorDetails }),
+    [xmlBlocks, taggedFields, calculations, isValid, errors, errorDetails]
+  );
+  // Once confirmed, the claim is what gets exported
+  const [confirmedClaim, setConfirmedClaim] = useState<ExpenseClaim | null>(null);
+
+  useEffect(() => {
+    setConfirmedClaim(null);
+  }, [result]);
 
   const renderJsonSection = (title: string, data: any, className: string = '') => (
     <div className={`json-section ${className}`}>
@@ -34,6 +71,67 @@ const ParseResults: React.FC<ParseResultsProps> = ({
     </div>
   );
 
+  const renderFields = (fields: Record<string, string>, traced: TracedField[] | undefined) => traced ? (
+    <>
+      <FieldSourceList fields={traced} onHighlightSource={onHighlightSource} />
+      <details className="json-details">
+        <summary>View as JSON</summary>
+        <pre className="json-content">
+          {JSON.stringify(fields, null, 2)}
+        </pre>
+      </details>
+    </>
+  ) : (
+    <pre className="json-content">
+      {JSON.stringify(fields, null, 2)}
+    </pre>
+  );
+
+  // Registered tag types get their own view; anything else lists its fields
+  const renderBlockContent = (block: XmlBlock, index: number) => {
+    const Renderer = findBlockRenderer(block.tagName);
+    if (!Renderer) {
+      return renderFields(block.fields, provenance?.xmlBlocks[index]);
+    }
+
+    return (
+      <>
+        <Renderer
+          block={block}
+          result={result}
+          jurisdiction={jurisdiction}
+          tracedFields={provenance?.xmlBlocks[index]}
+          onHighlightSource={onHighlightSource}
+        />
+        <details className="json-details">
+          <summary>View as JSON</summary>
+          <pre className="json-content">
+            {JSON.stringify(block.fields, null, 2)}
+          </pre>
+        </details>
+      </>
+    );
+  };
+
+  const renderXmlTree = (block: XmlBlock) => {
+    const tree = buildXmlTree(block);
+    if (!tree) {
+      return null;
+    }
+    const omittedCount = countOmitted(tree);
+
+    return (
+      // Opened straight away when the fields above are missing something
+      <details className="json-details xml-tree-details" open={omittedCount > 0}>
+        <summary>
+          XML Tree
+          {omittedCount > 0 && ` (${omittedCount} not in fields)`}
+        </summary>
+        <XmlTreeView root={tree} />
+      </details>
+    );
+  };
+
   const renderXmlBlocks = () => {
     if (!xmlBlocks || xmlBlocks.length === 0) {
       return (
@@ -52,9 +150,8 @@ const ParseResults: React.FC<ParseResultsProps> = ({
             <h4 className="block-title">
               {block.tagName || `Block ${index + 1}`}
             </h4>
-            <pre className="json-content">
-              {JSON.stringify(block.fields, null, 2)}
-            </pre>
+            {renderBlockContent(block, index)}
+            {renderXmlTree(block)}
           </div>
         ))}
       </div>
@@ -63,15 +160,22 @@ const ParseResults: React.FC<ParseResultsProps> = ({
 
   const renderTaggedFields = () => {
     const hasFields = taggedFields && Object.keys(taggedFields).length > 0;
+    const reservation = taggedReservation(result);
+    const ReservationRenderer = reservation && findBlockRenderer(reservation.tagName);
 
     return (
       <div className="json-section">
         <h3 className="section-title">Tagged Fields</h3>
-        {hasFields ? (
-          <pre className="json-content">
-            {JSON.stringify(taggedFields, null, 2)}
-          </pre>
-        ) : (
+        {reservation && ReservationRenderer && (
+          <ReservationRenderer
+            block={reservation}
+            result={result}
+            jurisdiction={jurisdiction}
+            tracedFields={provenance?.taggedFields}
+            onHighlightSource={onHighlightSource}
+          />
+        )}
+        {hasFields ? renderFields(taggedFields, provenance?.taggedFields) : (
           <p className="empty-state">No tagged fields found</p>
         )}
       </div>
@@ -90,24 +194,26 @@ const ParseResults: React.FC<ParseResultsProps> = ({
 
     return (
       <div className="json-section calculations">
-        <h3 className="section-title">Tax Calculations (15% GST)</h3>
+        <h3 className="section-title">
+          Tax Calculations ({calculations.taxRate}% {calculations.taxName})
+        </h3>
         <div className="calculation-grid">
           <div className="calculation-item">
             <span className="calculation-label">Total (Including Tax):</span>
             <span className="calculation-value primary">
-              {formatCurrency(calculations.totalIncludingTax)}
+              {formatCurrency(calculations.totalIncludingTax, calculations.currency)}
             </span>
           </div>
           <div className="calculation-item">
             <span className="calculation-label">Tax Amount:</span>
             <span className="calculation-value tax">
-              {formatCurrency(calculations.taxAmount)}
+              {formatCurrency(calculations.taxAmount, calculations.currency)}
             </span>
           </div>
           <div className="calculation-item">
             <span className="calculation-label">Total (Excluding Tax):</span>
             <span className="calculation-value">
-              {formatCurrency(calculations.totalExcludingTax)}
+              {formatCurrency(calculations.totalExcludingTax, calculations.currency)}
             </span>
           </div>
         </div>
@@ -128,17 +234,65 @@ const ParseResults: React.FC<ParseResultsProps> = ({
       <div className="results-header">
         <h2 className="results-title">
           Parse Results
-          <span className={`status-badge ${isValid ? 'success' : 'error'}`}>
-            {isValid ? '✓ Valid' : '✗ Invalid'}
+          <span className="results-badges">
+            {source === 'local' && (
+              <span
+                className="status-badge local"
+                title="The API could not be reached, so this result was computed in your browser"
+              >
+                Computed locally
+              </span>
+            )}
+            <span className={`status-badge ${isValid ? 'success' : 'error'}`}>
+              {isValid ? '✓ Valid' : '✗ Invalid'}
+            </span>
           </span>
         </h2>
+        {!isValid && (
+          <p className="partial-notice">
+            Partial results: showing what was extracted before validation failed
+          </p>
+        )}
+        <div className="results-toolbar">
+          <div className="results-view-toggle" role="group" aria-label="Results view">
+            <button
+              type="button"
+              className={`view-button ${view === 'results' ? 'active' : ''}`}
+              aria-pressed={view === 'results'}
+              onClick={() => {
+                // Leaving the claim view discards the claim form along with its edits
+                setView('results');
+                setConfirmedClaim(null);
+              }}
+            >
+              Results
+            </button>
+            <button
+              type="button"
+              className={`view-button ${view === 'claim' ? 'active' : ''}`}
+              aria-pressed={view === 'claim'}
+              onClick={() => setView('claim')}
+            >
+              Edit as Claim
+            </button>
+          </div>
+          <ExportActions
+            entries={[{ result: confirmedClaim ? claimAsResult(result, confirmedClaim) : result, fileName, source, metadata }]}
+            fileBaseName={exportBaseName(fileName)}
+          />
+        </div>
       </div>
 
-      <div className="results-content">
-        {renderXmlBlocks()}
-        {renderTaggedFields()}
-        {renderCalculations()}
-      </div>
+      {view === 'claim' ? (
+        <ExpenseClaimForm result={result} jurisdiction={jurisdiction} onClaimChange={setConfirmedClaim} />
+      ) : (
+        <div className="results-content">
+          {renderXmlBlocks()}
+          {renderTaggedFields()}
+          <InterpretedValues result={result} />
+          {renderCalculations()}
+        </div>
+      )}
 
       {/* Complete JSON output as specified in requirements */}
       <details className="full-json">
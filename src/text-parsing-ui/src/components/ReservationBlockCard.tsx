@@ -0,0 +1,39 @@
+import React from 'react';
+import { BlockRendererProps } from '../renderers/blockRenderers';
+import BlockCard from './BlockCard';
+
+/** Block tag names shown as a reservation card */
+export const RESERVATION_TAGS = ['reservation', 'event', 'booking'];
+
+/** Fields shown as the card's rows; any others are listed below them */
+export const RESERVATION_FIELDS = ['vendor', 'description', 'date'];
+
+/**
+ * Reservation or event block as a card: where (vendor), what (description) and when (date)
+ */
+const ReservationBlockCard: React.FC<BlockRendererProps> = ({ block, tracedFields, onHighlightSource }) => {
+  const { fields } = block;
+  const title = block.tagName.charAt(0).toUpperCase() + block.tagName.slice(1);
+
+  const otherFields = Object.fromEntries(
+    Object.entries(fields).filter(([name]) => !RESERVATION_FIELDS.includes(name))
+  );
+
+  return (
+    <BlockCard
+      icon="📅"
+      title={title}
+      className="reservation-card"
+      rows={[
+        { label: 'Vendor', value: fields.vendor, fieldName: 'vendor' },
+        { label: 'Description', value: fields.description, fieldName: 'description' },
+        { label: 'Date', value: fields.date, fieldName: 'date' }
+      ]}
+      otherFields={otherFields}
+      tracedFields={tracedFields}
+      onHighlightSource={onHighlightSource}
+    />
+  );
+};
+
+export default ReservationBlockCard;
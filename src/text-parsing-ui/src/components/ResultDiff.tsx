@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { diffResults } from '../history/resultDiff';
+import { ParseResult } from '../types/api';
+import './ResultDiff.css';
+
+interface ResultDiffProps {
+  before: ParseResult | null;
+  after: ParseResult | null;
+  beforeLabel: string;
+  afterLabel: string;
+}
+
+const CHANGE_LABELS = {
+  added: 'Added',
+  removed: 'Removed',
+  changed: 'Changed',
+  unchanged: ''
+};
+
+/**
+ * Field-by-field comparison of two parse runs
+ */
+const ResultDiff: React.FC<ResultDiffProps> = ({ before, after, beforeLabel, afterLabel }) => {
+  const [showUnchanged, setShowUnchanged] = useState<boolean>(false);
+
+  const diff = diffResults(before, after);
+  const changedCount = diff.filter(row => row.change !== 'unchanged').length;
+  const visibleRows = showUnchanged ? diff : diff.filter(row => row.change !== 'unchanged');
+
+  return (
+    <div className="result-diff">
+      <div className="result-diff-header">
+        <h3 className="result-diff-title">
+          {changedCount === 0
+            ? 'No differences between these runs'
+            : `${changedCount} ${changedCount === 1 ? 'field differs' : 'fields differ'} between these runs`}
+        </h3>
+        <label className="result-diff-toggle">
+          <input
+            type="checkbox"
+            checked={showUnchanged}
+            onChange={(e) => setShowUnchanged(e.target.checked)}
+          />
+          Show unchanged fields
+        </label>
+      </div>
+
+      {visibleRows.length > 0 && (
+        <table className="result-diff-table">
+          <thead>
+            <tr>
+              <th scope="col">Field</th>
+              <th scope="col">{beforeLabel}</th>
+              <th scope="col">{afterLabel}</th>
+              <th scope="col"><span className="sr-only">Change</span></th>
+            </tr>
+          </thead>
+          <tbody>
+            {visibleRows.map(row => (
+              <tr key={row.field} className={`diff-${row.change}`}>
+                <th scope="row">{row.field}</th>
+                <td>{row.before ?? '—'}</td>
+                <td>{row.after ?? '—'}</td>
+                <td className="diff-change">{CHANGE_LABELS[row.change]}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default ResultDiff;
@@ -0,0 +1,384 @@
+import React, { useImperativeHandle, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { findTagTokenAt, tokenizeTags } from '../parsing/tagTokenizer';
+import {
+  autoCloseTag,
+  completeTag,
+  EditResult,
+  findTagCompletionContext,
+  rankTagSuggestions,
+  TagCompletionContext
+} from '../parsing/tagEditing';
+import './TagEditor.css';
+
+interface TagEditorProps {
+  id: string;
+  value: string;
+  onChange: (value: string) => void;
+  onKeyDown?: (event: React.KeyboardEvent<HTMLTextAreaElement>) => void;
+  onPaste?: (event: React.ClipboardEvent<HTMLTextAreaElement>) => void;
+  placeholder?: string;
+  rows?: number;
+  disabled?: boolean;
+  className?: string;
+  /** Tag names offered while typing '<'; autocomplete is off when empty */
+  tagSuggestions?: string[];
+  /** Span to mark in the text, e.g. the origin of a hovered result field */
+  highlightedRange?: { offset: number; length: number } | null;
+}
+
+interface Completion {
+  context: TagCompletionContext;
+  suggestions: string[];
+  activeIndex: number;
+}
+
+const MAX_SUGGESTIONS = 8;
+const NO_SUGGESTIONS: string[] = [];
+
+/**
+ * Top and left of the character at an offset within the per-line copy of the text, padding
+ * included. Null where the browser cannot measure text.
+ */
+function positionAt(lines: HTMLElement | null, value: string, offset: number): { top: number; left: number } | null {
+  const before = value.substring(0, offset);
+  const lineIndex = before.split('\n').length - 1;
+  const column = offset - (before.lastIndexOf('\n') + 1);
+  const text = lines?.children[lineIndex]?.firstChild;
+  if (!lines || !text) {
+    return null;
+  }
+
+  const range = document.createRange();
+  range.setStart(text, column);
+  range.setEnd(text, column + 1);
+  const rect = typeof range.getClientRects === 'function' ? range.getClientRects()[0] : undefined;
+  if (!rect) {
+    return null;
+  }
+  const origin = lines.getBoundingClientRect();
+  return { top: rect.top - origin.top, left: rect.left - origin.left };
+}
+
+/**
+ * Plain textarea layered over a highlighted copy of its text.
+ * The textarea keeps native editing, selection and accessibility; its text is transparent so the
+ * coloured tags underneath show through. Tags pair with the same rules validation uses, so an
+ * underlined tag is one the API will reject as unclosed.
+ */
+const TagEditor = React.forwardRef<HTMLTextAreaElement, TagEditorProps>(({
+  id,
+  value,
+  onChange,
+  onKeyDown,
+  onPaste,
+  placeholder,
+  rows = 12,
+  disabled = false,
+  className = "",
+  tagSuggestions = NO_SUGGESTIONS,
+  highlightedRange = null
+}, ref) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const highlightRef = useRef<HTMLPreElement>(null);
+  const gutterRef = useRef<HTMLDivElement>(null);
+  const measureRef = useRef<HTMLSpanElement>(null);
+  const linesRef = useRef<HTMLDivElement>(null);
+  const pendingSelection = useRef<EditResult | null>(null);
+  const dismissedAt = useRef<number | null>(null);
+  const [caret, setCaret] = useState<number | null>(null);
+  const [completion, setCompletion] = useState<Completion | null>(null);
+  const [lineHeights, setLineHeights] = useState<number[]>([]);
+
+  useImperativeHandle(ref, () => textareaRef.current as HTMLTextAreaElement);
+
+  const tokens = useMemo(() => tokenizeTags(value), [value]);
+  const lines = useMemo(() => value.split('\n'), [value]);
+  const unbalancedCount = tokens.filter(token => token.unbalanced).length;
+
+  const activeIndex = caret === null ? -1 : findTagTokenAt(tokens, caret);
+  const matchedIndexes = new Set<number>();
+  if (activeIndex >= 0) {
+    matchedIndexes.add(activeIndex);
+    if (tokens[activeIndex].pairIndex !== undefined) {
+      matchedIndexes.add(tokens[activeIndex].pairIndex!);
+    }
+  }
+
+  // Long lines soft-wrap, so each line number is as tall as the rows its line wraps onto
+  useLayoutEffect(() => {
+    const measure = () => {
+      const heights = Array.from(linesRef.current?.children ?? [], line => (line as HTMLElement).offsetHeight);
+      setLineHeights(previous =>
+        previous.length === heights.length && previous.every((height, index) => height === heights[index])
+          ? previous
+          : heights
+      );
+    };
+    measure();
+
+    const textarea = textareaRef.current;
+    if (!textarea || typeof ResizeObserver === 'undefined') {
+      return;
+    }
+    // A narrower editor wraps more rows
+    const observer = new ResizeObserver(measure);
+    observer.observe(textarea);
+    return () => observer.disconnect();
+  }, [lines]);
+
+  // Edits made here move the caret, which has to wait until the parent renders the new value
+  useLayoutEffect(() => {
+    const textarea = textareaRef.current;
+    if (textarea && pendingSelection.current && textarea.value === pendingSelection.current.text) {
+      textarea.setSelectionRange(pendingSelection.current.selectionStart, pendingSelection.current.selectionEnd);
+      setCaret(pendingSelection.current.selectionStart);
+      pendingSelection.current = null;
+    }
+  }, [value]);
+
+  const updateCompletion = (text: string, position: number | null) => {
+    const context = position === null || tagSuggestions.length === 0
+      ? null
+      : findTagCompletionContext(text, position);
+    if (!context || context.start === dismissedAt.current) {
+      setCompletion(null);
+      return;
+    }
+
+    dismissedAt.current = null;
+    const suggestions = rankTagSuggestions(tagSuggestions, context, text).slice(0, MAX_SUGGESTIONS);
+    setCompletion(suggestions.length > 0 ? { context, suggestions, activeIndex: 0 } : null);
+  };
+
+  const updateCaret = () => {
+    const textarea = textareaRef.current;
+    // While an edit is waiting to render, the textarea still holds the old text
+    if (textarea && !pendingSelection.current) {
+      // Only a collapsed caret highlights a pair; a selection would be ambiguous
+      const position = textarea.selectionStart === textarea.selectionEnd ? textarea.selectionStart : null;
+      setCaret(position);
+      updateCompletion(textarea.value, position);
+    }
+  };
+
+  const applyEdit = (edit: EditResult) => {
+    pendingSelection.current = edit;
+    setCompletion(null);
+    onChange(edit.text);
+  };
+
+  const acceptSuggestion = (name: string) => {
+    if (completion && caret !== null) {
+      applyEdit(completeTag(value, completion.context, caret, name));
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (completion && !event.ctrlKey && !event.metaKey) {
+      const count = completion.suggestions.length;
+      switch (event.key) {
+        case 'ArrowDown':
+        case 'ArrowUp':
+          event.preventDefault();
+          setCompletion({
+            ...completion,
+            activeIndex: (completion.activeIndex + (event.key === 'ArrowDown' ? 1 : count - 1)) % count
+          });
+          return;
+        case 'Enter':
+        case 'Tab':
+          event.preventDefault();
+          acceptSuggestion(completion.suggestions[completion.activeIndex]);
+          return;
+        case 'Escape':
+          event.preventDefault();
+          dismissedAt.current = completion.context.start;
+          setCompletion(null);
+          return;
+      }
+    }
+
+    const textarea = event.currentTarget;
+    if (event.key === '>' && !event.ctrlKey && !event.metaKey && textarea.selectionStart === textarea.selectionEnd) {
+      const edit = autoCloseTag(value, textarea.selectionStart);
+      if (edit) {
+        event.preventDefault();
+        applyEdit(edit);
+        return;
+      }
+    }
+
+    onKeyDown?.(event);
+  };
+
+  // Places the suggestion list under the '<' being completed
+  const completionPosition = (): React.CSSProperties => {
+    const textarea = textareaRef.current;
+    if (!completion || !textarea) {
+      return {};
+    }
+    const lineHeight = parseFloat(window.getComputedStyle(textarea).lineHeight) || 21;
+    const position = positionAt(linesRef.current, value, completion.context.start);
+    if (position) {
+      return { top: position.top + lineHeight - textarea.scrollTop, left: position.left };
+    }
+
+    // Without text measurement, assume the line did not wrap
+    const before = value.substring(0, completion.context.start);
+    const lineIndex = before.split('\n').length - 1;
+    const column = completion.context.start - (before.lastIndexOf('\n') + 1);
+    const charWidth = measureRef.current?.getBoundingClientRect().width || 8.4;
+
+    return {
+      top: 16 + (lineIndex + 1) * lineHeight - textarea.scrollTop,
+      left: 16 + column * charWidth
+    };
+  };
+
+  // Brings a newly highlighted span into view when it is scrolled out of the textarea
+  useLayoutEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea || !highlightedRange) {
+      return;
+    }
+    const lineHeight = parseFloat(window.getComputedStyle(textarea).lineHeight) || 21;
+    const lineIndex = textarea.value.substring(0, highlightedRange.offset).split('\n').length - 1;
+    const top = positionAt(linesRef.current, textarea.value, highlightedRange.offset)?.top ?? lineIndex * lineHeight;
+    if (top < textarea.scrollTop || top + lineHeight > textarea.scrollTop + textarea.clientHeight) {
+      // Setting scrollTop fires the textarea's scroll event, which keeps the backdrop in step
+      textarea.scrollTop = Math.max(0, top - 2 * lineHeight);
+    }
+  }, [highlightedRange]);
+
+  // Wraps the part of a token inside the highlighted range in a mark
+  const renderText = (text: string, start: number): React.ReactNode => {
+    if (!highlightedRange) {
+      return text;
+    }
+    const from = Math.max(0, highlightedRange.offset - start);
+    const to = Math.min(text.length, highlightedRange.offset + highlightedRange.length - start);
+    if (from >= to) {
+      return text;
+    }
+    return (
+      <>
+        {text.substring(0, from)}
+        <mark className="tag-editor-mark">{text.substring(from, to)}</mark>
+        {text.substring(to)}
+      </>
+    );
+  };
+
+  const syncScroll = () => {
+    const textarea = textareaRef.current;
+    if (!textarea) {
+      return;
+    }
+    if (highlightRef.current) {
+      highlightRef.current.scrollTop = textarea.scrollTop;
+    }
+    if (gutterRef.current) {
+      gutterRef.current.scrollTop = textarea.scrollTop;
+    }
+  };
+
+  return (
+    <div className={`tag-editor ${disabled ? 'disabled' : ''} ${className}`}>
+      <div className="tag-editor-gutter" ref={gutterRef} aria-hidden="true">
+        {lines.map((_, index) => (
+          <div key={index} className="tag-editor-line-number" style={lineHeights[index] ? { height: lineHeights[index] } : undefined}>
+            {index + 1}
+          </div>
+        ))}
+      </div>
+
+      <div className="tag-editor-body">
+        {/* Invisible copy of the text, one block per line, to measure how each line wraps */}
+        <div className="tag-editor-lines" ref={linesRef} aria-hidden="true">
+          {lines.map((line, index) => (
+            <div key={index}>{line + '\n'}</div>
+          ))}
+        </div>
+
+        <pre className="tag-editor-highlight" ref={highlightRef} aria-hidden="true">
+          {tokens.map((token, index) => token.type === 'text' ? (
+            <React.Fragment key={index}>{renderText(token.text, token.start)}</React.Fragment>
+          ) : (
+            <span
+              key={index}
+              className={[
+                'tok-tag',
+                token.type === 'open-tag' ? 'open' : 'close',
+                token.unbalanced ? 'unbalanced' : '',
+                matchedIndexes.has(index) ? 'matched' : ''
+              ].filter(Boolean).join(' ')}
+            >
+              {renderText(token.text, token.start)}
+            </span>
+          ))}
+          {/* A trailing newline would otherwise collapse and leave the last line unaligned */}
+          {'\n'}
+          <span className="tag-editor-measure" ref={measureRef}>M</span>
+        </pre>
+
+        <textarea
+          ref={textareaRef}
+          id={id}
+          className="text-input"
+          value={value}
+          onChange={(e) => {
+            onChange(e.target.value);
+            updateCaret();
+          }}
+          onKeyDown={handleKeyDown}
+          onPaste={onPaste}
+          onSelect={updateCaret}
+          onBlur={() => {
+            setCaret(null);
+            setCompletion(null);
+          }}
+          onScroll={syncScroll}
+          placeholder={placeholder}
+          rows={rows}
+          disabled={disabled}
+          spellCheck={false}
+          aria-describedby={unbalancedCount > 0 ? `${id}-unbalanced` : undefined}
+          aria-autocomplete={tagSuggestions.length > 0 ? 'list' : undefined}
+          aria-controls={completion ? `${id}-suggestions` : undefined}
+          aria-activedescendant={completion ? `${id}-suggestion-${completion.activeIndex}` : undefined}
+        />
+
+        {completion && (
+          <ul id={`${id}-suggestions`} className="tag-suggestions" role="listbox" aria-label="Tag suggestions" style={completionPosition()}>
+            {completion.suggestions.map((name, index) => (
+              <li
+                key={name}
+                id={`${id}-suggestion-${index}`}
+                role="option"
+                aria-selected={index === completion.activeIndex}
+                className={`tag-suggestion ${index === completion.activeIndex ? 'active' : ''}`}
+                // mousedown rather than click so the textarea keeps focus
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  acceptSuggestion(name);
+                }}
+              >
+                {completion.context.isClosing ? `</${name}>` : `<${name}>`}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {unbalancedCount > 0 && (
+        <span id={`${id}-unbalanced`} className="sr-only">
+          {unbalancedCount} unbalanced {unbalancedCount === 1 ? 'tag' : 'tags'}
+        </span>
+      )}
+    </div>
+  );
+});
+
+TagEditor.displayName = 'TagEditor';
+
+export default TagEditor;
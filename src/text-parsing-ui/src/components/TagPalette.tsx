@@ -0,0 +1,44 @@
+import React from 'react';
+import { KnownTag } from '../parsing/knownTags';
+import './TagPalette.css';
+
+interface TagPaletteProps {
+  tags: KnownTag[];
+  onInsertTag: (tagName: string) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Tips plus a button per known tag; clicking one wraps the editor's selection in that tag
+ */
+const TagPalette: React.FC<TagPaletteProps> = ({ tags, onInsertTag, disabled = false }) => {
+  return (
+    <div className="input-help tag-palette">
+      <p>
+        💡 <strong>Tips:</strong> select text and click a tag to wrap it, or type <code>&lt;</code> in
+        the editor for suggestions. Use Ctrl+Enter to submit quickly.
+      </p>
+      <div className="tag-palette-buttons" role="toolbar" aria-label="Insert tag">
+        {tags.map(tag => (
+          <button
+            key={tag.name}
+            type="button"
+            className={`tag-palette-button ${tag.source} ${tag.isRequired ? 'required' : ''}`}
+            // Keep focus (and the selection) in the editor
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => onInsertTag(tag.name)}
+            disabled={disabled}
+            title={tag.source === 'rule'
+              ? `Configured field${tag.isRequired ? ' (required for tax calculation)' : ''}`
+              : `Seen in ${tag.seenCount} earlier ${tag.seenCount === 1 ? 'result' : 'results'}`}
+          >
+            &lt;{tag.name}&gt;
+            {tag.isRequired && <span className="tag-required"> required</span>}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default TagPalette;
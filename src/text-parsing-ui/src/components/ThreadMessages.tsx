@@ -0,0 +1,169 @@
+import React, { useMemo } from 'react';
+import { findFieldConflicts, ThreadMessage } from '../email/threadSplitter';
+import { traceFieldSources } from '../parsing/fieldProvenance';
+import { ParseOutcome } from '../services/parseWithFallback';
+import { SourceLocation } from '../types/api';
+import ParseResults from './ParseResults';
+import './ThreadMessages.css';
+
+export interface ThreadMessageResult {
+  message: ThreadMessage;
+  outcome: ParseOutcome;
+}
+
+export type ThreadView = 'messages' | 'thread';
+
+interface ThreadMessagesProps {
+  messages: ThreadMessageResult[];
+  view: ThreadView;
+  onViewChange: (view: ThreadView) => void;
+  /** Current editor text; per-message fields are traced to their place in it */
+  content: string;
+  jurisdiction?: string;
+  onHighlightSource?: (location: SourceLocation | null) => void;
+  /** The whole-thread results, shown in the "Whole thread" view */
+  children?: React.ReactNode;
+  className?: string;
+}
+
+const HEADER_FIELDS: Array<{ key: keyof ThreadMessage['metadata']; label: string }> = [
+  { key: 'from', label: 'From' },
+  { key: 'date', label: 'Sent' },
+  { key: 'to', label: 'To' },
+  { key: 'subject', label: 'Subject' }
+];
+
+// Where the message body sits in the current text, even if text above it was edited since the run
+const spanInContent = (content: string, message: ThreadMessage) => {
+  const offset = content.substr(message.offset, message.text.length) === message.text
+    ? message.offset
+    : content.indexOf(message.text);
+  return offset >= 0 ? { offset, length: message.text.length } : { offset: 0, length: 0 };
+};
+
+/**
+ * Results of a pasted email thread, one panel per message with its sender, sent date and subject,
+ * or the single whole-thread result. Fields that messages disagree on are listed above either view.
+ */
+const ThreadMessages: React.FC<ThreadMessagesProps> = ({
+  messages,
+  view,
+  onViewChange,
+  content,
+  jurisdiction,
+  onHighlightSource,
+  children,
+  className = ""
+}) => {
+  const conflicts = useMemo(() => findFieldConflicts(messages.map(({ outcome }) => outcome.result)), [messages]);
+
+  const renderMessage = ({ message, outcome }: ThreadMessageResult, index: number) => {
+    const headers = HEADER_FIELDS.filter(field => message.metadata[field.key]);
+    const title = `Message ${index + 1} of ${messages.length}`;
+    // Required fields only need to appear somewhere in the thread, so a message missing one is not an error
+    const threadLevel = (outcome.result?.errorDetails || [])
+      .filter(detail => detail.code === 'missing-required-field')
+      .map(detail => detail.message);
+    const messageErrors = outcome.errors.filter(error => !threadLevel.includes(error));
+    const notes = outcome.errors.filter(error => threadLevel.includes(error));
+
+    return (
+      <li key={index} className="thread-message">
+        <section aria-label={title}>
+          <h3 className="thread-message-title">
+            {title}
+            {headers.length === 0 && <span className="thread-message-note">Text above the quoted messages</span>}
+          </h3>
+
+          {headers.length > 0 && (
+            <dl className="thread-message-headers">
+              {headers.map(field => (
+                <React.Fragment key={field.key}>
+                  <dt>{field.label}</dt>
+                  <dd>{message.metadata[field.key]}</dd>
+                </React.Fragment>
+              ))}
+            </dl>
+          )}
+
+          {messageErrors.length > 0 && (
+            <ul className="thread-message-errors" aria-label={`${title} errors`}>
+              {messageErrors.map((error, errorIndex) => <li key={errorIndex}>{error}</li>)}
+            </ul>
+          )}
+
+          {notes.length > 0 && (
+            <ul className="thread-message-notes" aria-label={`${title} notes`}>
+              {notes.map((note, noteIndex) => (
+                <li key={noteIndex}>{note} (checked on the whole thread, not each message)</li>
+              ))}
+            </ul>
+          )}
+
+          {outcome.result && (
+            <ParseResults
+              xmlBlocks={outcome.result.xmlBlocks}
+              taggedFields={outcome.result.taggedFields}
+              calculations={outcome.result.calculations}
+              isValid={outcome.result.isValid}
+              source={outcome.source}
+              errors={outcome.result.errors}
+              errorDetails={outcome.result.errorDetails}
+              metadata={message.metadata}
+              jurisdiction={jurisdiction}
+              provenance={traceFieldSources(content, outcome.result, undefined, spanInContent(content, message))}
+              onHighlightSource={onHighlightSource}
+            />
+          )}
+        </section>
+      </li>
+    );
+  };
+
+  return (
+    <div className={`thread-messages ${className}`}>
+      <div className="thread-messages-header">
+        <h2 className="section-title">✉️ Email Thread ({messages.length} messages)</h2>
+        <div className="thread-view-toggle" role="group" aria-label="Thread view">
+          <button
+            type="button"
+            className={`thread-view-button ${view === 'messages' ? 'active' : ''}`}
+            aria-pressed={view === 'messages'}
+            onClick={() => onViewChange('messages')}
+          >
+            Per message
+          </button>
+          <button
+            type="button"
+            className={`thread-view-button ${view === 'thread' ? 'active' : ''}`}
+            aria-pressed={view === 'thread'}
+            onClick={() => onViewChange('thread')}
+          >
+            Whole thread
+          </button>
+        </div>
+      </div>
+
+      {conflicts.length > 0 && (
+        <div className="thread-conflicts" role="note">
+          <strong>Messages disagree:</strong>
+          <ul>
+            {conflicts.map(conflict => (
+              <li key={conflict.name}>
+                <code>{conflict.name}</code> is{' '}
+                {conflict.values.map(({ messageIndex, value }) => `"${value}" in message ${messageIndex + 1}`).join(', ')}
+                {' '}- the whole-thread result keeps only the last
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {view === 'messages' ? (
+        <ol className="thread-message-list">{messages.map(renderMessage)}</ol>
+      ) : children}
+    </div>
+  );
+};
+
+export default ThreadMessages;
@@ -0,0 +1,69 @@
+import React from 'react';
+import { LiveValidationState } from '../hooks/useLiveValidation';
+import './ValidationStatus.css';
+
+interface ValidationStatusProps {
+  validation: LiveValidationState;
+  className?: string;
+}
+
+/**
+ * Live status strip showing validation errors and warnings while the user types
+ */
+const ValidationStatus: React.FC<ValidationStatusProps> = ({
+  validation,
+  className = ""
+}) => {
+  const { status, result, source } = validation;
+
+  if (status === 'idle') {
+    return null;
+  }
+
+  const errors = result?.errors || [];
+  const warnings = Object.entries(result?.warnings || {});
+
+  const renderSummary = () => {
+    switch (status) {
+      case 'validating':
+        return 'Checking structure...';
+      case 'valid':
+        return '✓ No structural problems found';
+      case 'invalid':
+        return `✗ ${errors.length} ${errors.length === 1 ? 'problem' : 'problems'} found`;
+    }
+  };
+
+  return (
+    <div
+      className={`validation-status ${status} ${className}`}
+      role="status"
+      aria-live="polite"
+    >
+      <span className="validation-summary">{renderSummary()}</span>
+      {source === 'local' && status !== 'validating' && (
+        <span className="validation-source"> (checked locally - API unreachable)</span>
+      )}
+
+      {errors.length > 0 && (
+        <ul className="validation-list errors">
+          {errors.map((error, index) => (
+            <li key={index} className="validation-item error">{error}</li>
+          ))}
+        </ul>
+      )}
+
+      {warnings.length > 0 && (
+        <ul className="validation-list warnings">
+          {warnings.map(([field, message]) => (
+            <li key={field} className="validation-item warning">
+              <strong>{field}:</strong> {message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ValidationStatus;
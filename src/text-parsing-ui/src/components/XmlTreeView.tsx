@@ -0,0 +1,83 @@
+import React from 'react';
+import { OMISSION_DESCRIPTIONS, OmissionReason, XmlTreeElement, XmlTreeNode } from '../parsing/xmlTree';
+import './XmlTreeView.css';
+
+interface XmlTreeViewProps {
+  root: XmlTreeElement;
+  className?: string;
+}
+
+const OmittedFlag: React.FC<{ reason: OmissionReason }> = ({ reason }) => (
+  <span className="xml-tree-omitted" title={OMISSION_DESCRIPTIONS[reason]}>
+    not in fields<span className="sr-only">: {OMISSION_DESCRIPTIONS[reason]}</span>
+  </span>
+);
+
+const renderLabel = (element: XmlTreeElement) => (
+  <>
+    <span className="xml-tree-tag">&lt;{element.name}&gt;</span>
+    {element.siblingIndex !== undefined && (
+      <span className="xml-tree-sibling">{element.siblingIndex} of {element.siblingCount}</span>
+    )}
+    {element.attributes.map(attribute => (
+      <span key={attribute.name} className="xml-tree-attribute">
+        <span className="xml-tree-attribute-name">{attribute.name}</span>=&quot;{attribute.value}&quot;
+      </span>
+    ))}
+    {element.omitted && <OmittedFlag reason={element.omitted} />}
+  </>
+);
+
+const renderNode = (node: XmlTreeNode, key: number): React.ReactNode => {
+  if (node.kind === 'text') {
+    return (
+      <li key={key} className={`xml-tree-node text ${node.omitted ? 'omitted' : ''}`}>
+        <span className="xml-tree-text">“{node.value}”</span>
+        {node.omitted && <OmittedFlag reason={node.omitted} />}
+      </li>
+    );
+  }
+
+  const className = `xml-tree-node element ${node.omitted ? 'omitted' : ''}`;
+  const [onlyChild] = node.children;
+  const leafText = node.children.length === 1 && onlyChild.kind === 'text' && !onlyChild.omitted
+    ? onlyChild.value
+    : null;
+
+  // A leaf with just text reads best on one line
+  if (node.children.length === 0 || leafText !== null) {
+    return (
+      <li key={key} className={className}>
+        <span className="xml-tree-label">
+          {renderLabel(node)}
+          {leafText !== null && <span className="xml-tree-text">{leafText}</span>}
+        </span>
+      </li>
+    );
+  }
+
+  return (
+    <li key={key} className={className}>
+      <details open>
+        <summary className="xml-tree-label">{renderLabel(node)}</summary>
+        <ul className="xml-tree-children">
+          {node.children.map(renderNode)}
+        </ul>
+      </details>
+    </li>
+  );
+};
+
+/**
+ * Collapsible view of an XML block's full element tree. Elements, attributes and text
+ * that the block's flat fields map leaves out are flagged.
+ */
+const XmlTreeView: React.FC<XmlTreeViewProps> = ({ root, className = "" }) => {
+  return (
+    <ul className={`xml-tree ${className}`} aria-label={`${root.name} element tree`}>
+      {renderNode(root, 0)}
+    </ul>
+  );
+};
+
+export default XmlTreeView;
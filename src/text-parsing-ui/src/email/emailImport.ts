@@ -0,0 +1,38 @@
+import { readFileAsBinaryString, readFileAsText } from '../utils/fileReader';
+import { decodeEmail, EmailMetadata } from './mimeDecoder';
+
+export const IMPORT_FILE_ACCEPT = '.eml,message/rfc822,.txt,text/plain';
+
+export interface ImportedFile {
+  fileName: string;
+  text: string;
+  metadata: EmailMetadata | null;
+}
+
+export function isEmailFile(file: File): boolean {
+  return file.type === 'message/rfc822' || /\.eml$/i.test(file.name);
+}
+
+export function isPlainTextFile(file: File): boolean {
+  return file.type === 'text/plain' || /\.txt$/i.test(file.name);
+}
+
+/**
+ * Loads a dropped or picked file into editor text.
+ * .eml files are MIME-decoded and keep their headers as metadata; .txt files load as-is.
+ */
+export async function importTextFile(file: File): Promise<ImportedFile> {
+  if (isEmailFile(file)) {
+    const decoded = decodeEmail(await readFileAsBinaryString(file));
+    if (decoded.bodyType === 'none') {
+      throw new Error(`No readable text found in ${file.name}`);
+    }
+    return { fileName: file.name, text: decoded.text, metadata: decoded.metadata };
+  }
+
+  if (isPlainTextFile(file)) {
+    return { fileName: file.name, text: await readFileAsText(file), metadata: null };
+  }
+
+  throw new Error(`Unsupported file type: ${file.name}. Please use a .eml or .txt file.`);
+}
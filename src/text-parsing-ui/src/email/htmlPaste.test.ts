@@ -0,0 +1,34 @@
+import { convertHtmlPaste } from './htmlPaste';
+
+describe('HTML paste conversion', () => {
+  test('unescapes tags and removes the formatting that splits them', () => {
+    const html = '<html><body><!--StartFragment--><p class="MsoNormal"><span style="color:black">Total: ' +
+      '&lt;<span>total</span>&gt;35,000&lt;/total&gt;</span><o:p></o:p></p>' +
+      '<p>Paid by&nbsp;&lt;payment_method&gt;<b>personal card</b>&lt;/payment_method&gt;</p><!--EndFragment--></body></html>';
+
+    expect(convertHtmlPaste(html, 'Total: 35,000\nPaid by personal card')).toEqual({
+      text: 'Total: <total>35,000</total>\nPaid by <payment_method>personal card</payment_method>',
+      tagCount: 4
+    });
+  });
+
+  test("keeps the user's own tags when they arrive unescaped", () => {
+    const html = '<div><expense><cost_centre>DEV632</cost_centre></expense></div><div>Thanks</div>';
+
+    expect(convertHtmlPaste(html, '')?.text).toBe('<expense><cost_centre>DEV632</cost_centre></expense>\nThanks');
+  });
+
+  test('drops every HTML element a mail client may wrap the text in', () => {
+    const html = '<center><figure><figcaption><label>Paid</label> <small><abbr title="total">&lt;total&gt;</abbr>' +
+      '<time>12:30</time> 42<wbr>&lt;/total&gt;</small></figcaption></figure></center><input type="hidden" value="x">';
+
+    expect(convertHtmlPaste(html, 'Paid 12:30 42')?.text).toBe('Paid <total>12:30 42</total>');
+  });
+
+  test('leaves the paste alone when the plain text already has the tags', () => {
+    const html = '<p>&lt;total&gt;120&lt;/total&gt;</p>';
+
+    expect(convertHtmlPaste(html, '<total>120</total>')).toBeNull();
+    expect(convertHtmlPaste('<p><b>No tags here</b></p>', 'No tags here')).toBeNull();
+  });
+});
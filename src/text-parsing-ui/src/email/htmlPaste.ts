@@ -0,0 +1,32 @@
+import { htmlToText } from './htmlToText';
+
+/**
+ * Recovers tags from HTML pasted out of Outlook or webmail.
+ * Mail clients put the message on the clipboard as HTML in which the user's tags are escaped
+ * (&lt;total&gt;) or split by formatting (&lt;<span>total</span>&gt;), and the plain-text copy
+ * does not always keep them. The HTML is only used when it yields more tags than the plain text.
+ */
+
+export interface HtmlPaste {
+  /** Text to insert in place of the plain-text paste */
+  text: string;
+  /** Tags found in the converted text */
+  tagCount: number;
+}
+
+const TAG = /<\/?[A-Za-z_][\w.-]*>/g;
+
+const countTags = (text: string) => (text.match(TAG) || []).length;
+
+/**
+ * The converted paste, or null when a normal plain-text paste would lose nothing
+ */
+export function convertHtmlPaste(html: string, plainText: string): HtmlPaste | null {
+  if (!html.trim()) {
+    return null;
+  }
+
+  const text = htmlToText(html, { keepUnknownTags: true });
+  const tagCount = countTags(text);
+  return tagCount > countTags(plainText) ? { text, tagCount } : null;
+}
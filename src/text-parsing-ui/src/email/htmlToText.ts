@@ -0,0 +1,89 @@
+/**
+ * Reduces an HTML email body to plain text.
+ * Markup is removed before entities are decoded, so escaped tags such as
+ * &lt;total&gt; come back as the literal <total> the parser looks for.
+ */
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  hellip: '…',
+  copy: '©',
+  reg: '®',
+  euro: '€',
+  pound: '£'
+};
+
+// Every element HTML defines (current and obsolete, as older mail clients still emit them);
+// any other tag is taken to be the user's own
+const HTML_ELEMENTS = new Set([
+  'a', 'abbr', 'acronym', 'address', 'applet', 'area', 'article', 'aside', 'audio', 'b', 'base', 'basefont',
+  'bdi', 'bdo', 'bgsound', 'big', 'blink', 'blockquote', 'body', 'br', 'button', 'canvas', 'caption',
+  'center', 'cite', 'code', 'col', 'colgroup', 'data', 'datalist', 'dd', 'del', 'details', 'dfn', 'dialog',
+  'dir', 'div', 'dl', 'dt', 'em', 'embed', 'fieldset', 'figcaption', 'figure', 'font', 'footer', 'form',
+  'frame', 'frameset', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'head', 'header', 'hgroup', 'hr', 'html', 'i',
+  'iframe', 'image', 'img', 'input', 'ins', 'isindex', 'kbd', 'keygen', 'label', 'legend', 'li', 'link',
+  'listing', 'main', 'map', 'mark', 'marquee', 'math', 'menu', 'menuitem', 'meta', 'meter', 'multicol',
+  'nav', 'nextid', 'nobr', 'noembed', 'noframes', 'noscript', 'object', 'ol', 'optgroup', 'option',
+  'output', 'p', 'param', 'picture', 'plaintext', 'pre', 'progress', 'q', 'rb', 'rp', 'rt', 'rtc', 'ruby',
+  's', 'samp', 'script', 'search', 'section', 'select', 'slot', 'small', 'source', 'spacer', 'span',
+  'strike', 'strong', 'style', 'sub', 'summary', 'sup', 'svg', 'table', 'tbody', 'td', 'template',
+  'textarea', 'tfoot', 'th', 'thead', 'time', 'title', 'tr', 'track', 'tt', 'u', 'ul', 'var', 'video',
+  'wbr', 'xmp'
+]);
+
+const BLOCK_END_TAGS = /<\/(p|div|h[1-6]|li|tr|table|blockquote|pre|section|article|header|footer)\s*>/gi;
+
+/**
+ * Decodes named, decimal and hexadecimal character references
+ */
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z][a-z0-9]*);/gi, (match, entity: string) => {
+    if (entity.charAt(0) === '#') {
+      const isHex = entity.charAt(1).toLowerCase() === 'x';
+      const codePoint = parseInt(entity.substring(isHex ? 2 : 1), isHex ? 16 : 10);
+      return codePoint > 0 && codePoint <= 0x10FFFF ? String.fromCodePoint(codePoint) : match;
+    }
+
+    const decoded = NAMED_ENTITIES[entity.toLowerCase()];
+    return decoded !== undefined ? decoded : match;
+  });
+}
+
+export interface HtmlToTextOptions {
+  /** Keep tags that are not HTML elements (such as <total>) instead of removing them with the markup */
+  keepUnknownTags?: boolean;
+}
+
+const isUserTag = (name: string | undefined) =>
+  !!name && !name.includes(':') && !HTML_ELEMENTS.has(name.toLowerCase());
+
+export function htmlToText(html: string, options: HtmlToTextOptions = {}): string {
+  const text = html
+    .replace(/\r\n?/g, '\n')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    // Word's conditional markers, e.g. <![if !supportLists]>
+    .replace(/<!\[[^\]]*\]>/g, '')
+    .replace(/<(head|style|script|title)\b[^>]*>[\s\S]*?<\/\1\s*>/gi, '')
+    // Source newlines are insignificant in HTML; line breaks come from the markup
+    .replace(/\s*\n\s*/g, ' ')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(BLOCK_END_TAGS, '\n')
+    .replace(/<[^>]+>/g, tag => options.keepUnknownTags && isUserTag(/^<\/?([A-Za-z][\w:.-]*)/.exec(tag)?.[1]) ? tag : '');
+
+  return decodeHtmlEntities(text)
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n[ \t]+/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
@@ -0,0 +1,90 @@
+import { decodeEmail } from './mimeDecoder';
+
+// Helper to build CRLF-terminated messages the way mail clients export them
+const eml = (...lines: string[]) => lines.join('\r\n');
+
+describe('MIME email decoder', () => {
+  test('prefers the quoted-printable text/plain part of a multipart/alternative message', () => {
+    const raw = eml(
+      'From: William Steele <william@example.com>',
+      'To: Maria Washington <maria@example.com>',
+      'Subject: =?UTF-8?Q?Team_dinner_=E2=80=93_booking?=',
+      'Date: Fri, 16 Jun 2022 10:32:00 +1200',
+      'Content-Type: multipart/alternative; boundary="b1"',
+      '',
+      '--b1',
+      'Content-Type: text/plain; charset=UTF-8',
+      'Content-Transfer-Encoding: quoted-printable',
+      '',
+      'Book <vendor>Caf=C3=A9 Rosa</vendor> for <total>120</total> and a very long=',
+      ' line',
+      '--b1',
+      'Content-Type: text/html; charset=UTF-8',
+      '',
+      '<p>ignored</p>',
+      '--b1--'
+    );
+
+    const decoded = decodeEmail(raw);
+
+    expect(decoded.bodyType).toBe('text/plain');
+    expect(decoded.text).toBe('Book <vendor>Café Rosa</vendor> for <total>120</total> and a very long line');
+    expect(decoded.metadata).toEqual({
+      from: 'William Steele <william@example.com>',
+      to: 'Maria Washington <maria@example.com>',
+      subject: 'Team dinner – booking',
+      date: 'Fri, 16 Jun 2022 10:32:00 +1200'
+    });
+  });
+
+  test('decodes base64 bodies in nested multiparts and skips attachments', () => {
+    const body = btoa('<expense><total>35,000</total></expense>');
+    const raw = eml(
+      'Subject: Expenses',
+      'Content-Type: multipart/mixed; boundary=outer',
+      '',
+      '--outer',
+      'Content-Type: text/plain; name="notes.txt"',
+      'Content-Disposition: attachment; filename="notes.txt"',
+      '',
+      'attachment text',
+      '--outer',
+      'Content-Type: multipart/alternative; boundary=inner',
+      '',
+      '--inner',
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      body,
+      '--inner--',
+      '--outer--'
+    );
+
+    expect(decodeEmail(raw).text).toBe('<expense><total>35,000</total></expense>');
+  });
+
+  test('reduces an HTML-only body to text and restores escaped tags', () => {
+    const raw = eml(
+      'Content-Type: text/html; charset=utf-8',
+      '',
+      '<html><head><style>p { color: red; }</style></head><body>',
+      '<p>Hi Patricia,</p><p>&lt;total&gt;<span>99</span>&lt;/total&gt;<br>Thanks</p>',
+      '</body></html>'
+    );
+
+    const decoded = decodeEmail(raw);
+
+    expect(decoded.bodyType).toBe('text/html');
+    expect(decoded.text).toBe('Hi Patricia,\n<total>99</total>\nThanks');
+  });
+
+  test('keeps tags written unescaped in an HTML-only body', () => {
+    const raw = eml(
+      'Content-Type: text/html; charset=utf-8',
+      '',
+      '<div>Booked <vendor>Seaside Steakhouse</vendor> for <b>Friday</b></div>'
+    );
+
+    expect(decodeEmail(raw).text).toBe('Booked <vendor>Seaside Steakhouse</vendor> for Friday');
+  });
+});
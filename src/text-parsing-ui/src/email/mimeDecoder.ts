@@ -0,0 +1,250 @@
+import { htmlToText } from './htmlToText';
+
+/**
+ * Decoder for .eml / MIME messages exported from mail clients.
+ *
+ * Input is a "binary string" (one character per byte, as read from the file) so that
+ * 8-bit bodies can be decoded with the charset their part declares.
+ */
+
+export interface EmailMetadata {
+  from?: string;
+  to?: string;
+  subject?: string;
+  date?: string;
+}
+
+export interface DecodedEmail {
+  metadata: EmailMetadata;
+  text: string;
+  bodyType: 'text/plain' | 'text/html' | 'none';
+}
+
+interface MimePart {
+  headers: Record<string, string>;
+  body: string;
+}
+
+interface ContentType {
+  mediaType: string;
+  parameters: Record<string, string>;
+}
+
+/**
+ * Splits a raw part into unfolded headers and the body that follows the first blank line
+ */
+function splitPart(raw: string): MimePart {
+  const separator = /\r?\n\r?\n/.exec(raw);
+  const headerText = separator ? raw.substring(0, separator.index) : raw;
+  const body = separator ? raw.substring(separator.index + separator[0].length) : '';
+
+  const headers: Record<string, string> = {};
+  const unfolded = headerText.replace(/\r?\n[ \t]+/g, ' ');
+
+  for (const line of unfolded.split(/\r?\n/)) {
+    const colon = line.indexOf(':');
+    if (colon > 0) {
+      const name = line.substring(0, colon).trim().toLowerCase();
+      // Keep the first occurrence, as mail clients do for the headers we display
+      if (!(name in headers)) {
+        headers[name] = line.substring(colon + 1).trim();
+      }
+    }
+  }
+
+  return { headers, body };
+}
+
+function parseContentType(value: string | undefined): ContentType {
+  if (!value) {
+    return { mediaType: 'text/plain', parameters: { charset: 'us-ascii' } };
+  }
+
+  const [mediaType, ...rest] = value.split(';');
+  const parameters: Record<string, string> = {};
+
+  for (const parameter of rest) {
+    const equals = parameter.indexOf('=');
+    if (equals > 0) {
+      const name = parameter.substring(0, equals).trim().toLowerCase();
+      parameters[name] = parameter.substring(equals + 1).trim().replace(/^"(.*)"$/, '$1');
+    }
+  }
+
+  return { mediaType: mediaType.trim().toLowerCase(), parameters };
+}
+
+function decodeQuotedPrintable(body: string): string {
+  return body
+    .replace(/=\r?\n/g, '')
+    .replace(/=([0-9A-Fa-f]{2})/g, (_match, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+}
+
+function decodeBase64(body: string): string {
+  const clean = body.replace(/[^A-Za-z0-9+/=]/g, '');
+  try {
+    return atob(clean);
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Manual UTF-8 decoding for environments without TextDecoder
+ */
+function decodeUtf8(binary: string): string {
+  try {
+    return decodeURIComponent(binary.replace(/[\s\S]/g, char =>
+      `%${char.charCodeAt(0).toString(16).padStart(2, '0')}`));
+  } catch {
+    return binary;
+  }
+}
+
+/**
+ * Converts a binary string into text using the declared charset
+ */
+export function decodeCharset(binary: string, charset: string = 'utf-8'): string {
+  const normalized = charset.trim().toLowerCase();
+
+  if (normalized === 'us-ascii' || normalized === 'ascii' || normalized === 'iso-8859-1' || normalized === 'latin1') {
+    return binary;
+  }
+
+  if (typeof TextDecoder !== 'undefined') {
+    try {
+      const bytes = new Uint8Array(binary.length);
+      for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i) & 0xff;
+      }
+      return new TextDecoder(normalized).decode(bytes);
+    } catch {
+      // Unknown charset label - fall through to UTF-8
+    }
+  }
+
+  return decodeUtf8(binary);
+}
+
+function decodeTransferEncoding(body: string, encoding: string | undefined): string {
+  switch ((encoding || '7bit').trim().toLowerCase()) {
+    case 'quoted-printable':
+      return decodeQuotedPrintable(body);
+    case 'base64':
+      return decodeBase64(body);
+    default:
+      return body;
+  }
+}
+
+/**
+ * Decodes RFC 2047 encoded-words such as =?UTF-8?B?...?= found in headers
+ */
+export function decodeHeaderValue(value: string): string {
+  return value
+    // Whitespace between adjacent encoded-words is not significant
+    .replace(/(\?=)\s+(=\?)/g, '$1$2')
+    .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_match, charset: string, encoding: string, text: string) => {
+      const binary = encoding.toUpperCase() === 'B'
+        ? decodeBase64(text)
+        : decodeQuotedPrintable(text.replace(/_/g, ' '));
+      return decodeCharset(binary, charset.split('*')[0]);
+    });
+}
+
+function splitMultipart(body: string, boundary: string): string[] {
+  const delimiter = `--${boundary}`;
+  const parts: string[] = [];
+  const lines = body.split(/\r?\n/);
+  let current: string[] | null = null;
+
+  for (const line of lines) {
+    const trimmed = line.trimEnd();
+    if (trimmed === `${delimiter}--`) {
+      break;
+    }
+    if (trimmed === delimiter) {
+      if (current) {
+        parts.push(current.join('\n'));
+      }
+      current = [];
+    } else if (current) {
+      current.push(line);
+    }
+  }
+
+  if (current) {
+    parts.push(current.join('\n'));
+  }
+
+  return parts;
+}
+
+/**
+ * Walks the part tree collecting the first text/plain and text/html bodies (attachments are skipped)
+ */
+function findTextBodies(part: MimePart, found: { plain?: string; html?: string }): void {
+  const contentType = parseContentType(part.headers['content-type']);
+  const disposition = (part.headers['content-disposition'] || '').toLowerCase();
+
+  if (contentType.mediaType.startsWith('multipart/') && contentType.parameters.boundary) {
+    for (const raw of splitMultipart(part.body, contentType.parameters.boundary)) {
+      findTextBodies(splitPart(raw), found);
+    }
+    return;
+  }
+
+  if (disposition.startsWith('attachment')) {
+    return;
+  }
+
+  const isPlain = contentType.mediaType === 'text/plain';
+  const isHtml = contentType.mediaType === 'text/html';
+  if ((isPlain && found.plain !== undefined) || (isHtml && found.html !== undefined) || (!isPlain && !isHtml)) {
+    return;
+  }
+
+  const binary = decodeTransferEncoding(part.body, part.headers['content-transfer-encoding']);
+  const text = decodeCharset(binary, contentType.parameters.charset || 'us-ascii');
+
+  if (isPlain) {
+    found.plain = text;
+  } else {
+    found.html = text;
+  }
+}
+
+/**
+ * Decodes a raw MIME message into its readable body text and header metadata.
+ * The text/plain part is preferred; otherwise the text/html part is reduced to text.
+ */
+export function decodeEmail(raw: string): DecodedEmail {
+  const message = splitPart(raw);
+  // Raw 8-bit header bytes are treated as UTF-8 before any encoded-words are expanded
+  const header = (name: string) =>
+    message.headers[name] ? decodeHeaderValue(decodeCharset(message.headers[name], 'utf-8')) : undefined;
+
+  const metadata: EmailMetadata = {
+    from: header('from'),
+    to: header('to'),
+    subject: header('subject'),
+    date: header('date')
+  };
+
+  const found: { plain?: string; html?: string } = {};
+  findTextBodies(message, found);
+
+  if (found.plain !== undefined) {
+    return { metadata, text: normalizeNewlines(found.plain).trim(), bodyType: 'text/plain' };
+  }
+  if (found.html !== undefined) {
+    // Mail clients often send a tag typed into the message as-is, so tags HTML does not define are kept
+    return { metadata, text: htmlToText(found.html, { keepUnknownTags: true }), bodyType: 'text/html' };
+  }
+
+  return { metadata, text: '', bodyType: 'none' };
+}
+
+function normalizeNewlines(text: string): string {
+  return text.replace(/\r\n?/g, '\n');
+}
@@ -0,0 +1,78 @@
+import { findFieldConflicts, splitThread } from './threadSplitter';
+import { ParseResult } from '../types/api';
+
+describe('Email thread splitter', () => {
+  test('splits a reply from the quoted messages below it', () => {
+    const content = [
+      'Please use <cost_centre>DEV632</cost_centre> instead.',
+      '',
+      'From: Ivan Castle <ivan@example.com>',
+      'Sent: Friday, 16 June 2022 10:32 AM',
+      'To: Antoine Lloyd <antoine@example.com>',
+      'Subject: RE: Team dinner',
+      '',
+      'Booked <vendor>Seaside Steakhouse</vendor>, <cost_centre>DEV002</cost_centre>.',
+      '',
+      '-----Original Message-----',
+      'From: Antoine Lloyd <antoine@example.com>',
+      'Date: Thu, 15 Jun 2022 09:00:00 +1200',
+      'Subject: Team dinner',
+      '',
+      'Can you book dinner?'
+    ].join('\n');
+
+    const messages = splitThread(content);
+
+    expect(messages.map(message => message.metadata)).toEqual([
+      {},
+      {
+        from: 'Ivan Castle <ivan@example.com>',
+        to: 'Antoine Lloyd <antoine@example.com>',
+        subject: 'RE: Team dinner',
+        date: 'Friday, 16 June 2022 10:32 AM'
+      },
+      {
+        from: 'Antoine Lloyd <antoine@example.com>',
+        to: undefined,
+        subject: 'Team dinner',
+        date: 'Thu, 15 Jun 2022 09:00:00 +1200'
+      }
+    ]);
+    expect(messages[0].text.trim()).toBe('Please use <cost_centre>DEV632</cost_centre> instead.');
+    // The separator line belongs to neither body
+    expect(messages[1].text.trim()).toBe('Booked <vendor>Seaside Steakhouse</vendor>, <cost_centre>DEV002</cost_centre>.');
+    expect(messages[2].text.trim()).toBe('Can you book dinner?');
+    messages.forEach(message => {
+      expect(content.substr(message.offset, message.text.length)).toBe(message.text);
+    });
+  });
+
+  test('returns the whole text as one message when there are no header blocks', () => {
+    const content = 'From: the finance team\nPlease submit <total>120</total>.';
+
+    expect(splitThread(content)).toEqual([{ metadata: {}, text: content, offset: 0 }]);
+  });
+
+  test('drops empty text above a forwarded message', () => {
+    const content = '\r\nFrom: Ivan Castle\r\nSubject: Fwd: Receipt\r\n\r\n<total>50</total>';
+
+    const messages = splitThread(content);
+
+    expect(messages).toHaveLength(1);
+    expect(messages[0].metadata).toEqual({ from: 'Ivan Castle', to: undefined, subject: 'Fwd: Receipt', date: undefined });
+    expect(messages[0].text).toBe('\r\n<total>50</total>');
+  });
+
+  test('finds tagged fields given different values in different messages', () => {
+    const result = (taggedFields: Record<string, string>): ParseResult =>
+      ({ xmlBlocks: [], taggedFields, calculations: null, isValid: true, errors: [], errorDetails: [] });
+
+    expect(findFieldConflicts([
+      result({ cost_centre: 'DEV632', vendor: 'Cafe' }),
+      null,
+      result({ cost_centre: 'DEV002', vendor: 'Cafe' })
+    ])).toEqual([
+      { name: 'cost_centre', values: [{ messageIndex: 0, value: 'DEV632' }, { messageIndex: 2, value: 'DEV002' }] }
+    ]);
+  });
+});
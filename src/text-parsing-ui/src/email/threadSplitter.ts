@@ -0,0 +1,149 @@
+import { ParseResult } from '../types/api';
+import { EmailMetadata } from './mimeDecoder';
+
+/**
+ * Splits a pasted email thread into its messages.
+ * Mail clients quote earlier messages under a block of From:/Sent:/To:/Subject: lines,
+ * so each such block starts a new message; the text above the first block is the newest reply.
+ */
+
+export interface ThreadMessage {
+  /** Header values from the block above the message; empty for the text before the first block */
+  metadata: EmailMetadata;
+  /** The message body, without its header block */
+  text: string;
+  /** Offset of the body in the pasted content */
+  offset: number;
+}
+
+const HEADER_LINE = /^[ \t]*(From|Sent|Date|To|Cc|Bcc|Subject):[ \t]*(.*)$/i;
+const SEPARATOR_LINE = /^[ \t]*-{2,}[ \t]*(Original Message|Forwarded message)[ \t]*-{2,}[ \t]*$/i;
+
+export interface FieldConflict {
+  name: string;
+  /** Each message's value, by index into the thread; messages without the field are left out */
+  values: Array<{ messageIndex: number; value: string }>;
+}
+
+interface HeaderBlock {
+  /** Offset where the block (or the separator line above it) starts */
+  start: number;
+  /** Offset just past the block's last line break */
+  end: number;
+  metadata: EmailMetadata;
+}
+
+interface Line {
+  text: string;
+  start: number;
+  /** Offset just past the line's line break */
+  end: number;
+}
+
+function splitLines(content: string): Line[] {
+  const lines: Line[] = [];
+  const finder = /[^\n]*(\n|$)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = finder.exec(content)) !== null && match.index < content.length) {
+    lines.push({ text: match[0].replace(/\r?\n$/, ''), start: match.index, end: match.index + match[0].length });
+  }
+
+  return lines;
+}
+
+function readHeaderBlock(lines: Line[], first: number): { block: HeaderBlock; next: number } | null {
+  const headers: Record<string, string> = {};
+  let index = first;
+
+  while (index < lines.length) {
+    const header = HEADER_LINE.exec(lines[index].text);
+    if (!header) {
+      break;
+    }
+    const name = header[1].toLowerCase();
+    if (!(name in headers)) {
+      headers[name] = header[2].trim();
+    }
+    index++;
+  }
+
+  // "From:" on its own is too common in ordinary text to mark a message
+  const otherHeaders = ['sent', 'date', 'to', 'subject'].filter(name => name in headers);
+  if (!headers.from || otherHeaders.length === 0) {
+    return null;
+  }
+
+  const hasSeparator = first > 0 && SEPARATOR_LINE.test(lines[first - 1].text);
+  return {
+    block: {
+      start: lines[hasSeparator ? first - 1 : first].start,
+      end: lines[index - 1].end,
+      metadata: {
+        from: headers.from,
+        to: headers.to,
+        subject: headers.subject,
+        date: headers.sent || headers.date
+      }
+    },
+    next: index
+  };
+}
+
+function findHeaderBlocks(content: string): HeaderBlock[] {
+  const lines = splitLines(content);
+  const blocks: HeaderBlock[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const found = /^[ \t]*From:/i.test(lines[index].text) ? readHeaderBlock(lines, index) : null;
+    if (found) {
+      blocks.push(found.block);
+      index = found.next;
+    } else {
+      index++;
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Splits content into messages in the order they appear; a single message when no header blocks are found.
+ * Empty text above the first header block (a forwarded email pasted as-is) is dropped.
+ */
+export function splitThread(content: string): ThreadMessage[] {
+  const blocks = findHeaderBlocks(content);
+  const messages: ThreadMessage[] = [];
+
+  const leading = content.substring(0, blocks.length > 0 ? blocks[0].start : content.length);
+  if (blocks.length === 0 || leading.trim()) {
+    messages.push({ metadata: {}, text: leading, offset: 0 });
+  }
+
+  blocks.forEach((block, index) => {
+    const bodyEnd = index + 1 < blocks.length ? blocks[index + 1].start : content.length;
+    messages.push({ metadata: block.metadata, text: content.substring(block.end, bodyEnd), offset: block.end });
+  });
+
+  return messages;
+}
+
+/**
+ * Tagged fields given different values in different messages.
+ * A whole-thread parse keeps only the last of these, so the others would otherwise be lost without notice.
+ */
+export function findFieldConflicts(results: Array<ParseResult | null>): FieldConflict[] {
+  const byName = new Map<string, FieldConflict>();
+
+  results.forEach((result, messageIndex) => {
+    Object.entries(result?.taggedFields || {}).forEach(([name, value]) => {
+      const conflict = byName.get(name) || { name, values: [] };
+      conflict.values.push({ messageIndex, value });
+      byName.set(name, conflict);
+    });
+  });
+
+  return Array.from(byName.values())
+    .filter(conflict => new Set(conflict.values.map(entry => entry.value)).size > 1);
+}
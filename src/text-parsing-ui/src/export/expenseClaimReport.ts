@@ -0,0 +1,130 @@
+import { formatCurrency } from '../utils/formatting';
+import { findFieldValue } from '../utils/parseResultFields';
+import { ExportEntry } from './resultExport';
+
+/**
+ * Builds a standalone, print-styled HTML expense claim that the browser can save as PDF
+ */
+
+const REPORT_STYLES = `
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #1f2933; margin: 32px; }
+  h1 { font-size: 22px; margin: 0 0 4px 0; }
+  h2 { font-size: 16px; margin: 0 0 8px 0; }
+  .meta { color: #616e7c; font-size: 12px; margin: 0 0 24px 0; }
+  .claim { border: 1px solid #cbd2d9; border-radius: 6px; padding: 16px; margin-bottom: 16px; page-break-inside: avoid; }
+  .claim.invalid { border-color: #e12d39; }
+  .status { font-size: 12px; font-weight: 600; }
+  .status.valid { color: #0e7c3a; }
+  .status.invalid { color: #a61b1b; }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; margin-top: 8px; }
+  th, td { text-align: left; padding: 4px 8px; border-bottom: 1px solid #e4e7eb; }
+  th { width: 40%; color: #52606d; font-weight: 600; }
+  td.amount { text-align: right; font-family: monospace; }
+  .errors { color: #a61b1b; font-size: 12px; }
+  .summary th { width: auto; }
+  @media print { body { margin: 0; } .claim { border-color: #9aa5b1; } }
+`;
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function fieldRows(entry: ExportEntry): string {
+  const fields: [string, string][] = [];
+  for (const block of entry.result.xmlBlocks || []) {
+    for (const [name, value] of Object.entries(block.fields)) {
+      fields.push([`${block.tagName} / ${name}`, value]);
+    }
+  }
+  for (const [name, value] of Object.entries(entry.result.taggedFields || {})) {
+    fields.push([name, value]);
+  }
+
+  return fields
+    .map(([name, value]) => `<tr><th>${escapeHtml(name)}</th><td>${escapeHtml(value)}</td></tr>`)
+    .join('');
+}
+
+function amountRows(entry: ExportEntry): string {
+  const calculations = entry.result.calculations;
+  if (!calculations) {
+    return '<tr><th>Amounts</th><td>No calculations available</td></tr>';
+  }
+
+  return [
+    ['Total (Excluding Tax)', calculations.totalExcludingTax],
+    [`${calculations.taxName} (${calculations.taxRate}%)`, calculations.taxAmount],
+    ['Total (Including Tax)', calculations.totalIncludingTax]
+  ]
+    .map(([label, amount]) =>
+      `<tr><th>${escapeHtml(String(label))}</th><td class="amount">${escapeHtml(formatCurrency(amount as number, calculations.currency))}</td></tr>`)
+    .join('');
+}
+
+function claimSection(entry: ExportEntry, index: number): string {
+  const { result } = entry;
+  const heading = entry.metadata?.subject || entry.fileName || `Claim ${index + 1}`;
+  const costCentre = findFieldValue(result, 'cost_centre');
+  const details = [
+    entry.fileName && `File: ${entry.fileName}`,
+    entry.metadata?.from && `From: ${entry.metadata.from}`,
+    entry.metadata?.date && `Date: ${entry.metadata.date}`,
+    costCentre && `Cost centre: ${costCentre}`
+  ].filter(Boolean) as string[];
+
+  return `
+    <section class="claim ${result.isValid ? 'valid' : 'invalid'}">
+      <h2>${escapeHtml(heading)}</h2>
+      <p class="status ${result.isValid ? 'valid' : 'invalid'}">${result.isValid ? 'Valid' : 'Invalid - not ready to submit'}</p>
+      ${details.length > 0 ? `<p class="meta">${details.map(escapeHtml).join(' &middot; ')}</p>` : ''}
+      ${result.errors?.length ? `<p class="errors">${result.errors.map(escapeHtml).join('<br>')}</p>` : ''}
+      <table>${fieldRows(entry)}${amountRows(entry)}</table>
+    </section>`;
+}
+
+function summarySection(entries: ExportEntry[]): string {
+  const valid = entries.filter(entry => entry.result.isValid && entry.result.calculations);
+  // Claims in different currencies are totalled separately
+  const currencies = Array.from(new Set(valid.map(entry => entry.result.calculations!.currency)));
+
+  const currencyRows = (currency: string): string => {
+    const inCurrency = valid.filter(entry => entry.result.calculations!.currency === currency);
+    // Sum in cents so totals are not thrown off by floating point drift
+    const sum = (pick: (entry: ExportEntry) => number) =>
+      formatCurrency(inCurrency.reduce((total, entry) => total + Math.round(pick(entry) * 100), 0) / 100, currency);
+    const suffix = currencies.length > 1 ? ` (${currency})` : '';
+
+    return `
+        <tr><th>Total (Excluding Tax)${suffix}</th><td class="amount">${sum(e => e.result.calculations!.totalExcludingTax)}</td></tr>
+        <tr><th>Tax${suffix}</th><td class="amount">${sum(e => e.result.calculations!.taxAmount)}</td></tr>
+        <tr><th>Total (Including Tax)${suffix}</th><td class="amount">${sum(e => e.result.calculations!.totalIncludingTax)}</td></tr>`;
+  };
+
+  return `
+    <section class="claim summary">
+      <h2>Summary of ${valid.length} valid ${valid.length === 1 ? 'claim' : 'claims'}</h2>
+      <table>${currencies.map(currencyRows).join('')}
+      </table>
+    </section>`;
+}
+
+export function buildExpenseClaimHtml(entries: ExportEntry[], generatedAt: Date = new Date()): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Expense Claim</title>
+  <style>${REPORT_STYLES}</style>
+</head>
+<body>
+  <h1>Expense Claim</h1>
+  <p class="meta">Generated ${escapeHtml(generatedAt.toLocaleString('en-NZ'))}</p>
+  ${entries.map(claimSection).join('')}
+  ${entries.length > 1 ? summarySection(entries) : ''}
+</body>
+</html>`;
+}
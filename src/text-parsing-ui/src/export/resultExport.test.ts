@@ -0,0 +1,116 @@
+import { buildExpenseClaimHtml } from './expenseClaimReport';
+import { exportBaseName, toCsvExport, toJsonExport } from './resultExport';
+import { ParseResult } from '../types/api';
+
+const expenseResult: ParseResult = {
+  xmlBlocks: [
+    {
+      tagName: 'expense',
+      fields: { cost_centre: 'DEV632', total: '35,000', payment_method: 'personal card' },
+      rawXml: '<expense>...</expense>'
+    }
+  ],
+  taggedFields: { vendor: 'Seaside Steakhouse, Wellington' },
+  calculations: { totalIncludingTax: 35000, taxAmount: 4565.22, totalExcludingTax: 30434.78, taxRate: 15, taxName: 'GST', currency: 'NZD', jurisdiction: 'NZ' },
+  isValid: true,
+  errors: [],
+  errorDetails: []
+};
+
+const invalidResult: ParseResult = {
+  xmlBlocks: [],
+  taggedFields: { description: 'Team "end of project" dinner', cost_centre: 'UNKNOWN' },
+  calculations: null,
+  isValid: false,
+  errors: ['Missing required <total> tag'],
+  errorDetails: []
+};
+
+describe('result export', () => {
+  test('exports a single result as the ParseResult JSON', () => {
+    expect(JSON.parse(toJsonExport([{ result: expenseResult, fileName: 'claim.eml' }]))).toEqual(expenseResult);
+  });
+
+  test('exports a batch as JSON tagged with file names', () => {
+    const exported = JSON.parse(toJsonExport([
+      { result: expenseResult, fileName: 'a.txt' },
+      { result: invalidResult, fileName: 'b.txt', source: 'local' }
+    ]));
+
+    expect(exported).toHaveLength(2);
+    expect(exported[1]).toMatchObject({ fileName: 'b.txt', source: 'local', isValid: false });
+  });
+
+  test('flattens a batch into CSV rows that share the union of columns', () => {
+    const csv = toCsvExport([
+      { result: expenseResult, fileName: 'a.txt' },
+      { result: invalidResult, fileName: 'b.txt' }
+    ]);
+
+    expect(csv.split('\r\n')).toEqual([
+      'file,is_valid,errors,total_including_tax,tax_amount,total_excluding_tax,tax_rate,tax_name,currency,'
+        + 'tagged.vendor,expense.cost_centre,expense.total,expense.payment_method,tagged.description,tagged.cost_centre',
+      'a.txt,true,,35000,4565.22,30434.78,15,GST,NZD,"Seaside Steakhouse, Wellington",DEV632,"35,000",personal card,,',
+      'b.txt,false,Missing required <total> tag,,,,,,,,,,,"Team ""end of project"" dinner",UNKNOWN',
+      ''
+    ]);
+  });
+
+  test('neutralises values a spreadsheet would run as formulas', () => {
+    const csv = toCsvExport([{
+      result: {
+        ...invalidResult,
+        taggedFields: { vendor: '=HYPERLINK("http://evil.example","Click")', description: '@SUM(A1:A2)', cost_centre: '-2+3', note: '\tcmd' }
+      }
+    }]);
+
+    expect(csv.split('\r\n')[1]).toBe(
+      'false,Missing required <total> tag,,,,,"\'=HYPERLINK(""http://evil.example"",""Click"")",\'@SUM(A1:A2),\'-2+3,\'\tcmd'
+    );
+  });
+
+  test('keeps negative amounts as numbers', () => {
+    const csv = toCsvExport([{
+      result: {
+        ...invalidResult,
+        taggedFields: { total: '-100', adjustment: '+2.50' },
+        calculations: { totalIncludingTax: -100, taxAmount: -13.04, totalExcludingTax: -86.96, taxRate: 15, taxName: 'GST', currency: 'NZD', jurisdiction: 'NZ' }
+      }
+    }]);
+
+    expect(csv.split('\r\n')[1]).toBe('false,Missing required <total> tag,-100,-13.04,-86.96,15,GST,NZD,-100,+2.50');
+  });
+
+  test('numbers repeated blocks of the same tag', () => {
+    const csv = toCsvExport([{
+      result: {
+        ...expenseResult,
+        xmlBlocks: [
+          { tagName: 'expense', fields: { total: '10' }, rawXml: '' },
+          { tagName: 'expense', fields: { total: '20' }, rawXml: '' }
+        ]
+      }
+    }]);
+
+    expect(csv.split('\r\n')[0]).toContain('expense.total,expense[2].total');
+    expect(csv.split('\r\n')[0]).not.toContain('file');
+  });
+
+  test('builds a printable claim with escaped values and a batch summary', () => {
+    const html = buildExpenseClaimHtml([
+      { result: expenseResult, fileName: 'a.txt', metadata: { subject: 'Team dinner' } },
+      { result: invalidResult, fileName: 'b.txt' }
+    ]);
+
+    expect(html).toContain('<h2>Team dinner</h2>');
+    expect(html).toContain('GST (15%)');
+    expect(html).toContain('Missing required &lt;total&gt; tag');
+    expect(html).toContain('Summary of 1 valid claim');
+    expect(html).toContain('$4,565.22');
+  });
+
+  test('derives download names from source files', () => {
+    expect(exportBaseName('Team dinner booking.eml')).toBe('Team-dinner-booking');
+    expect(exportBaseName(undefined)).toBe('parse-result');
+  });
+});
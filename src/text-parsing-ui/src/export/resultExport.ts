@@ -0,0 +1,120 @@
+import { EmailMetadata } from '../email/mimeDecoder';
+import { ParseResult, ResultSource } from '../types/api';
+
+/**
+ * Serialisers for downloading parse results as JSON or CSV
+ */
+
+export interface ExportEntry {
+  result: ParseResult;
+  fileName?: string;
+  source?: ResultSource;
+  metadata?: EmailMetadata | null;
+}
+
+const BASE_COLUMNS = [
+  'is_valid',
+  'errors',
+  'total_including_tax',
+  'tax_amount',
+  'total_excluding_tax',
+  'tax_rate'
+];
+
+/**
+ * A single result exports as the ParseResult itself; several export as an array tagged with their file names
+ */
+export function toJsonExport(entries: ExportEntry[]): string {
+  if (entries.length === 1) {
+    return JSON.stringify(entries[0].result, null, 2);
+  }
+
+  return JSON.stringify(
+    entries.map(entry => ({ fileName: entry.fileName ?? null, source: entry.source ?? 'api', ...entry.result })),
+    null,
+    2
+  );
+}
+
+/**
+ * Flattens a result into named columns.
+ * Tagged fields become "tagged.<name>"; block fields become "<tag>.<field>", with
+ * repeated blocks of the same tag numbered from the second one ("expense[2].total").
+ */
+export function flattenResult(result: ParseResult): Record<string, string> {
+  const row: Record<string, string> = {
+    is_valid: result.isValid ? 'true' : 'false',
+    errors: (result.errors || []).join('; ')
+  };
+
+  if (result.calculations) {
+    row.total_including_tax = String(result.calculations.totalIncludingTax);
+    row.tax_amount = String(result.calculations.taxAmount);
+    row.total_excluding_tax = String(result.calculations.totalExcludingTax);
+    row.tax_rate = String(result.calculations.taxRate);
+    row.tax_name = result.calculations.taxName;
+    row.currency = result.calculations.currency;
+  }
+
+  for (const [name, value] of Object.entries(result.taggedFields || {})) {
+    row[`tagged.${name}`] = value;
+  }
+
+  const seenTags: Record<string, number> = {};
+  for (const block of result.xmlBlocks || []) {
+    const occurrence = (seenTags[block.tagName] = (seenTags[block.tagName] || 0) + 1);
+    const prefix = occurrence === 1 ? block.tagName : `${block.tagName}[${occurrence}]`;
+    for (const [name, value] of Object.entries(block.fields)) {
+      row[`${prefix}.${name}`] = value;
+    }
+  }
+
+  return row;
+}
+
+// Values come from email text; a spreadsheet would run a cell starting with one of these as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// Signed numbers such as refunds are not formulas, and quoting them would turn them into text
+const isNumber = (value: string) => value.trim() !== '' && Number.isFinite(Number(value));
+
+function escapeCsvValue(value: string): string {
+  const text = FORMULA_PREFIX.test(value) && !isNumber(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Builds an RFC 4180 CSV with one row per entry. Columns are the union of every
+ * entry's fields, so a batch with differing tags still lines up.
+ */
+export function toCsvExport(entries: ExportEntry[]): string {
+  const includeFileName = entries.some(entry => entry.fileName);
+  const rows = entries.map(entry => {
+    const row = flattenResult(entry.result);
+    return includeFileName ? { file: entry.fileName ?? '', ...row } : row;
+  });
+
+  const columns = includeFileName ? ['file', ...BASE_COLUMNS] : [...BASE_COLUMNS];
+  for (const row of rows) {
+    for (const column of Object.keys(row)) {
+      if (!columns.includes(column)) {
+        columns.push(column);
+      }
+    }
+  }
+
+  const lines = [
+    columns.map(escapeCsvValue).join(','),
+    ...rows.map(row => columns.map(column => escapeCsvValue(row[column] ?? '')).join(','))
+  ];
+
+  return lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * Turns a source file name into a download base name, e.g. "booking.eml" -> "booking"
+ */
+export function exportBaseName(fileName?: string): string {
+  const base = (fileName || '').replace(/\.[^.]+$/, '').replace(/[^\w.-]+/g, '-').replace(/^-+|-+$/g, '');
+  return base || 'parse-result';
+}
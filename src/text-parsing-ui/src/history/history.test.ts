@@ -0,0 +1,66 @@
+import { HistoryEntry, MAX_HISTORY_ENTRIES, MemoryHistoryStore } from './historyStore';
+import { matchesHistoryQuery } from './historySearch';
+import { diffResults } from './resultDiff';
+import { ParseResult } from '../types/api';
+
+const result = (overrides: Partial<ParseResult> = {}): ParseResult => ({
+  xmlBlocks: [{ tagName: 'expense', fields: { cost_centre: 'DEV632', total: '115' }, rawXml: '' }],
+  taggedFields: { vendor: 'Seaside Steakhouse', date: '27 April 2022' },
+  calculations: { totalIncludingTax: 115, taxAmount: 15, totalExcludingTax: 100, taxRate: 15, taxName: 'GST', currency: 'NZD', jurisdiction: 'NZ' },
+  isValid: true,
+  errors: [],
+  errorDetails: [],
+  ...overrides
+});
+
+const entry = (overrides: Partial<HistoryEntry> = {}): HistoryEntry => ({
+  id: 1,
+  inputText: '<total>115</total>',
+  result: result(),
+  errors: [],
+  source: 'api',
+  createdAt: '2026-03-05T09:30:00.000Z',
+  ...overrides
+});
+
+describe('parse history', () => {
+  test('memory store lists newest first and keeps only the most recent runs', async () => {
+    const store = new MemoryHistoryStore();
+    for (let i = 0; i < MAX_HISTORY_ENTRIES + 2; i++) {
+      await store.add({ ...entry(), createdAt: new Date(Date.UTC(2026, 0, 1, 0, 0, i)).toISOString() });
+    }
+
+    const entries = await store.list();
+    expect(entries).toHaveLength(MAX_HISTORY_ENTRIES);
+    expect(entries[0].createdAt).toBe('2026-01-01T00:03:21.000Z');
+    expect(entries[0].id).toBe(MAX_HISTORY_ENTRIES + 2);
+  });
+
+  test.each([
+    ['seaside', true],
+    ['dev632', true],
+    ['april 2022', true],
+    ['2026-03-05', true],
+    ['seaside dev632', true],
+    ['seaside OPS', false],
+    ['', true]
+  ])('search "%s" matches: %s', (query, expected) => {
+    expect(matchesHistoryQuery(entry(), query)).toBe(expected);
+  });
+
+  test('diffs two runs field by field', () => {
+    const before = result();
+    const after = result({
+      taggedFields: { vendor: 'Harbourside Grill' },
+      xmlBlocks: [{ tagName: 'expense', fields: { cost_centre: 'DEV632', total: '115', payment_method: 'card' }, rawXml: '' }]
+    });
+
+    const changes = diffResults(before, after).filter(row => row.change !== 'unchanged');
+
+    expect(changes).toEqual([
+      { field: 'tagged.vendor', before: 'Seaside Steakhouse', after: 'Harbourside Grill', change: 'changed' },
+      { field: 'tagged.date', before: '27 April 2022', after: undefined, change: 'removed' },
+      { field: 'expense.payment_method', before: undefined, after: 'card', change: 'added' }
+    ]);
+  });
+});
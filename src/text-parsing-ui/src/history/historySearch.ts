@@ -0,0 +1,39 @@
+import { findFieldValue } from '../utils/parseResultFields';
+import { HistoryEntry } from './historyStore';
+
+/**
+ * The values a history search looks at: vendor, cost centre, the extracted
+ * <date> field and the date the run was made (ISO and NZ formats)
+ */
+export function historySearchValues(entry: HistoryEntry): string[] {
+  const runDate = new Date(entry.createdAt);
+  const values = [
+    entry.createdAt.substring(0, 10),
+    runDate.toLocaleDateString('en-NZ'),
+    runDate.toLocaleDateString('en-NZ', { day: 'numeric', month: 'long', year: 'numeric' })
+  ];
+
+  if (entry.result) {
+    for (const field of ['vendor', 'cost_centre', 'date']) {
+      const value = findFieldValue(entry.result, field);
+      if (value) {
+        values.push(value);
+      }
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Every whitespace-separated term must appear (case-insensitively) in one of the searchable values
+ */
+export function matchesHistoryQuery(entry: HistoryEntry, query: string): boolean {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) {
+    return true;
+  }
+
+  const haystack = historySearchValues(entry).map(value => value.toLowerCase());
+  return terms.every(term => haystack.some(value => value.includes(term)));
+}
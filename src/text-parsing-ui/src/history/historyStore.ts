@@ -0,0 +1,135 @@
+import { ParseResult, ResultSource } from '../types/api';
+
+/**
+ * Persistence for past submissions.
+ * Runs are kept in IndexedDB so they survive reloads; where IndexedDB is unavailable
+ * (private browsing in some browsers, test environments) an in-memory store is used instead.
+ */
+
+export interface HistoryEntry {
+  id: number;
+  inputText: string;
+  result: ParseResult | null;
+  errors: string[];
+  source: ResultSource;
+  /** ISO 8601 timestamp of the submission */
+  createdAt: string;
+  fileName?: string;
+  /** Tax jurisdiction the run was made for; older entries without one were NZ */
+  jurisdiction?: string;
+}
+
+export type NewHistoryEntry = Omit<HistoryEntry, 'id'>;
+
+export interface HistoryStore {
+  /** False when entries only live for the current page session */
+  readonly persistent: boolean;
+  add(entry: NewHistoryEntry): Promise<HistoryEntry>;
+  /** All entries, newest first */
+  list(): Promise<HistoryEntry[]>;
+  remove(id: number): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export const MAX_HISTORY_ENTRIES = 200;
+
+const DB_NAME = 'text-parsing-history';
+const DB_VERSION = 1;
+const STORE_NAME = 'runs';
+
+const newestFirst = (a: HistoryEntry, b: HistoryEntry) =>
+  b.createdAt.localeCompare(a.createdAt) || b.id - a.id;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error || new Error('IndexedDB request failed'));
+  });
+}
+
+function openDatabase(factory: IDBFactory): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = factory.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+      store.createIndex('createdAt', 'createdAt');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error || new Error('Failed to open history database'));
+  });
+}
+
+class IndexedDbHistoryStore implements HistoryStore {
+  readonly persistent = true;
+  private database: Promise<IDBDatabase>;
+
+  constructor(factory: IDBFactory) {
+    this.database = openDatabase(factory);
+  }
+
+  private async objectStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.database;
+    return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+
+  async add(entry: NewHistoryEntry): Promise<HistoryEntry> {
+    const store = await this.objectStore('readwrite');
+    const id = await requestToPromise(store.add(entry));
+    await this.prune();
+    return { ...entry, id: Number(id) };
+  }
+
+  async list(): Promise<HistoryEntry[]> {
+    const store = await this.objectStore('readonly');
+    const entries = await requestToPromise(store.getAll() as IDBRequest<HistoryEntry[]>);
+    return entries.sort(newestFirst);
+  }
+
+  async remove(id: number): Promise<void> {
+    const store = await this.objectStore('readwrite');
+    await requestToPromise(store.delete(id));
+  }
+
+  async clear(): Promise<void> {
+    const store = await this.objectStore('readwrite');
+    await requestToPromise(store.clear());
+  }
+
+  private async prune(): Promise<void> {
+    const entries = await this.list();
+    for (const entry of entries.slice(MAX_HISTORY_ENTRIES)) {
+      await this.remove(entry.id);
+    }
+  }
+}
+
+export class MemoryHistoryStore implements HistoryStore {
+  readonly persistent = false;
+  private entries: HistoryEntry[] = [];
+  private nextId = 1;
+
+  async add(entry: NewHistoryEntry): Promise<HistoryEntry> {
+    const saved = { ...entry, id: this.nextId++ };
+    this.entries = [saved, ...this.entries].sort(newestFirst).slice(0, MAX_HISTORY_ENTRIES);
+    return saved;
+  }
+
+  async list(): Promise<HistoryEntry[]> {
+    return [...this.entries];
+  }
+
+  async remove(id: number): Promise<void> {
+    this.entries = this.entries.filter(entry => entry.id !== id);
+  }
+
+  async clear(): Promise<void> {
+    this.entries = [];
+  }
+}
+
+export function createHistoryStore(): HistoryStore {
+  if (typeof indexedDB === 'undefined') {
+    return new MemoryHistoryStore();
+  }
+  return new IndexedDbHistoryStore(indexedDB);
+}
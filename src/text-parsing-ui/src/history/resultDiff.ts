@@ -0,0 +1,31 @@
+import { flattenResult } from '../export/resultExport';
+import { ParseResult } from '../types/api';
+
+export type FieldChange = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface FieldDiff {
+  field: string;
+  before?: string;
+  after?: string;
+  change: FieldChange;
+}
+
+/**
+ * Compares two runs field by field using the same flattened names as the CSV export
+ * (e.g. "tagged.vendor", "expense.total", "tax_amount"). A missing result has no fields.
+ */
+export function diffResults(before: ParseResult | null, after: ParseResult | null): FieldDiff[] {
+  const left = before ? flattenResult(before) : {};
+  const right = after ? flattenResult(after) : {};
+  const fields = [...Object.keys(left), ...Object.keys(right).filter(field => !(field in left))];
+
+  return fields.map(field => {
+    const beforeValue = left[field];
+    const afterValue = right[field];
+    const change: FieldChange = beforeValue === undefined ? 'added'
+      : afterValue === undefined ? 'removed'
+      : beforeValue === afterValue ? 'unchanged' : 'changed';
+
+    return { field, before: beforeValue, after: afterValue, change };
+  });
+}
@@ -0,0 +1,11 @@
+import { useContext } from 'react';
+import { ApiClientContext, TextParsingClient } from '../services/apiClient';
+
+/**
+ * The parsing client provided by the nearest ApiClientProvider (the real API by default)
+ */
+export function useApiClient(): TextParsingClient {
+  return useContext(ApiClientContext);
+}
+
+export default useApiClient;
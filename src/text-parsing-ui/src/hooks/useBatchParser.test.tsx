@@ -0,0 +1,82 @@
+import React from 'react';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { BATCH_CONCURRENCY, useBatchParser } from './useBatchParser';
+import { ApiClientProvider } from '../services/apiClient';
+import { createFakeBackend } from '../services/fakeBackend';
+import { parseText as parseLocally } from '../parsing/textParsing';
+import { ParseRequest } from '../types/api';
+
+const claimFile = (index: number) => new File([`<total>${index}00</total>`], `claim-${index}.txt`, { type: 'text/plain' });
+
+describe('batch parser', () => {
+  test('keeps to one concurrency limit across separate drops', async () => {
+    let inFlight = 0;
+    let mostInFlight = 0;
+    const pending: Array<() => void> = [];
+    const backend = createFakeBackend({
+      onParse: async ({ content, jurisdiction }: ParseRequest) => {
+        inFlight++;
+        mostInFlight = Math.max(mostInFlight, inFlight);
+        await new Promise<void>(resolve => pending.push(resolve));
+        inFlight--;
+        return parseLocally(content, jurisdiction);
+      }
+    });
+    const wrapper = ({ children }: { children: React.ReactNode }) => (
+      <ApiClientProvider value={backend}>{children}</ApiClientProvider>
+    );
+    const { result } = renderHook(() => useBatchParser(true, 'NZ'), { wrapper });
+
+    let firstDrop!: Promise<void>;
+    let secondDrop!: Promise<void>;
+    act(() => {
+      firstDrop = result.current.addFiles([1, 2, 3].map(claimFile));
+    });
+    act(() => {
+      secondDrop = result.current.addFiles([4, 5, 6].map(claimFile));
+    });
+
+    // Let every file be read and the first requests go out, then release them one at a time
+    while (backend.requests.length < 6 || pending.length > 0) {
+      await waitFor(() => expect(pending.length).toBeGreaterThan(0));
+      await act(async () => {
+        pending.shift()!();
+      });
+    }
+    await act(async () => {
+      await Promise.all([firstDrop, secondDrop]);
+    });
+
+    expect(mostInFlight).toBe(BATCH_CONCURRENCY);
+    expect(result.current.items.map(item => item.status)).toEqual(Array(6).fill('done'));
+    expect(result.current.isRunning).toBe(false);
+  });
+
+  test('cancels running and queued files, and starts a new run for later drops', async () => {
+    const backend = createFakeBackend({ latencyMs: 60000 });
+    const wrapper = ({ children }: { children: React.ReactNode }) => (
+      <ApiClientProvider value={backend}>{children}</ApiClientProvider>
+    );
+    const { result } = renderHook(() => useBatchParser(true, 'NZ'), { wrapper });
+
+    let drop!: Promise<void>;
+    act(() => {
+      drop = result.current.addFiles([1, 2, 3, 4, 5].map(claimFile));
+    });
+    await waitFor(() => expect(backend.requests).toHaveLength(BATCH_CONCURRENCY));
+
+    await act(async () => {
+      result.current.cancel();
+      await drop;
+    });
+    expect(result.current.items.map(item => item.status)).toEqual(Array(5).fill('cancelled'));
+    expect(backend.requests).toHaveLength(BATCH_CONCURRENCY);
+    expect(result.current.isRunning).toBe(false);
+
+    backend.configure({ latencyMs: 0 });
+    await act(async () => {
+      await result.current.addFiles([claimFile(6)]);
+    });
+    expect(result.current.items[5].status).toBe('done');
+  });
+});
@@ -0,0 +1,137 @@
+import { useCallback, useRef, useState } from 'react';
+import { importTextFile } from '../email/emailImport';
+import { EmailMetadata } from '../email/mimeDecoder';
+import { parseWithFallback } from '../services/parseWithFallback';
+import { useApiClient } from './useApiClient';
+import { ParseResult, ResultSource } from '../types/api';
+import { createLimiter } from '../utils/concurrency';
+
+export const BATCH_CONCURRENCY = 3;
+
+export type BatchItemStatus = 'queued' | 'parsing' | 'done' | 'failed' | 'cancelled';
+
+export interface BatchItem {
+  id: number;
+  fileName: string;
+  status: BatchItemStatus;
+  text: string;
+  result: ParseResult | null;
+  errors: string[];
+  source: ResultSource;
+  metadata: EmailMetadata | null;
+}
+
+export interface BatchParserState {
+  items: BatchItem[];
+  isRunning: boolean;
+  addFiles: (files: FileList | File[]) => Promise<void>;
+  /** Stops every running and queued file; files dropped afterwards start a new run */
+  cancel: () => void;
+  clear: () => void;
+}
+
+/**
+ * Parses many dropped files, sending at most BATCH_CONCURRENCY requests to the API at once.
+ * Files from every drop share one queue, so dropping more while a batch runs does not raise the limit.
+ */
+export function useBatchParser(
+  apiConnected: boolean | null,
+  jurisdiction: string,
+  onApiUnreachable?: () => void
+): BatchParserState {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [runningCount, setRunningCount] = useState(0);
+  const nextIdRef = useRef(1);
+  const limiterRef = useRef(createLimiter(BATCH_CONCURRENCY));
+  // Shared by every drop until the batch is cancelled
+  const controllerRef = useRef<AbortController | null>(null);
+  const client = useApiClient();
+
+  const updateItem = useCallback((id: number, patch: Partial<BatchItem>) => {
+    setItems(current => current.map(item => (item.id === id ? { ...item, ...patch } : item)));
+  }, []);
+
+  const addFiles = useCallback(async (files: FileList | File[]) => {
+    const fileList = Array.from(files);
+    if (fileList.length === 0) {
+      return;
+    }
+
+    const queued = fileList.map(file => ({
+      file,
+      item: {
+        id: nextIdRef.current++,
+        fileName: file.name,
+        status: 'queued' as BatchItemStatus,
+        text: '',
+        result: null,
+        errors: [],
+        source: 'api' as ResultSource,
+        metadata: null
+      }
+    }));
+
+    const controller = controllerRef.current ?? (controllerRef.current = new AbortController());
+    const { signal } = controller;
+
+    setItems(current => [...current, ...queued.map(entry => entry.item)]);
+    setRunningCount(count => count + 1);
+
+    try {
+      await Promise.all(queued.map(({ file, item }) => limiterRef.current.run(async () => {
+        if (signal.aborted) {
+          updateItem(item.id, { status: 'cancelled' });
+          return;
+        }
+        updateItem(item.id, { status: 'parsing' });
+
+        try {
+          const imported = await importTextFile(file);
+          const outcome = await parseWithFallback(client, imported.text, {
+            apiAvailable: apiConnected !== false,
+            jurisdiction,
+            signal
+          });
+          // The local engine does not watch the signal, so a cancel can land after it finished
+          if (signal.aborted) {
+            updateItem(item.id, { status: 'cancelled' });
+            return;
+          }
+
+          if (outcome.apiUnreachable) {
+            onApiUnreachable?.();
+          }
+
+          updateItem(item.id, {
+            status: outcome.result ? 'done' : 'failed',
+            text: imported.text,
+            metadata: imported.metadata,
+            result: outcome.result,
+            errors: outcome.errors,
+            source: outcome.source
+          });
+        } catch (error) {
+          updateItem(item.id, signal.aborted ? { status: 'cancelled' } : {
+            status: 'failed',
+            errors: [error instanceof Error ? error.message : `Failed to read ${file.name}`]
+          });
+        }
+      })));
+    } finally {
+      setRunningCount(count => count - 1);
+    }
+  }, [apiConnected, client, jurisdiction, onApiUnreachable, updateItem]);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+  }, []);
+
+  const clear = useCallback(() => {
+    setItems([]);
+  }, []);
+
+  return { items, isRunning: runningCount > 0, addFiles, cancel, clear };
+}
+
+export default useBatchParser;
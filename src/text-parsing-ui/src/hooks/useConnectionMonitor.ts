@@ -0,0 +1,128 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useApiClient } from './useApiClient';
+import { ConnectionCheck, ConnectionStatus } from '../types/api';
+
+export const HEALTHY_POLL_INTERVAL_MS = 30000;
+export const DEGRADED_POLL_INTERVAL_MS = 10000;
+export const OFFLINE_RETRY_BASE_MS = 2000;
+export const OFFLINE_RETRY_MAX_MS = 60000;
+
+export type MonitorStatus = 'checking' | ConnectionStatus;
+
+export interface ConnectionMonitorState {
+  status: MonitorStatus;
+  message: string;
+  latencyMs: number | null;
+  lastChecked: Date | null;
+}
+
+export interface ConnectionMonitor extends ConnectionMonitorState {
+  checkNow: () => void;
+}
+
+const INITIAL_STATE: ConnectionMonitorState = {
+  status: 'checking',
+  message: 'Checking API connection...',
+  latencyMs: null,
+  lastChecked: null
+};
+
+/**
+ * Works out how long to wait before the next health check.
+ * Healthy connections are polled slowly; while offline the retry delay
+ * doubles after each consecutive failure, up to a ceiling.
+ */
+export function getNextPollDelay(status: ConnectionStatus, consecutiveFailures: number): number {
+  switch (status) {
+    case 'connected':
+      return HEALTHY_POLL_INTERVAL_MS;
+    case 'degraded':
+      return DEGRADED_POLL_INTERVAL_MS;
+    case 'offline':
+      return Math.min(
+        OFFLINE_RETRY_BASE_MS * Math.pow(2, Math.max(consecutiveFailures - 1, 0)),
+        OFFLINE_RETRY_MAX_MS
+      );
+  }
+}
+
+/**
+ * Polls the API health endpoint and reports connected, degraded or offline.
+ * Reconnection is automatic; checkNow() forces an immediate check.
+ */
+export function useConnectionMonitor(): ConnectionMonitor {
+  const [state, setState] = useState<ConnectionMonitorState>(INITIAL_STATE);
+  const client = useApiClient();
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const failuresRef = useRef(0);
+  const inFlightRef = useRef(false);
+  const activeRef = useRef(true);
+
+  const check = useCallback(async () => {
+    if (inFlightRef.current) {
+      return;
+    }
+
+    inFlightRef.current = true;
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+
+    let result: ConnectionCheck;
+    try {
+      result = await client.testConnection();
+    } catch (error) {
+      result = {
+        connected: false,
+        status: 'offline',
+        message: 'Failed to connect to API server',
+        latencyMs: null,
+        checkedAt: new Date()
+      };
+    } finally {
+      inFlightRef.current = false;
+    }
+
+    if (!activeRef.current) {
+      return;
+    }
+
+    failuresRef.current = result.status === 'offline' ? failuresRef.current + 1 : 0;
+
+    setState({
+      status: result.status,
+      message: result.message,
+      latencyMs: result.latencyMs,
+      lastChecked: result.checkedAt
+    });
+
+    timerRef.current = setTimeout(check, getNextPollDelay(result.status, failuresRef.current));
+  }, [client]);
+
+  useEffect(() => {
+    activeRef.current = true;
+    check();
+
+    // The browser regaining network access is a good moment to retry straight away
+    const handleOnline = () => check();
+    window.addEventListener('online', handleOnline);
+
+    return () => {
+      activeRef.current = false;
+      window.removeEventListener('online', handleOnline);
+      if (timerRef.current) {
+        clearTimeout(timerRef.current);
+        timerRef.current = null;
+      }
+    };
+  }, [check]);
+
+  const checkNow = useCallback(() => {
+    check();
+  }, [check]);
+
+  return { ...state, checkNow };
+}
+
+export default useConnectionMonitor;
@@ -0,0 +1,75 @@
+import { useEffect, useState } from 'react';
+import { useApiClient } from './useApiClient';
+import { ResultSource, ValidationResult } from '../types/api';
+import { validateContent } from '../parsing/textParsing';
+
+export const VALIDATION_DEBOUNCE_MS = 500;
+
+export type LiveValidationStatus = 'idle' | 'validating' | 'valid' | 'invalid';
+
+export interface LiveValidationState {
+  status: LiveValidationStatus;
+  result: ValidationResult | null;
+  source: ResultSource;
+}
+
+const IDLE_STATE: LiveValidationState = { status: 'idle', result: null, source: 'api' };
+
+/**
+ * Validates content against the API as the user types.
+ * Requests are debounced, and any request still in flight is aborted
+ * as soon as the content changes so stale results never overwrite newer ones.
+ * If the API cannot be reached the content is checked by the local parsing engine instead,
+ * and while the connection monitor reports it offline (apiConnected is false) no request is sent at all.
+ */
+export function useLiveValidation(
+  content: string,
+  apiConnected: boolean | null = null,
+  delay: number = VALIDATION_DEBOUNCE_MS
+): LiveValidationState {
+  const [state, setState] = useState<LiveValidationState>(IDLE_STATE);
+  const client = useApiClient();
+
+  useEffect(() => {
+    if (!content.trim()) {
+      setState(IDLE_STATE);
+      return;
+    }
+
+    const controller = new AbortController();
+
+    const validateLocally = () => {
+      const result = validateContent(content);
+      setState({ status: result.isValid ? 'valid' : 'invalid', result, source: 'local' });
+    };
+
+    const timer = setTimeout(async () => {
+      if (apiConnected === false) {
+        validateLocally();
+        return;
+      }
+
+      setState(previous => ({ ...previous, status: 'validating' }));
+
+      try {
+        const result = await client.validateText(content, controller.signal);
+        if (!controller.signal.aborted) {
+          setState({ status: result.isValid ? 'valid' : 'invalid', result, source: 'api' });
+        }
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          validateLocally();
+        }
+      }
+    }, delay);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [apiConnected, client, content, delay]);
+
+  return state;
+}
+
+export default useLiveValidation;
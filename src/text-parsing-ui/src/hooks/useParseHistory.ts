@@ -0,0 +1,90 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  createHistoryStore,
+  HistoryEntry,
+  HistoryStore,
+  MemoryHistoryStore,
+  NewHistoryEntry
+} from '../history/historyStore';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('history');
+
+export interface ParseHistory {
+  entries: HistoryEntry[];
+  /** False when history is kept in memory only and will be lost on reload */
+  persistent: boolean;
+  addEntry: (entry: NewHistoryEntry) => Promise<HistoryEntry | null>;
+  /** Resolves false when the store could not delete the run */
+  removeEntry: (id: number) => Promise<boolean>;
+  /** Resolves false when the store could not delete the runs */
+  clearHistory: () => Promise<boolean>;
+}
+
+/**
+ * Loads saved runs on mount and keeps the list in sync as runs are added or removed.
+ * If IndexedDB refuses to open, history quietly drops to an in-memory store.
+ */
+export function useParseHistory(): ParseHistory {
+  const storeRef = useRef<HistoryStore | null>(null);
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [persistent, setPersistent] = useState<boolean>(false);
+
+  if (!storeRef.current) {
+    storeRef.current = createHistoryStore();
+  }
+
+  const refresh = useCallback(async () => {
+    try {
+      const loaded = await storeRef.current!.list();
+      setEntries(loaded);
+      setPersistent(storeRef.current!.persistent);
+    } catch (error) {
+      log.error('Failed to load parse history', { error });
+      storeRef.current = new MemoryHistoryStore();
+      setPersistent(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const addEntry = useCallback(async (entry: NewHistoryEntry) => {
+    try {
+      const saved = await storeRef.current!.add(entry);
+      await refresh();
+      return saved;
+    } catch (error) {
+      // History is a convenience - never let it break parsing
+      log.error('Failed to save parse history', { error });
+      return null;
+    }
+  }, [refresh]);
+
+  const removeEntry = useCallback(async (id: number) => {
+    try {
+      await storeRef.current!.remove(id);
+      await refresh();
+      return true;
+    } catch (error) {
+      log.error('Failed to delete parse history entry', { error, id });
+      return false;
+    }
+  }, [refresh]);
+
+  const clearHistory = useCallback(async () => {
+    try {
+      await storeRef.current!.clear();
+      await refresh();
+      return true;
+    } catch (error) {
+      log.error('Failed to clear parse history', { error });
+      return false;
+    }
+  }, [refresh]);
+
+  return { entries, persistent, addEntry, removeEntry, clearHistory };
+}
+
+export default useParseHistory;
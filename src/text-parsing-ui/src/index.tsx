@@ -2,18 +2,30 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import './index.css';
 import App from './App';
+import DemoModeBanner from './components/DemoModeBanner';
+import NetworkInspector from './components/NetworkInspector';
 import reportWebVitals from './reportWebVitals';
+import { ApiClientProvider, TextParsingClient } from './services/apiClient';
+import { createFakeBackend } from './services/fakeBackend';
+import { demoBackendOptions, isDemoMode } from './services/demoMode';
+import TextParsingApiService from './services/textParsingApi';
+import { webVitalsLog } from './services/webVitalsLog';
+
+const demoOptions = isDemoMode() ? demoBackendOptions() : null;
+const client: TextParsingClient = demoOptions ? createFakeBackend(demoOptions) : TextParsingApiService;
 
 const root = ReactDOM.createRoot(
   document.getElementById('root') as HTMLElement
 );
 root.render(
   <React.StrictMode>
-    <App />
+    <ApiClientProvider value={client}>
+      {demoOptions && <DemoModeBanner scenario={demoOptions.scenario} latencyMs={demoOptions.latencyMs} />}
+      <App />
+    </ApiClientProvider>
+    <NetworkInspector />
   </React.StrictMode>
 );
 
-// If you want to start measuring performance in your app, pass a function
-// to log results (for example: reportWebVitals(console.log))
-// or send to an analytics endpoint. Learn more: https://bit.ly/CRA-vitals
-reportWebVitals();
+// Metrics are shown in the network inspector (Ctrl+Alt+N). Learn more: https://bit.ly/CRA-vitals
+reportWebVitals(webVitalsLog.record);
@@ -0,0 +1,114 @@
+import { locateErrors, locationAt } from './errorLocations';
+import { parseText, validateContent } from './textParsing';
+import { ErrorDetail } from '../types/api';
+
+// Errors as the local engine reports them, located against the content they were raised for
+const validationErrors = (content: string) => {
+  const { errors, errorDetails } = validateContent(content);
+  return locateErrors(content, errors, errorDetails);
+};
+
+const parseErrors = (content: string) => {
+  const { errors, errorDetails } = parseText(content);
+  return locateErrors(content, errors, errorDetails);
+};
+
+describe('error locations', () => {
+  test('converts offsets into 1-based lines and columns', () => {
+    expect(locationAt('first\nsecond <a>', 14, 3)).toEqual({ line: 2, column: 9, offset: 14, length: 3 });
+  });
+
+  test('points at each unclosed tag', () => {
+    expect(validationErrors('Hello\n<expense><total>100</total>')).toEqual([
+      {
+        code: 'unclosed-tag',
+        severity: 'error',
+        message: 'Unclosed tag detected',
+        tagName: 'expense',
+        location: { line: 2, column: 1, offset: 6, length: 9 }
+      }
+    ]);
+  });
+
+  test('lists a message reported at several tags once, at the first of them', () => {
+    // The innermost unclosed tag is reported first
+    expect(validationErrors('<expense><vendor>Cafe')).toEqual([
+      {
+        code: 'unclosed-tag',
+        severity: 'error',
+        message: 'Unclosed tag detected',
+        tagName: 'vendor',
+        location: { line: 1, column: 10, offset: 9, length: 8 },
+        occurrences: 2
+      }
+    ]);
+  });
+
+  test('reports a stray closing tag where it appears', () => {
+    const [error] = validationErrors('<a>x</b></a>');
+    expect(error).toMatchObject({ tagName: 'b', location: { offset: 4, length: 4 } });
+  });
+
+  test('selects the tag a malformed block broke at', () => {
+    const content = '<expense><Total>50</total></expense>';
+    const malformed = validationErrors(content).find(error => typeof error !== 'string' && error.code === 'malformed-xml');
+
+    expect(malformed).toMatchObject({ tagName: 'expense', message: 'Malformed XML structure: expense' });
+    const { offset, length } = (malformed as { location: { offset: number; length: number } }).location;
+    expect(content.substr(offset, length)).toBe('</total>');
+  });
+
+  test('selects a stray less-than sign', () => {
+    const [error] = validationErrors('<expense><total>5 < 6</total></expense>');
+    expect(error).toMatchObject({ code: 'malformed-xml', location: { offset: 18, length: 1 } });
+  });
+
+  test('selects the value of an unparseable total', () => {
+    const [error] = parseErrors('<expense><total>TBC</total></expense>');
+    expect(error).toMatchObject({ code: 'invalid-total', tagName: 'total', location: { offset: 16, length: 3 } });
+  });
+
+  test('keeps rule errors that have no position', () => {
+    expect(parseErrors('<vendor>Cafe</vendor>')).toEqual([
+      { code: 'missing-required-field', severity: 'error', message: 'Missing required <total> tag', tagName: 'total' }
+    ]);
+    expect(validationErrors(' ')).toEqual([
+      { code: 'empty-content', severity: 'error', message: 'Content cannot be empty' }
+    ]);
+  });
+
+  test('takes the code and severity from the details, not the message', () => {
+    const warning: ErrorDetail = {
+      code: 'validation-warning',
+      severity: 'warning',
+      message: 'Reworded by a newer server',
+      tagName: 'cost_centre',
+      offset: null,
+      length: null
+    };
+
+    expect(locateErrors('<total>1</total>', [], [warning])).toEqual([
+      { code: 'validation-warning', severity: 'warning', message: 'Reworded by a newer server', tagName: 'cost_centre' }
+    ]);
+  });
+
+  test('leaves messages reported without details as plain strings', () => {
+    expect(locateErrors('<total>1</total>', ['Network Error'])).toEqual(['Network Error']);
+  });
+
+  test('keeps the messages that have no detail when others do', () => {
+    const detail: ErrorDetail = {
+      code: 'invalid-total',
+      severity: 'error',
+      message: 'Invalid total amount format',
+      tagName: 'total',
+      offset: null,
+      length: null
+    };
+
+    expect(locateErrors('<total>x</total>', ['Invalid total amount format', 'Rejected by the proxy'], [detail])).toEqual([
+      { code: 'invalid-total', severity: 'error', message: 'Invalid total amount format', tagName: 'total' },
+      'Rejected by the proxy'
+    ]);
+  });
+});
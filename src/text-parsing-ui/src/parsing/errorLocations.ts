@@ -0,0 +1,56 @@
+import { DisplayError, ErrorDetail, SourceLocation, StructuredError } from '../types/api';
+
+/**
+ * Turns the error details reported by the parser and validator (the API's or the local engine's)
+ * into errors the editor can point at. Offsets become lines and columns in the content the
+ * details were produced for.
+ */
+
+/**
+ * Converts an offset into a 1-based line and column
+ */
+export function locationAt(content: string, offset: number, length: number): SourceLocation {
+  const before = content.substring(0, offset);
+  const lineStart = before.lastIndexOf('\n') + 1;
+
+  return {
+    line: before.split('\n').length,
+    column: offset - lineStart + 1,
+    offset,
+    length
+  };
+}
+
+function structureError(content: string, detail: ErrorDetail): StructuredError {
+  const { code, severity, message, tagName, offset, length } = detail;
+  const error: StructuredError = { code, severity, message };
+
+  if (tagName) {
+    error.tagName = tagName;
+  }
+  if (offset !== null && length !== null) {
+    error.location = locationAt(content, offset, length);
+  }
+  return error;
+}
+
+/**
+ * The errors to display for a result, one per message: a message with details is shown with the
+ * first of them (and how many there were), and one without (a network failure, an older API
+ * version) stays a plain string. Details whose message is not among the errors, such as warnings,
+ * follow the errors.
+ */
+export function locateErrors(content: string, errors: string[], details: ErrorDetail[] = []): DisplayError[] {
+  const byMessage = new Map<string, StructuredError>();
+  details.forEach(detail => {
+    const existing = byMessage.get(detail.message);
+    if (existing) {
+      existing.occurrences = (existing.occurrences ?? 1) + 1;
+    } else {
+      byMessage.set(detail.message, structureError(content, detail));
+    }
+  });
+
+  const messages = Array.from(new Set([...errors, ...Array.from(byMessage.keys())]));
+  return messages.map(message => byMessage.get(message) ?? message);
+}
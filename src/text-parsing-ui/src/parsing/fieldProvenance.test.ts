@@ -0,0 +1,68 @@
+import { traceFieldSources } from './fieldProvenance';
+import { parseText } from './textParsing';
+import { FieldSource } from '../types/api';
+
+const spanOf = (content: string, source: FieldSource) =>
+  source.kind === 'extracted' || source.kind === 'overridden'
+    ? content.substr(source.location.offset, source.location.length)
+    : null;
+
+describe('field provenance', () => {
+  test('points block fields and loose tags at the elements they were read from', () => {
+    const content = 'Claim:\n<expense><total>115</total><vendor>Cafe</vendor></expense>\nPaid by <payment_method>card</payment_method>';
+    const provenance = traceFieldSources(content, parseText(content));
+
+    const [blockFields] = provenance.xmlBlocks;
+    expect(blockFields.map(field => [field.name, spanOf(content, field.source)])).toEqual([
+      ['total', '<total>115</total>'],
+      ['vendor', '<vendor>Cafe</vendor>']
+    ]);
+    expect(blockFields[0].source).toMatchObject({ location: { line: 2, column: 10 } });
+
+    const paymentMethod = provenance.taggedFields.find(field => field.name === 'payment_method')!;
+    expect(spanOf(content, paymentMethod.source)).toBe('<payment_method>card</payment_method>');
+  });
+
+  test('marks values filled in from field rules as defaulted', () => {
+    const content = '<total>20</total>';
+    const provenance = traceFieldSources(content, parseText(content));
+
+    expect(provenance.taggedFields).toEqual([
+      { name: 'total', value: '20', source: expect.objectContaining({ kind: 'extracted' }) },
+      { name: 'cost_centre', value: 'UNKNOWN', source: { kind: 'defaulted' } }
+    ]);
+  });
+
+  test('lists earlier duplicates as overridden by the last one', () => {
+    const content = '<total>10</total> then <total>12</total>';
+    const [first, last] = traceFieldSources(content, parseText(content)).taggedFields;
+
+    expect(first).toMatchObject({ name: 'total', value: '10', source: { kind: 'overridden' } });
+    expect(spanOf(content, first.source)).toBe('<total>10</total>');
+    expect(first.source).toMatchObject({ overriddenBy: { offset: 23 } });
+    expect(last).toMatchObject({ name: 'total', value: '12', source: { kind: 'extracted' } });
+  });
+
+  test('keeps offsets in the original text when blocks were removed before the tag', () => {
+    const content = '<a><b>x</b></a><vendor>Cafe</vendor>';
+    const [vendor] = traceFieldSources(content, parseText(content)).taggedFields;
+
+    expect(vendor.source).toMatchObject({ kind: 'extracted', location: { offset: 15, length: 21 } });
+  });
+
+  test('reports values that are no longer in the text as unknown', () => {
+    const result = parseText('<total>20</total>');
+    const [total] = traceFieldSources('<total>25</total>', result).taggedFields;
+
+    expect(total.source).toEqual({ kind: 'unknown' });
+  });
+
+  test('traces a result parsed from part of the content to locations in the whole content', () => {
+    const content = 'Use <vendor>Cafe</vendor>\nFrom: Ivan\nSubject: Lunch\n<vendor>Deli</vendor>';
+    const span = { offset: content.indexOf('<vendor>Deli'), length: 21 };
+    const [vendor] = traceFieldSources(content, parseText('<vendor>Deli</vendor>'), undefined, span).taggedFields;
+
+    expect(spanOf(content, vendor.source)).toBe('<vendor>Deli</vendor>');
+    expect(vendor.source).toMatchObject({ kind: 'extracted', location: { line: 4, column: 1 } });
+  });
+});
@@ -0,0 +1,75 @@
+import { FieldProvenance, ParseResult, TracedField } from '../types/api';
+import { locationAt } from './errorLocations';
+import { DEFAULT_VALIDATION_CONFIGURATION, ValidationConfiguration } from './validationRules';
+import { FieldOccurrence, findTaggedFieldOccurrences, locateXmlBlocks } from './xmlParsing';
+
+/**
+ * Maps every value in a parse result back to where it came from in the submitted text.
+ * The result itself only keeps the last value of each field, so the content is scanned again
+ * with the extraction rules to recover the elements behind each value and any duplicates they replaced.
+ */
+
+function traceFields(
+  content: string,
+  fields: Record<string, string>,
+  occurrences: FieldOccurrence[],
+  configuration: ValidationConfiguration
+): TracedField[] {
+  const traced: TracedField[] = [];
+  const location = (occurrence: FieldOccurrence) => locationAt(content, occurrence.offset, occurrence.length);
+
+  for (const [name, value] of Object.entries(fields)) {
+    const named = occurrences.filter(occurrence => occurrence.name === name);
+    const winner = named[named.length - 1];
+
+    if (winner && winner.value === value) {
+      for (const duplicate of named.slice(0, -1)) {
+        traced.push({
+          name,
+          value: duplicate.value,
+          source: { kind: 'overridden', location: location(duplicate), overriddenBy: location(winner) }
+        });
+      }
+      traced.push({ name, value, source: { kind: 'extracted', location: location(winner) } });
+      continue;
+    }
+
+    const isDefault = named.length === 0 && configuration.fieldRules.some(rule =>
+      rule.defaultValue !== undefined && rule.fieldName === name && rule.defaultValue === value);
+    traced.push({ name, value, source: { kind: isDefault ? 'defaulted' : 'unknown' } });
+  }
+
+  return traced;
+}
+
+const shiftOccurrences = (occurrences: FieldOccurrence[], by: number) =>
+  occurrences.map(occurrence => ({ ...occurrence, offset: occurrence.offset + by }));
+
+/**
+ * Traces the tagged fields and block fields of a result against the content it was parsed from.
+ * When the result came from only part of the content (one message of a thread), pass that part's
+ * span so locations still point into the whole content.
+ */
+export function traceFieldSources(
+  content: string,
+  result: ParseResult,
+  configuration: ValidationConfiguration = DEFAULT_VALIDATION_CONFIGURATION,
+  span: { offset: number; length: number } = { offset: 0, length: content.length }
+): FieldProvenance {
+  const parsed = content.substr(span.offset, span.length);
+  const locatedBlocks = locateXmlBlocks(parsed).map(located => ({
+    ...located,
+    fieldOccurrences: shiftOccurrences(located.fieldOccurrences, span.offset)
+  }));
+  const taggedOccurrences = shiftOccurrences(findTaggedFieldOccurrences(parsed), span.offset);
+
+  return {
+    taggedFields: traceFields(content, result.taggedFields, taggedOccurrences, configuration),
+    xmlBlocks: result.xmlBlocks.map(block => {
+      // Identical blocks pair up in document order
+      const index = locatedBlocks.findIndex(located => located.block.rawXml === block.rawXml);
+      const located = index >= 0 ? locatedBlocks.splice(index, 1)[0] : null;
+      return traceFields(content, block.fields, located ? located.fieldOccurrences : [], configuration);
+    })
+  };
+}
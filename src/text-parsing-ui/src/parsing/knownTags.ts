@@ -0,0 +1,65 @@
+import { ParseResult } from '../types/api';
+import { FieldValidationRule } from './validationRules';
+
+/**
+ * Tag names offered by the tag palette and editor autocomplete:
+ * the configured field rules first, then every tag seen in earlier results, most frequent first.
+ */
+
+export interface KnownTag {
+  name: string;
+  source: 'rule' | 'history';
+  isRequired: boolean;
+  /** How many of the given results contained the tag */
+  seenCount: number;
+}
+
+function tagNamesInResult(result: ParseResult): string[] {
+  const names: string[] = [];
+  for (const block of result.xmlBlocks || []) {
+    names.push(block.tagName, ...Object.keys(block.fields));
+  }
+  names.push(...Object.keys(result.taggedFields || {}));
+  return names;
+}
+
+export function knownTags(
+  fieldRules: FieldValidationRule[],
+  results: (ParseResult | null | undefined)[]
+): KnownTag[] {
+  const tags = new Map<string, KnownTag>();
+
+  for (const rule of fieldRules) {
+    tags.set(rule.fieldName.toLowerCase(), {
+      name: rule.fieldName,
+      source: 'rule',
+      isRequired: rule.isRequired,
+      seenCount: 0
+    });
+  }
+
+  for (const result of results) {
+    if (!result) {
+      continue;
+    }
+    // Count each tag once per result so one long email does not dominate the ordering
+    const namesInResult = new Set(tagNamesInResult(result));
+    namesInResult.forEach(name => {
+      const key = name.toLowerCase();
+      const existing = tags.get(key);
+      if (existing) {
+        existing.seenCount++;
+      } else {
+        tags.set(key, { name, source: 'history', isRequired: false, seenCount: 1 });
+      }
+    });
+  }
+
+  const all = Array.from(tags.values());
+  return [
+    ...all.filter(tag => tag.source === 'rule'),
+    ...all
+      .filter(tag => tag.source === 'history')
+      .sort((a, b) => b.seenCount - a.seenCount || a.name.localeCompare(b.name))
+  ];
+}
@@ -0,0 +1,70 @@
+import { locateErrors } from './errorLocations';
+import { applyEdit, previewEdit, quickFixesFor } from './quickFixes';
+import { parseText, validateContent } from './textParsing';
+import { StructuredError } from '../types/api';
+
+// Fixes for the errorIndex-th error with this message, as the local engine reports it
+const fixesFor = (content: string, message: string, errorIndex: number = 0) => {
+  const { errors, errorDetails } = parseText(content);
+  const located = locateErrors(content, errors, errorDetails) as StructuredError[];
+  return quickFixesFor(content, located.filter(error => error.message === message)[errorIndex]);
+};
+
+const applyFirst = (content: string, message: string, errorIndex: number = 0) =>
+  applyEdit(content, fixesFor(content, message, errorIndex)[0].edit);
+
+describe('quick fixes', () => {
+  test('closes an unclosed field after its text', () => {
+    const content = 'Book <vendor>Seaside Steakhouse\nfor ten';
+    const [fix] = fixesFor(content, 'Unclosed tag detected');
+
+    expect(fix.label).toBe('Insert </vendor> after "Seaside Steakhouse"');
+    expect(applyEdit(content, fix.edit)).toBe('Book <vendor>Seaside Steakhouse</vendor>\nfor ten');
+  });
+
+  test('closes an unclosed block at the end of its children', () => {
+    const fixed = applyFirst('<expense><total>100</total>', 'Unclosed tag detected');
+
+    expect(fixed).toBe('<expense><total>100</total></expense>');
+    expect(validateContent(fixed).isValid).toBe(true);
+  });
+
+  test('renames a stray closing tag to the tag left open, or removes it', () => {
+    const content = '<expense><total>100</totl></expense>';
+    const fixes = fixesFor(content, 'Unclosed tag detected');
+
+    expect(fixes.map(fix => fix.label)).toEqual(['Change </totl> to </total>', 'Remove </totl>']);
+    expect(applyEdit(content, fixes[0].edit)).toBe('<expense><total>100</total></expense>');
+  });
+
+  test('only removes a stray closing tag when renaming would unbalance a later one', () => {
+    expect(fixesFor('<a>x</b></a>', 'Unclosed tag detected').map(fix => fix.label)).toEqual(['Remove </b>']);
+  });
+
+  test('fixes the case of a mismatched closing tag in a malformed block', () => {
+    const fixed = applyFirst('<expense><Total>50</total></expense>', 'Malformed XML structure: expense');
+
+    expect(fixed).toBe('<expense><Total>50</Total></expense>');
+    expect(validateContent(fixed).isValid).toBe(true);
+  });
+
+  test('escapes a stray less-than sign', () => {
+    const fixed = applyFirst('<expense><total>5 < 6</total></expense>', 'Malformed XML structure: expense');
+
+    expect(fixed).toBe('<expense><total>5 &lt; 6</total></expense>');
+    expect(validateContent(fixed).isValid).toBe(true);
+  });
+
+  test('offers nothing for errors without a location', () => {
+    expect(fixesFor('<vendor>Cafe</vendor>', 'Missing required <total> tag')).toEqual([]);
+  });
+
+  test('previews an edit with surrounding context', () => {
+    expect(previewEdit('0123456789', { offset: 5, length: 1, replacement: 'X' }, 2)).toEqual({
+      before: '…34',
+      removed: '5',
+      inserted: 'X',
+      after: '67…'
+    });
+  });
+});
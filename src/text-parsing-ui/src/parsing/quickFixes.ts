@@ -0,0 +1,208 @@
+import { StructuredError } from '../types/api';
+import { EditorToken, tokenizeTags } from './tagTokenizer';
+import { findMalformedXmlBlocks, scanTags } from './xmlParsing';
+
+/**
+ * Candidate repairs for located structural errors.
+ * Each fix is a single text edit, so it can be previewed as a diff before it is applied.
+ */
+
+export interface TextEdit {
+  offset: number;
+  /** Number of characters replaced; 0 for a pure insertion */
+  length: number;
+  replacement: string;
+}
+
+export interface QuickFix {
+  id: string;
+  label: string;
+  edit: TextEdit;
+}
+
+export interface EditPreview {
+  before: string;
+  removed: string;
+  inserted: string;
+  after: string;
+}
+
+const PREVIEW_CONTEXT = 20;
+
+const tagNameOf = (tagText: string): string => tagText.replace(/^<\/?|>$/g, '');
+
+export function applyEdit(content: string, edit: TextEdit): string {
+  return content.substring(0, edit.offset) + edit.replacement + content.substring(edit.offset + edit.length);
+}
+
+/**
+ * The changed text with a little surrounding context, trimmed to whole words or tags where possible
+ */
+export function previewEdit(content: string, edit: TextEdit, context: number = PREVIEW_CONTEXT): EditPreview {
+  let start = Math.max(0, edit.offset - context);
+  let end = Math.min(content.length, edit.offset + edit.length + context);
+
+  if (start > 0) {
+    const boundary = content.substring(start, edit.offset).search(/[\s<]/);
+    if (boundary > 0) {
+      start += boundary + (/\s/.test(content.charAt(start + boundary)) ? 1 : 0);
+    }
+  }
+  if (end < content.length) {
+    const tail = content.substring(edit.offset + edit.length, end);
+    const boundary = Math.max(tail.lastIndexOf('>') + 1, tail.search(/\s[^\s]*$/));
+    if (boundary > 0) {
+      end = edit.offset + edit.length + boundary;
+    }
+  }
+
+  return {
+    before: (start > 0 ? '…' : '') + content.substring(start, edit.offset),
+    removed: content.substr(edit.offset, edit.length),
+    inserted: edit.replacement,
+    after: content.substring(edit.offset + edit.length, end) + (end < content.length ? '…' : '')
+  };
+}
+
+/**
+ * Where to close an open tag that never is: after its own text for a field, otherwise
+ * just before the tag that closes its parent (or at the end of the content)
+ */
+function closingTagInsertion(content: string, tokens: EditorToken[], openIndex: number): { offset: number; description: string } {
+  const next = tokens[openIndex + 1];
+  if (next && next.type === 'text') {
+    const lineEnd = next.text.indexOf('\n');
+    const text = (lineEnd >= 0 ? next.text.substring(0, lineEnd) : next.text).replace(/\s+$/, '');
+    if (text) {
+      return { offset: next.start + text.length, description: `after "${text.length > 20 ? `${text.substring(0, 20)}…` : text}"` };
+    }
+  }
+
+  let depth = 0;
+  for (let index = openIndex + 1; index < tokens.length; index++) {
+    const token = tokens[index];
+    if (token.type === 'open-tag') {
+      depth++;
+    } else if (token.type === 'close-tag') {
+      if (depth === 0) {
+        return { offset: token.start, description: `before ${token.text}` };
+      }
+      depth--;
+    }
+  }
+
+  return { offset: content.length, description: 'at the end' };
+}
+
+/**
+ * The open tag a stray closing tag was most likely meant to close: the innermost tag still open at that point
+ */
+function expectedOpenTag(tokens: EditorToken[], closeIndex: number): EditorToken | undefined {
+  const stack: EditorToken[] = [];
+  for (const token of tokens.slice(0, closeIndex)) {
+    if (token.type === 'open-tag') {
+      stack.push(token);
+    } else if (token.type === 'close-tag' && !token.unbalanced) {
+      stack.pop();
+    }
+  }
+  return stack[stack.length - 1];
+}
+
+function unclosedTagFixes(content: string, offset: number): QuickFix[] {
+  const tokens = tokenizeTags(content);
+  const index = tokens.findIndex(token => token.start === offset && token.unbalanced);
+  if (index < 0) {
+    return [];
+  }
+  const token = tokens[index];
+
+  if (token.type === 'open-tag') {
+    const closing = `</${tagNameOf(token.text)}>`;
+    const insertion = closingTagInsertion(content, tokens, index);
+    return [{
+      id: `close:${offset}`,
+      label: `Insert ${closing} ${insertion.description}`,
+      edit: { offset: insertion.offset, length: 0, replacement: closing }
+    }];
+  }
+
+  const fixes: QuickFix[] = [];
+  const expected = expectedOpenTag(tokens, index);
+  // Renaming only helps when that tag is never closed later on
+  if (expected?.unbalanced) {
+    const closing = `</${tagNameOf(expected.text)}>`;
+    fixes.push({
+      id: `rename:${offset}`,
+      label: `Change ${token.text} to ${closing}`,
+      edit: { offset, length: token.text.length, replacement: closing }
+    });
+  }
+  fixes.push({
+    id: `remove:${offset}`,
+    label: `Remove ${token.text}`,
+    edit: { offset, length: token.text.length, replacement: '' }
+  });
+  return fixes;
+}
+
+function malformedXmlFixes(content: string, offset: number): QuickFix[] {
+  const block = findMalformedXmlBlocks(content).find(candidate =>
+    candidate.offset <= offset && candidate.errorOffset >= offset);
+  if (!block) {
+    return [];
+  }
+
+  // XML names are case-sensitive, so replay the block's tags with their original spelling
+  const tagAtOffset = scanTags(content).find(tag => tag.offset === offset);
+  if (tagAtOffset?.isClosing) {
+    const stack: string[] = [];
+    for (const tag of scanTags(content.substring(block.offset, offset))) {
+      const name = tagNameOf(content.substr(block.offset + tag.offset, tag.length));
+      if (!tag.isClosing) {
+        stack.push(name);
+      } else if (stack[stack.length - 1] === name) {
+        stack.pop();
+      }
+    }
+
+    const expected = stack[stack.length - 1];
+    const actual = content.substr(offset, tagAtOffset.length);
+    if (expected && tagNameOf(actual) !== expected) {
+      return [{
+        id: `rename:${offset}`,
+        label: `Change ${actual} to </${expected}>`,
+        edit: { offset, length: actual.length, replacement: `</${expected}>` }
+      }];
+    }
+    return [];
+  }
+
+  if (content.charAt(offset) === '<' && !tagAtOffset) {
+    return [{
+      id: `escape:${offset}`,
+      label: 'Escape the stray "<" as &lt;',
+      edit: { offset, length: 1, replacement: '&lt;' }
+    }];
+  }
+
+  return [];
+}
+
+/**
+ * Repairs that would resolve a located error; empty when none can be suggested safely
+ */
+export function quickFixesFor(content: string, error: StructuredError): QuickFix[] {
+  if (!error.location || error.location.offset + error.location.length > content.length) {
+    return [];
+  }
+
+  switch (error.code) {
+    case 'unclosed-tag':
+      return unclosedTagFixes(content, error.location.offset);
+    case 'malformed-xml':
+      return malformedXmlFixes(content, error.location.offset);
+    default:
+      return [];
+  }
+}
@@ -0,0 +1,75 @@
+import { knownTags } from './knownTags';
+import { autoCloseTag, completeTag, findTagCompletionContext, rankTagSuggestions, wrapInTag } from './tagEditing';
+import { DEFAULT_FIELD_RULES } from './validationRules';
+import { ParseResult } from '../types/api';
+
+const result = (taggedFields: Record<string, string>, blockTag?: string): ParseResult => ({
+  xmlBlocks: blockTag ? [{ tagName: blockTag, fields: { total: '1' }, rawXml: '' }] : [],
+  taggedFields,
+  calculations: null,
+  isValid: true,
+  errors: [],
+  errorDetails: []
+});
+
+describe('tag editing', () => {
+  test('wraps a selection and keeps it selected', () => {
+    expect(wrapInTag('Pay Acme now', 4, 8, 'vendor')).toEqual({
+      text: 'Pay <vendor>Acme</vendor> now',
+      selectionStart: 12,
+      selectionEnd: 16
+    });
+  });
+
+  test('inserts an empty pair with the caret inside when nothing is selected', () => {
+    expect(wrapInTag('x', 1, 1, 'total')).toEqual({ text: 'x<total></total>', selectionStart: 8, selectionEnd: 8 });
+  });
+
+  test('finds the partial tag before the caret', () => {
+    expect(findTagCompletionContext('Pay <ven', 8)).toEqual({ start: 4, query: 'ven', isClosing: false });
+    expect(findTagCompletionContext('<total>5</', 10)).toEqual({ start: 8, query: '', isClosing: true });
+    expect(findTagCompletionContext('<total>5', 8)).toBeNull();
+    expect(findTagCompletionContext('a < b', 5)).toBeNull();
+  });
+
+  test('ranks prefix matches first and suggests the open tag when closing', () => {
+    const names = ['total', 'cost_centre', 'vendor', 'subtotal'];
+
+    expect(rankTagSuggestions(names, { start: 0, query: 'to', isClosing: false }, '<to')).toEqual(['total', 'subtotal']);
+    expect(rankTagSuggestions(names, { start: 9, query: '', isClosing: true }, '<expense>')[0]).toBe('expense');
+  });
+
+  test('completes opening tags with their closing tag and closing tags on their own', () => {
+    expect(completeTag('Pay <ven now', { start: 4, query: 'ven', isClosing: false }, 8, 'vendor')).toEqual({
+      text: 'Pay <vendor></vendor> now',
+      selectionStart: 12,
+      selectionEnd: 12
+    });
+    expect(completeTag('<a>x</', { start: 4, query: '', isClosing: true }, 6, 'a').text).toBe('<a>x</a>');
+  });
+
+  test('closes a tag as ">" is typed unless it is already closed', () => {
+    expect(autoCloseTag('<vendor', 7)).toEqual({ text: '<vendor></vendor>', selectionStart: 8, selectionEnd: 8 });
+    expect(autoCloseTag('<vendor</vendor>', 7)).toBeNull();
+    expect(autoCloseTag('5 ', 2)).toBeNull();
+  });
+});
+
+describe('known tags', () => {
+  test('lists configured fields first, then tags from earlier results by frequency', () => {
+    const tags = knownTags(DEFAULT_FIELD_RULES, [
+      result({ vendor: 'A', date: 'today' }, 'expense'),
+      result({ vendor: 'B', Total: '5' }),
+      null
+    ]);
+
+    expect(tags.map(tag => [tag.name, tag.source, tag.seenCount])).toEqual([
+      ['total', 'rule', 2],
+      ['cost_centre', 'rule', 0],
+      ['vendor', 'history', 2],
+      ['date', 'history', 1],
+      ['expense', 'history', 1]
+    ]);
+    expect(tags[0].isRequired).toBe(true);
+  });
+});
@@ -0,0 +1,130 @@
+import { tokenizeTags } from './tagTokenizer';
+
+/**
+ * Text edits behind the tag palette and the editor's tag autocomplete.
+ * Each returns the new text together with where the selection should end up.
+ */
+
+export interface EditResult {
+  text: string;
+  selectionStart: number;
+  selectionEnd: number;
+}
+
+export interface TagCompletionContext {
+  /** Offset of the '<' that started the tag */
+  start: number;
+  /** Characters typed after '<' (or '</') so far */
+  query: string;
+  isClosing: boolean;
+}
+
+const PARTIAL_TAG = /<(\/?)([\p{L}\p{Mn}\p{Nd}\p{Pc}]*)$/u;
+const COMPLETE_OPEN_TAG = /<([\p{L}\p{Mn}\p{Nd}\p{Pc}]+)$/u;
+
+/**
+ * Wraps the selected range in a tag. With nothing selected an empty pair is
+ * inserted and the caret placed between the tags; otherwise the wrapped text stays selected.
+ */
+export function wrapInTag(content: string, start: number, end: number, tagName: string): EditResult {
+  const open = `<${tagName}>`;
+  const selected = content.substring(start, end);
+
+  return {
+    text: `${content.substring(0, start)}${open}${selected}</${tagName}>${content.substring(end)}`,
+    selectionStart: start + open.length,
+    selectionEnd: start + open.length + selected.length
+  };
+}
+
+/**
+ * The partially typed tag immediately before the caret, if any
+ */
+export function findTagCompletionContext(content: string, caret: number): TagCompletionContext | null {
+  const lineStart = content.lastIndexOf('\n', caret - 1) + 1;
+  const match = PARTIAL_TAG.exec(content.substring(lineStart, caret));
+  if (!match) {
+    return null;
+  }
+
+  return {
+    start: lineStart + match.index,
+    query: match[2],
+    isClosing: match[1] === '/'
+  };
+}
+
+/**
+ * Names that complete the query, prefix matches first. For a closing tag the
+ * innermost tag still open at the caret is suggested first.
+ */
+export function rankTagSuggestions(
+  names: string[],
+  context: TagCompletionContext,
+  content: string
+): string[] {
+  const query = context.query.toLowerCase();
+  let candidates = names;
+
+  if (context.isClosing) {
+    const openTags: string[] = [];
+    for (const token of tokenizeTags(content.substring(0, context.start))) {
+      if (token.type === 'open-tag' && token.unbalanced) {
+        openTags.push(token.text.slice(1, -1));
+      }
+    }
+    candidates = [...openTags.reverse(), ...names];
+  }
+
+  const unique = candidates.filter((name, index) =>
+    candidates.findIndex(other => other.toLowerCase() === name.toLowerCase()) === index);
+  const prefixMatches = unique.filter(name => name.toLowerCase().startsWith(query));
+  const otherMatches = unique.filter(name =>
+    !name.toLowerCase().startsWith(query) && name.toLowerCase().includes(query));
+
+  return [...prefixMatches, ...otherMatches];
+}
+
+/**
+ * Replaces the partial tag with the chosen name. An opening tag gets its closing tag
+ * straight away, with the caret left between the two.
+ */
+export function completeTag(content: string, context: TagCompletionContext, caret: number, tagName: string): EditResult {
+  const before = content.substring(0, context.start);
+  const after = content.substring(caret);
+
+  if (context.isClosing) {
+    const closing = `</${tagName}>`;
+    const position = before.length + closing.length;
+    return { text: before + closing + after, selectionStart: position, selectionEnd: position };
+  }
+
+  const open = `<${tagName}>`;
+  const position = before.length + open.length;
+  return { text: `${before}${open}</${tagName}>${after}`, selectionStart: position, selectionEnd: position };
+}
+
+/**
+ * Called as '>' is typed: if it finishes an opening tag, returns the text with '>' and the
+ * matching closing tag inserted, caret between them. Null when '>' should be typed normally.
+ */
+export function autoCloseTag(content: string, caret: number): EditResult | null {
+  const lineStart = content.lastIndexOf('\n', caret - 1) + 1;
+  const match = COMPLETE_OPEN_TAG.exec(content.substring(lineStart, caret));
+  if (!match) {
+    return null;
+  }
+
+  const closing = `</${match[1]}>`;
+  const after = content.substring(caret);
+  // Don't double up when the closing tag is already there
+  if (after.toLowerCase().startsWith(closing.toLowerCase())) {
+    return null;
+  }
+
+  return {
+    text: `${content.substring(0, caret)}>${closing}${after}`,
+    selectionStart: caret + 1,
+    selectionEnd: caret + 1
+  };
+}
@@ -0,0 +1,36 @@
+import { findTagTokenAt, tokenizeTags } from './tagTokenizer';
+
+describe('tag tokenizer', () => {
+  test('splits text and tags and pairs matching tags', () => {
+    const tokens = tokenizeTags('Pay <vendor>Cafe</vendor>!');
+
+    expect(tokens.map(token => [token.type, token.text])).toEqual([
+      ['text', 'Pay '],
+      ['open-tag', '<vendor>'],
+      ['text', 'Cafe'],
+      ['close-tag', '</vendor>'],
+      ['text', '!']
+    ]);
+    expect(tokens[1].pairIndex).toBe(3);
+    expect(tokens[3].pairIndex).toBe(1);
+    expect(tokens.some(token => token.unbalanced)).toBe(false);
+  });
+
+  test('marks the same tags unbalanced that validation reports as unclosed', () => {
+    const tokens = tokenizeTags('<expense><total>1</Total></expense><date>');
+    const unbalanced = tokens.filter(token => token.unbalanced).map(token => token.text);
+
+    // Tag names are compared case-insensitively, as in findUnclosedTags
+    expect(unbalanced).toEqual(['<date>']);
+    expect(tokenizeTags('<a>x</b></a>').filter(token => token.unbalanced).map(token => token.text)).toEqual(['</b>']);
+  });
+
+  test('finds the tag under the caret, including at either edge', () => {
+    const tokens = tokenizeTags('x <a>y</a>');
+
+    expect(findTagTokenAt(tokens, 0)).toBe(-1);
+    expect(findTagTokenAt(tokens, 2)).toBe(1);
+    expect(findTagTokenAt(tokens, 4)).toBe(1);
+    expect(findTagTokenAt(tokens, 9)).toBe(3);
+  });
+});
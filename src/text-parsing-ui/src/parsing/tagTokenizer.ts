@@ -0,0 +1,71 @@
+import { scanTags } from './xmlParsing';
+
+/**
+ * Splits content into text and tag tokens for the editor's syntax highlighting.
+ * Tags are paired with the same stack rules the unclosed-tag validation uses,
+ * so anything marked unbalanced here is exactly what validation will reject.
+ */
+
+export type EditorTokenType = 'text' | 'open-tag' | 'close-tag';
+
+export interface EditorToken {
+  type: EditorTokenType;
+  text: string;
+  start: number;
+  end: number;
+  tagName?: string;
+  /** Index of the matching open/close tag token */
+  pairIndex?: number;
+  unbalanced: boolean;
+}
+
+export function tokenizeTags(content: string): EditorToken[] {
+  const tokens: EditorToken[] = [];
+  const openStack: number[] = [];
+  let position = 0;
+
+  const pushText = (end: number) => {
+    if (end > position) {
+      tokens.push({ type: 'text', text: content.substring(position, end), start: position, end, unbalanced: false });
+    }
+  };
+
+  for (const tag of scanTags(content)) {
+    pushText(tag.offset);
+    const index = tokens.length;
+    const token: EditorToken = {
+      type: tag.isClosing ? 'close-tag' : 'open-tag',
+      text: content.substr(tag.offset, tag.length),
+      start: tag.offset,
+      end: tag.offset + tag.length,
+      tagName: tag.tagName,
+      unbalanced: false
+    };
+    tokens.push(token);
+    position = token.end;
+
+    if (!tag.isClosing) {
+      openStack.push(index);
+    } else if (openStack.length > 0 && tokens[openStack[openStack.length - 1]].tagName === tag.tagName) {
+      const openIndex = openStack.pop()!;
+      tokens[openIndex].pairIndex = index;
+      token.pairIndex = openIndex;
+    } else {
+      token.unbalanced = true;
+    }
+  }
+
+  pushText(content.length);
+  for (const index of openStack) {
+    tokens[index].unbalanced = true;
+  }
+
+  return tokens;
+}
+
+/**
+ * Index of the tag token the caret is in or touching, or -1 when it is in plain text
+ */
+export function findTagTokenAt(tokens: EditorToken[], offset: number): number {
+  return tokens.findIndex(token => token.type !== 'text' && offset >= token.start && offset <= token.end);
+}
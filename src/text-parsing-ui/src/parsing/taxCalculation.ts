@@ -0,0 +1,211 @@
+import { TaxCalculation, XmlBlock } from '../types/api';
+import { DEFAULT_JURISDICTION, TaxJurisdiction } from './taxJurisdictions';
+
+/**
+ * Client-side port of the server's TaxCalculationService.
+ *
+ * The server does its maths in .NET decimal, so results are reproduced here with
+ * BigInt fixed-point arithmetic: a 96-bit mantissa, at most 28 decimal places and
+ * banker's rounding, exactly like System.Decimal and Math.Round(value, 2).
+ */
+
+interface DecimalValue {
+  mantissa: bigint;
+  scale: number;
+}
+
+const MAX_SCALE = 28;
+const MAX_MANTISSA = BigInt('79228162514264337593543950335'); // 2^96 - 1
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const TWO = BigInt(2);
+const TEN = BigInt(10);
+
+export class DecimalOverflowError extends Error {
+  constructor() {
+    super('Value was either too large or too small for a Decimal.');
+    this.name = 'DecimalOverflowError';
+  }
+}
+
+const abs = (value: bigint): bigint => (value < ZERO ? -value : value);
+
+function pow10(exponent: number): bigint {
+  let result = ONE;
+  for (let i = 0; i < exponent; i++) {
+    result *= TEN;
+  }
+  return result;
+}
+
+/**
+ * Divides and rounds half to even
+ */
+function divideRounded(dividend: bigint, divisor: bigint): bigint {
+  const quotient = dividend / divisor;
+  const remainder = abs(dividend % divisor);
+  const twiceRemainder = remainder * TWO;
+  const awayFromZero = twiceRemainder > abs(divisor) ||
+    (twiceRemainder === abs(divisor) && quotient % TWO !== ZERO);
+
+  if (!awayFromZero) {
+    return quotient;
+  }
+  return (dividend < ZERO) !== (divisor < ZERO) ? quotient - ONE : quotient + ONE;
+}
+
+/**
+ * Drops just enough decimal places for the value to fit a System.Decimal
+ */
+function fit(value: DecimalValue): DecimalValue {
+  let drop = Math.max(value.scale - MAX_SCALE, 0);
+
+  for (;;) {
+    const mantissa = drop > 0 ? divideRounded(value.mantissa, pow10(drop)) : value.mantissa;
+
+    if (abs(mantissa) <= MAX_MANTISSA) {
+      return { mantissa, scale: value.scale - drop };
+    }
+    if (drop >= value.scale) {
+      throw new DecimalOverflowError();
+    }
+    drop++;
+  }
+}
+
+function multiply(left: DecimalValue, right: DecimalValue): DecimalValue {
+  return fit({ mantissa: left.mantissa * right.mantissa, scale: left.scale + right.scale });
+}
+
+function divide(left: DecimalValue, right: DecimalValue): DecimalValue {
+  const shift = MAX_SCALE + right.scale - left.scale;
+  const mantissa = shift >= 0
+    ? divideRounded(left.mantissa * pow10(shift), right.mantissa)
+    : divideRounded(left.mantissa, right.mantissa * pow10(-shift));
+
+  return fit({ mantissa, scale: MAX_SCALE });
+}
+
+function subtract(left: DecimalValue, right: DecimalValue): DecimalValue {
+  const scale = Math.max(left.scale, right.scale);
+  const mantissa = left.mantissa * pow10(scale - left.scale) - right.mantissa * pow10(scale - right.scale);
+
+  return fit({ mantissa, scale });
+}
+
+function round(value: DecimalValue, decimals: number): DecimalValue {
+  if (value.scale <= decimals) {
+    return value;
+  }
+  return { mantissa: divideRounded(value.mantissa, pow10(value.scale - decimals)), scale: decimals };
+}
+
+function fromInteger(value: number): DecimalValue {
+  return { mantissa: BigInt(value), scale: 0 };
+}
+
+function toNumber(value: DecimalValue): number {
+  const digits = abs(value.mantissa).toString().padStart(value.scale + 1, '0');
+  const integerPart = digits.substring(0, digits.length - value.scale);
+  const fractionPart = digits.substring(digits.length - value.scale);
+  const sign = value.mantissa < ZERO ? '-' : '';
+
+  return Number(`${sign}${integerPart}${fractionPart ? `.${fractionPart}` : ''}`);
+}
+
+/**
+ * Parses a plain decimal string the way decimal.TryParse does with NumberStyles.Number
+ * (an optional leading or trailing sign, digits and an optional decimal point)
+ */
+function parseDecimal(value: string): DecimalValue | null {
+  const match = /^([+-]?)(\d*)(?:\.(\d*))?([+-]?)$/.exec(value);
+  if (!match) {
+    return null;
+  }
+
+  const [, leadingSign, integerDigits, fractionDigits = '', trailingSign] = match;
+  if ((leadingSign && trailingSign) || !(integerDigits + fractionDigits)) {
+    return null;
+  }
+
+  const negative = (leadingSign || trailingSign) === '-';
+  const mantissa = BigInt(integerDigits + fractionDigits);
+
+  try {
+    return fit({ mantissa: negative ? -mantissa : mantissa, scale: fractionDigits.length });
+  } catch {
+    return null;
+  }
+}
+
+function fromNumber(value: number): DecimalValue {
+  const text = String(value);
+  return parseDecimal(/e/i.test(text) ? value.toFixed(MAX_SCALE) : text) || fromInteger(0);
+}
+
+/**
+ * Calculates tax from total amount including tax at the jurisdiction's rate
+ * Formula: Tax Amount = Total × (Rate ÷ (100 + Rate)), e.g. 15 ÷ 115 for NZ GST
+ */
+export function calculateFromTotalIncludingTax(
+  totalIncludingTax: number,
+  jurisdiction: TaxJurisdiction = DEFAULT_JURISDICTION
+): TaxCalculation {
+  const taxFraction = divide(fromNumber(jurisdiction.taxRate), fromNumber(100 + jurisdiction.taxRate));
+
+  const total = fromNumber(totalIncludingTax);
+  const taxAmount = multiply(total, taxFraction);
+  const totalExcludingTax = subtract(total, taxAmount);
+
+  return {
+    totalIncludingTax: toNumber(total),
+    taxAmount: toNumber(round(taxAmount, 2)),
+    totalExcludingTax: toNumber(round(totalExcludingTax, 2)),
+    taxRate: jurisdiction.taxRate,
+    taxName: jurisdiction.taxName,
+    currency: jurisdiction.currency,
+    jurisdiction: jurisdiction.code
+  };
+}
+
+/**
+ * Parses decimal value from string, handling various formats (commas, spaces, dollar signs)
+ */
+export function parseDecimalValue(value: string): number | null {
+  if (!value || !value.trim()) {
+    return null;
+  }
+
+  const cleanValue = value.trim().replace(/[,\s$]/g, '');
+  const parsed = parseDecimal(cleanValue);
+
+  return parsed ? toNumber(parsed) : null;
+}
+
+/**
+ * Extracts and validates total amount from parsed data.
+ * Tagged fields take precedence over XML block fields.
+ */
+export function extractTotalAmount(
+  xmlBlocks: XmlBlock[],
+  taggedFields: Record<string, string>
+): number | null {
+  let totalValue: string | undefined;
+
+  if (Object.prototype.hasOwnProperty.call(taggedFields, 'total')) {
+    totalValue = taggedFields.total;
+  }
+
+  if (!totalValue) {
+    const block = xmlBlocks.find(b => Object.prototype.hasOwnProperty.call(b.fields, 'total'));
+    if (block) {
+      totalValue = block.fields.total;
+    }
+  }
+
+  if (!totalValue || !totalValue.trim()) {
+    return null;
+  }
+
+  return parseDecimalValue(totalValue);
+}
@@ -0,0 +1,35 @@
+import { GST_RATE } from './validationRules';
+
+/**
+ * Client-side copy of the server's TaxJurisdictions registry.
+ * Used for the jurisdiction selector and by the offline engine; results from
+ * the API carry their own rate, tax name and currency.
+ */
+
+export type JurisdictionCode = 'NZ' | 'AU' | 'UK';
+
+export interface TaxJurisdiction {
+  code: JurisdictionCode;
+  name: string;
+  taxName: string;
+  taxRate: number;
+  currency: string;
+}
+
+export const TAX_JURISDICTIONS: TaxJurisdiction[] = [
+  { code: 'NZ', name: 'New Zealand', taxName: 'GST', taxRate: GST_RATE, currency: 'NZD' },
+  { code: 'AU', name: 'Australia', taxName: 'GST', taxRate: 10, currency: 'AUD' },
+  { code: 'UK', name: 'United Kingdom', taxName: 'VAT', taxRate: 20, currency: 'GBP' }
+];
+
+export const DEFAULT_JURISDICTION = TAX_JURISDICTIONS[0];
+
+/**
+ * Looks up a jurisdiction by code (case-insensitive); undefined when it is not supported
+ */
+export function findJurisdiction(code: string | undefined | null): TaxJurisdiction | undefined {
+  if (!code || !code.trim()) {
+    return DEFAULT_JURISDICTION;
+  }
+  return TAX_JURISDICTIONS.find(jurisdiction => jurisdiction.code === code.trim().toUpperCase());
+}
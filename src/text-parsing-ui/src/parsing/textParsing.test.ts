@@ -0,0 +1,44 @@
+import { parseText, validateContent } from './textParsing';
+import { ParseResult } from '../types/api';
+import parityFixtures from './fixtures/parityFixtures.json';
+
+interface ParityFixture {
+  name: string;
+  content: string;
+  jurisdiction?: string;
+  // Positions depend on each engine's XML parser, so the fixtures record messages rather than error details
+  expected: Omit<ParseResult, 'errorDetails'>;
+}
+
+/**
+ * The same fixture corpus is asserted against the .NET TextParsingService
+ * (ParityFixtureTests.cs), so a passing run on both sides means the engines agree.
+ */
+describe('Local parsing engine parity with the API', () => {
+  test.each((parityFixtures as ParityFixture[]).map(fixture => [fixture.name, fixture] as const))(
+    '%s',
+    (_name, fixture) => {
+      const { errorDetails, ...result } = parseText(fixture.content, fixture.jurisdiction);
+
+      expect(result).toEqual(fixture.expected);
+      // Every error comes with details (an unclosed-tag error has one per tag)
+      expect(Array.from(new Set(errorDetails.map(detail => detail.message)))).toEqual(fixture.expected.errors);
+    }
+  );
+
+  test('reports structural errors without parsing', () => {
+    expect(validateContent('<expense><total>10</total>')).toEqual({
+      isValid: false,
+      errors: ['Unclosed tag detected'],
+      warnings: {},
+      errorDetails: [{
+        code: 'unclosed-tag',
+        severity: 'error',
+        message: 'Unclosed tag detected',
+        tagName: 'expense',
+        offset: 0,
+        length: 9
+      }]
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { ErrorCode, ErrorDetail, ParseResult, ValidationResult } from '../types/api';
+import {
+  DEFAULT_VALIDATION_CONFIGURATION,
+  ValidationConfiguration,
+  applyDefaultValues,
+  getMissingRequiredFieldErrors,
+  isContentValid
+} from './validationRules';
+import { extractTaggedFields, extractXmlBlocks, validateXmlStructure } from './xmlParsing';
+import { calculateFromTotalIncludingTax, extractTotalAmount } from './taxCalculation';
+import { findJurisdiction } from './taxJurisdictions';
+
+/**
+ * Client-side port of the server's TextParsingService.
+ * Produces the same ParseResult the API returns, so the UI can keep working offline.
+ */
+
+const errorDetail = (code: ErrorCode, message: string, at: Partial<ErrorDetail> = {}): ErrorDetail =>
+  ({ code, severity: 'error', message, tagName: null, offset: null, length: null, ...at });
+
+/**
+ * Finds the value of the first <tagName> element, e.g. the total that could not be read
+ */
+function tagValueSpan(content: string, tagName: string): Partial<ErrorDetail> {
+  const match = new RegExp(`<${tagName}>([^<]*)</${tagName}>`, 'i').exec(content);
+  if (!match) {
+    return {};
+  }
+  return { offset: match.index + tagName.length + 2, length: match[1].length };
+}
+
+/**
+ * Validates content according to all business rules
+ */
+export function validateContent(
+  content: string,
+  configuration: ValidationConfiguration = DEFAULT_VALIDATION_CONFIGURATION
+): ValidationResult {
+  if (!isContentValid(content)) {
+    const message = configuration.messages.emptyContentError;
+    return { isValid: false, errors: [message], warnings: {}, errorDetails: [errorDetail('empty-content', message)] };
+  }
+
+  const xmlValidation = validateXmlStructure(content, configuration);
+  return {
+    isValid: xmlValidation.isValid,
+    errors: xmlValidation.errors,
+    warnings: {},
+    errorDetails: xmlValidation.errorDetails
+  };
+}
+
+/**
+ * Parses text content to extract XML blocks and tagged fields, then calculates tax
+ * for the given jurisdiction code (NZ when omitted)
+ */
+export function parseText(
+  content: string,
+  jurisdictionCode?: string,
+  configuration: ValidationConfiguration = DEFAULT_VALIDATION_CONFIGURATION
+): ParseResult {
+  const result: ParseResult = {
+    xmlBlocks: [],
+    taggedFields: {},
+    calculations: null,
+    isValid: false,
+    errors: [],
+    errorDetails: []
+  };
+  const addError = (error: ErrorDetail) => {
+    result.errors.push(error.message);
+    result.errorDetails.push(error);
+  };
+
+  const jurisdiction = findJurisdiction(jurisdictionCode);
+  if (!jurisdiction) {
+    addError(errorDetail(
+      'unsupported-jurisdiction',
+      configuration.messages.unsupportedJurisdictionError.replace('{0}', jurisdictionCode || '')
+    ));
+    return result;
+  }
+
+  // Step 1: Validate content structure
+  const validation = validateContent(content, configuration);
+  result.errorDetails = [...validation.errorDetails];
+  if (!validation.isValid) {
+    result.errors = validation.errors;
+    return result;
+  }
+
+  try {
+    // Step 2: Extract XML blocks and tagged fields
+    result.xmlBlocks = extractXmlBlocks(content);
+    result.taggedFields = extractTaggedFields(content);
+
+    // Step 3: Apply validation rules
+    const missingRequiredFields = getMissingRequiredFieldErrors(result.xmlBlocks, result.taggedFields, configuration);
+    if (missingRequiredFields.length > 0) {
+      missingRequiredFields.forEach(addError);
+      return result;
+    }
+
+    // Step 4: Apply default values for optional fields
+    applyDefaultValues(result.xmlBlocks, result.taggedFields, configuration);
+
+    // Step 5: Calculate tax if total amount is available
+    const totalAmount = extractTotalAmount(result.xmlBlocks, result.taggedFields);
+    if (totalAmount === null) {
+      addError(errorDetail('invalid-total', configuration.messages.invalidTotalFormatError, {
+        tagName: 'total',
+        ...tagValueSpan(content, 'total')
+      }));
+      return result;
+    }
+
+    result.calculations = calculateFromTotalIncludingTax(totalAmount, jurisdiction);
+    result.isValid = true;
+  } catch (error) {
+    result.isValid = false;
+    addError(errorDetail('parsing-error', `Parsing error: ${error instanceof Error ? error.message : String(error)}`));
+  }
+
+  return result;
+}
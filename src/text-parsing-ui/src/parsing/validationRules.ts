@@ -0,0 +1,154 @@
+import { ErrorDetail, XmlBlock } from '../types/api';
+
+/**
+ * Client-side port of the server's ValidationRules and ValidationConfiguration
+ */
+
+export interface FieldValidationRule {
+  fieldName: string;
+  isRequired: boolean;
+  defaultValue?: string;
+  customErrorMessage?: string;
+  customValidator?: (value: string) => boolean;
+}
+
+export interface ValidationMessages {
+  unclosedTagError: string;
+  malformedXmlError: string;
+  invalidTotalFormatError: string;
+  emptyContentError: string;
+  missingRequiredFieldError: string;
+  unsupportedJurisdictionError: string;
+}
+
+export interface ValidationConfiguration {
+  fieldRules: FieldValidationRule[];
+  messages: ValidationMessages;
+}
+
+// NZ GST rate - kept in step with ValidationRules.GST_RATE on the server
+export const GST_RATE = 15;
+
+export const DEFAULT_VALIDATION_MESSAGES: ValidationMessages = {
+  unclosedTagError: 'Unclosed tag detected',
+  malformedXmlError: 'Malformed XML structure',
+  invalidTotalFormatError: 'Invalid total amount format',
+  emptyContentError: 'Content cannot be empty',
+  missingRequiredFieldError: 'Missing required field: {0}',
+  unsupportedJurisdictionError: 'Unsupported tax jurisdiction: {0}'
+};
+
+export const DEFAULT_FIELD_RULES: FieldValidationRule[] = [
+  // Required fields
+  {
+    fieldName: 'total',
+    isRequired: true,
+    customErrorMessage: 'Missing required <total> tag'
+  },
+
+  // Optional fields with defaults
+  {
+    fieldName: 'cost_centre',
+    isRequired: false,
+    defaultValue: 'UNKNOWN'
+  }
+];
+
+export const DEFAULT_VALIDATION_CONFIGURATION: ValidationConfiguration = {
+  fieldRules: DEFAULT_FIELD_RULES,
+  messages: DEFAULT_VALIDATION_MESSAGES
+};
+
+/**
+ * Validates if content is not empty or whitespace
+ */
+export function isContentValid(content: string): boolean {
+  return content.trim().length > 0;
+}
+
+/**
+ * Builds a case-insensitive view of every extracted field.
+ * Tagged fields come first; block fields only fill in names not already present.
+ */
+function collectFields(xmlBlocks: XmlBlock[], taggedFields: Record<string, string>): Map<string, string> {
+  const allFields = new Map<string, string>();
+
+  for (const [name, value] of Object.entries(taggedFields)) {
+    const key = name.toLowerCase();
+    if (allFields.has(key)) {
+      // Same failure the server hits when copying into an OrdinalIgnoreCase dictionary
+      throw new Error(`An item with the same key has already been added. Key: ${name}`);
+    }
+    allFields.set(key, value);
+  }
+
+  for (const block of xmlBlocks) {
+    for (const [name, value] of Object.entries(block.fields)) {
+      const key = name.toLowerCase();
+      if (!allFields.has(key)) {
+        allFields.set(key, value);
+      }
+    }
+  }
+
+  return allFields;
+}
+
+/**
+ * Checks that all required fields are present and pass any custom validation
+ */
+export function getMissingRequiredFieldErrors(
+  xmlBlocks: XmlBlock[],
+  taggedFields: Record<string, string>,
+  configuration: ValidationConfiguration = DEFAULT_VALIDATION_CONFIGURATION
+): ErrorDetail[] {
+  const missingFields: ErrorDetail[] = [];
+  const allFields = collectFields(xmlBlocks, taggedFields);
+
+  for (const rule of configuration.fieldRules.filter(r => r.isRequired)) {
+    const value = allFields.get(rule.fieldName.toLowerCase());
+    const fieldExists = value !== undefined && value.trim().length > 0;
+    const error = { severity: 'error', tagName: rule.fieldName, offset: null, length: null } as const;
+
+    if (!fieldExists) {
+      missingFields.push({
+        ...error,
+        code: 'missing-required-field',
+        message: rule.customErrorMessage
+          ? rule.customErrorMessage
+          : configuration.messages.missingRequiredFieldError.replace('{0}', rule.fieldName)
+      });
+    } else if (rule.customValidator && !rule.customValidator(value!)) {
+      missingFields.push({
+        ...error,
+        code: 'invalid-field',
+        message: rule.customErrorMessage ?? `Invalid value for field: ${rule.fieldName}`
+      });
+    }
+  }
+
+  return missingFields;
+}
+
+/**
+ * Applies default values for missing optional fields, writing them into the tagged fields
+ */
+export function applyDefaultValues(
+  xmlBlocks: XmlBlock[],
+  taggedFields: Record<string, string>,
+  configuration: ValidationConfiguration = DEFAULT_VALIDATION_CONFIGURATION
+): void {
+  const allFields = new Set(Object.keys(taggedFields).map(name => name.toLowerCase()));
+
+  for (const block of xmlBlocks) {
+    for (const name of Object.keys(block.fields)) {
+      allFields.add(name.toLowerCase());
+    }
+  }
+
+  for (const rule of configuration.fieldRules.filter(r => r.defaultValue)) {
+    if (!allFields.has(rule.fieldName.toLowerCase())) {
+      taggedFields[rule.fieldName] = rule.defaultValue!;
+    }
+  }
+}
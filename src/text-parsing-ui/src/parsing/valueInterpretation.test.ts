@@ -0,0 +1,87 @@
+import {
+  interpretAmount,
+  interpretDate,
+  interpretPaymentMethod,
+  interpretResult,
+  NUMBER_FORMATS
+} from './valueInterpretation';
+
+const [en, eu, space] = NUMBER_FORMATS;
+
+describe('value interpretation', () => {
+  test.each([
+    ['27 April 2022', '2022-04-27'],
+    ['Friday, 16 June 2022', '2022-06-16'],
+    ['1st Sept 2023', '2023-09-01'],
+    ['April 27, 2022', '2022-04-27'],
+    ['2022-04-27', '2022-04-27'],
+    ['27/04/2022', '2022-04-27']
+  ])('reads the date %s', (raw, iso) => {
+    expect(interpretDate(raw)).toEqual({ normalised: iso, status: 'ok', warning: undefined });
+  });
+
+  test('flags dates that could be read either way', () => {
+    expect(interpretDate('03/04/2022')).toEqual({
+      normalised: '2022-04-03',
+      status: 'ambiguous',
+      warning: 'Could be 3 April 2022 or 4 March 2022; read day first'
+    });
+    expect(interpretDate('04/27/22')).toMatchObject({
+      normalised: '2022-04-27',
+      status: 'ambiguous',
+      warning: 'Read month first (US style); two-digit year read as 2022'
+    });
+  });
+
+  test('rejects dates that cannot be placed', () => {
+    expect(interpretDate('31 February 2022')).toMatchObject({ normalised: null, warning: 'Not a real calendar date' });
+    expect(interpretDate('27 April')).toMatchObject({ status: 'invalid', warning: 'No year given' });
+    expect(interpretDate('next Tuesday')).toMatchObject({ status: 'invalid' });
+  });
+
+  test('reads amounts in the chosen number format', () => {
+    expect(interpretAmount('35,000', en)).toEqual({ normalised: '35000.00', status: 'ok' });
+    expect(interpretAmount('35.000,00', eu)).toEqual({ normalised: '35000.00', status: 'ok' });
+    expect(interpretAmount('35 000,5', space)).toEqual({ normalised: '35000.50', status: 'ok' });
+    expect(interpretAmount('NZD $1,234.56', en)).toMatchObject({ normalised: '1234.56' });
+    expect(interpretAmount('£12 GBP', en)).toMatchObject({ normalised: '12.00' });
+  });
+
+  test('flags amounts written in another format', () => {
+    expect(interpretAmount('35.000,00', en)).toEqual({
+      normalised: null,
+      status: 'invalid',
+      warning: 'Not a 1,234.56 amount; it reads as 35000.00 in 1.234,56 format'
+    });
+    expect(interpretAmount('35,000', eu)).toEqual({
+      normalised: '35.000',
+      status: 'ambiguous',
+      warning: 'Could also be 35000.00 in another number format'
+    });
+    expect(interpretAmount('about forty', en)).toMatchObject({ status: 'invalid', warning: 'Not a recognised amount' });
+  });
+
+  test('maps payment methods onto the known set', () => {
+    expect(interpretPaymentMethod('Personal Card')).toEqual({ normalised: 'personal-card', status: 'ok' });
+    expect(interpretPaymentMethod('paid by corporate card')).toEqual({ normalised: 'company-card', status: 'ok' });
+    expect(interpretPaymentMethod('company card, then petty cash')).toMatchObject({ status: 'ambiguous' });
+    expect(interpretPaymentMethod('bitcoin')).toMatchObject({ normalised: null, status: 'invalid' });
+  });
+
+  test('interprets the typed fields of a result', () => {
+    const values = interpretResult({
+      xmlBlocks: [{ tagName: 'expense', fields: { cost_centre: 'DEV632', total: '35,000', payment_method: 'personal card' }, rawXml: '' }],
+      taggedFields: { vendor: 'Seaside Steakhouse', date: '27 April 2022' },
+      calculations: null,
+      isValid: true,
+      errors: [],
+      errorDetails: []
+    }, en);
+
+    expect(values.map(value => [value.field, value.normalised])).toEqual([
+      ['expense.total', '35000.00'],
+      ['expense.payment_method', 'personal-card'],
+      ['date', '2022-04-27']
+    ]);
+  });
+});
@@ -0,0 +1,286 @@
+import { ParseResult } from '../types/api';
+
+/**
+ * Reads extracted values as the types they stand for: dates as ISO 8601, amounts as plain
+ * decimals in a chosen number format, and payment methods as one of a known set.
+ * Anything that cannot be read, or could be read more than one way, carries a warning.
+ */
+
+export type ValueKind = 'date' | 'amount' | 'payment-method';
+
+export type InterpretationStatus = 'ok' | 'ambiguous' | 'invalid';
+
+export interface InterpretedValue {
+  /** Field name, prefixed with the block tag for block fields (e.g. "expense.total") */
+  field: string;
+  kind: ValueKind;
+  raw: string;
+  /** ISO date, plain decimal ("35000.00") or payment method code; null when unreadable */
+  normalised: string | null;
+  status: InterpretationStatus;
+  warning?: string;
+}
+
+export type NumberFormatCode = 'en' | 'eu' | 'space';
+
+export interface NumberFormat {
+  code: NumberFormatCode;
+  /** How 1234.56 is written in this format */
+  example: string;
+  groupSeparator: string;
+  decimalSeparator: string;
+}
+
+export const NUMBER_FORMATS: NumberFormat[] = [
+  { code: 'en', example: '1,234.56', groupSeparator: ',', decimalSeparator: '.' },
+  { code: 'eu', example: '1.234,56', groupSeparator: '.', decimalSeparator: ',' },
+  { code: 'space', example: '1 234,56', groupSeparator: ' ', decimalSeparator: ',' }
+];
+
+export const DEFAULT_NUMBER_FORMAT = NUMBER_FORMATS[0];
+
+export type PaymentMethod = 'personal-card' | 'company-card' | 'cash' | 'bank-transfer' | 'invoice';
+
+export const PAYMENT_METHODS: Record<PaymentMethod, string[]> = {
+  'personal-card': ['personal card', 'personal credit card', 'own card', 'my card', 'personal'],
+  'company-card': ['company card', 'corporate card', 'business card', 'company credit card', 'corporate'],
+  cash: ['cash', 'petty cash'],
+  'bank-transfer': ['bank transfer', 'direct credit', 'eft', 'wire transfer'],
+  invoice: ['invoice', 'on account', 'account']
+};
+
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december'];
+
+const CURRENCY_MARKS = /^(?:(?:[A-Z]{3}|[A-Z]?\$|£|€)\s*)+|\s*[A-Z]{3}$/g;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const isRealDate = (year: number, month: number, day: number) => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+};
+
+const formatDate = (year: number, month: number, day: number) =>
+  `${day} ${MONTHS[month - 1].charAt(0).toUpperCase()}${MONTHS[month - 1].slice(1)} ${year}`;
+
+const findMonth = (name: string): number => {
+  const lower = name.toLowerCase().replace(/\.$/, '');
+  if (lower.length < 3) {
+    return 0;
+  }
+  return MONTHS.findIndex(month => month.startsWith(lower)) + 1;
+};
+
+const expandYear = (text: string): number => {
+  const year = Number(text);
+  return text.length === 2 ? 2000 + year : year;
+};
+
+type Reading = Omit<InterpretedValue, 'field' | 'kind' | 'raw'>;
+
+function dateReading(year: number, month: number, day: number, warning?: string): Reading {
+  if (!isRealDate(year, month, day)) {
+    return { normalised: null, status: 'invalid', warning: 'Not a real calendar date' };
+  }
+  return {
+    normalised: `${year}-${pad(month)}-${pad(day)}`,
+    status: warning ? 'ambiguous' : 'ok',
+    warning
+  };
+}
+
+/**
+ * Reads a date written as ISO, day-month-year with a month name, month-name-first, or all numbers.
+ * All-number dates are read day first (as in NZ, AU and the UK) and flagged when they could be either.
+ */
+export function interpretDate(raw: string): Reading {
+  // Weekday names and ordinal suffixes add nothing
+  const text = raw.trim()
+    .replace(/^[A-Za-z]+day,?\s+/i, '')
+    .replace(/(\d+)(st|nd|rd|th)\b/gi, '$1');
+  let match: RegExpExecArray | null;
+
+  if ((match = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(text))) {
+    return dateReading(Number(match[1]), Number(match[2]), Number(match[3]));
+  }
+
+  if ((match = /^(\d{1,2})[\s-]+([A-Za-z]+\.?)[\s-,]+(\d{2}|\d{4})$/.exec(text))) {
+    const month = findMonth(match[2]);
+    if (month) {
+      const warning = match[3].length === 2 ? `Two-digit year read as ${expandYear(match[3])}` : undefined;
+      return dateReading(expandYear(match[3]), month, Number(match[1]), warning);
+    }
+  }
+
+  if ((match = /^([A-Za-z]+\.?)\s+(\d{1,2}),?\s+(\d{4})$/.exec(text))) {
+    const month = findMonth(match[1]);
+    if (month) {
+      return dateReading(Number(match[3]), month, Number(match[2]));
+    }
+  }
+
+  if ((match = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/.exec(text))) {
+    const first = Number(match[1]);
+    const second = Number(match[2]);
+    const year = expandYear(match[3]);
+    const notes = match[3].length === 2 ? [`two-digit year read as ${year}`] : [];
+    const warningWith = (...extra: string[]) => {
+      const parts = [...extra, ...notes];
+      return parts.length > 0 ? parts.join('; ').replace(/^./, char => char.toUpperCase()) : undefined;
+    };
+
+    if (first > 12 || first === second) {
+      return dateReading(year, second, first, warningWith());
+    }
+    if (second > 12) {
+      return dateReading(year, first, second, warningWith('read month first (US style)'));
+    }
+    if (!isRealDate(year, second, first)) {
+      return dateReading(year, second, first);
+    }
+    return dateReading(year, second, first,
+      warningWith(`could be ${formatDate(year, second, first)} or ${formatDate(year, first, second)}; read day first`));
+  }
+
+  if (/^\d{1,2}\s+[A-Za-z]+$/.test(text) || /^[A-Za-z]+\s+\d{1,2}$/.test(text)) {
+    return { normalised: null, status: 'invalid', warning: 'No year given' };
+  }
+
+  return { normalised: null, status: 'invalid', warning: 'Not a recognised date' };
+}
+
+/**
+ * The amount as a plain decimal with at least two places, or null if it is not written in this format
+ */
+function readDecimal(text: string, format: NumberFormat): string | null {
+  const group = format.groupSeparator === ' ' ? '[ \\u00A0]' : `\\${format.groupSeparator}`;
+  const decimal = `\\${format.decimalSeparator}`;
+  const pattern = new RegExp(`^(-?)(\\d{1,3}(?:${group}\\d{3})+|\\d+)(?:${decimal}(\\d+))?$`);
+  const match = pattern.exec(text);
+  if (!match) {
+    return null;
+  }
+
+  const whole = match[2].replace(/\D/g, '').replace(/^0+(?=\d)/, '');
+  const fraction = (match[3] || '').padEnd(2, '0');
+  return `${match[1]}${whole}.${fraction}`;
+}
+
+/**
+ * Reads an amount in the given number format, ignoring currency symbols and codes.
+ * Exactly three decimal places usually means a thousands separator from another format
+ * ("35.000" in 1,234.56 format), so those are flagged when another format reads them differently.
+ */
+export function interpretAmount(raw: string, format: NumberFormat = DEFAULT_NUMBER_FORMAT): Reading {
+  const text = raw.trim().replace(CURRENCY_MARKS, '').trim();
+  const normalised = readDecimal(text, format);
+
+  if (normalised === null) {
+    const other = NUMBER_FORMATS.find(candidate => candidate !== format && readDecimal(text, candidate) !== null);
+    return {
+      normalised: null,
+      status: 'invalid',
+      warning: other
+        ? `Not a ${format.example} amount; it reads as ${readDecimal(text, other)} in ${other.example} format`
+        : 'Not a recognised amount'
+    };
+  }
+
+  const hasThreeDecimals = new RegExp(`\\${format.decimalSeparator}\\d{3}$`).test(text);
+  const alternatives = NUMBER_FORMATS
+    .filter(candidate => candidate !== format)
+    .map(candidate => readDecimal(text, candidate))
+    .filter((reading): reading is string => reading !== null && Number(reading) !== Number(normalised));
+
+  if (hasThreeDecimals && alternatives.length > 0) {
+    return {
+      normalised,
+      status: 'ambiguous',
+      warning: `Could also be ${alternatives[0]} in another number format`
+    };
+  }
+
+  return { normalised, status: 'ok' };
+}
+
+/**
+ * Maps a payment method onto the known set, ignoring case and punctuation
+ */
+export function interpretPaymentMethod(raw: string): Reading {
+  const text = raw.trim().toLowerCase().replace(/[^a-z\s]/g, ' ').replace(/\s+/g, ' ').trim();
+  const methods = Object.entries(PAYMENT_METHODS) as Array<[PaymentMethod, string[]]>;
+
+  const exact = methods.find(([, synonyms]) => synonyms.includes(text));
+  if (exact) {
+    return { normalised: exact[0], status: 'ok' };
+  }
+
+  // Longer phrases such as "paid on personal card" still name a single method
+  const partial = methods.filter(([, synonyms]) => synonyms.some(synonym => synonym.includes(' ') && text.includes(synonym)));
+  if (partial.length === 1) {
+    return { normalised: partial[0][0], status: 'ok' };
+  }
+  if (partial.length > 1) {
+    return {
+      normalised: null,
+      status: 'ambiguous',
+      warning: `Mentions more than one payment method: ${partial.map(([method]) => method).join(', ')}`
+    };
+  }
+
+  return {
+    normalised: null,
+    status: 'invalid',
+    warning: `Unknown payment method; expected one of ${Object.keys(PAYMENT_METHODS).join(', ')}`
+  };
+}
+
+/**
+ * The kind of value a field holds, judged by its name; undefined for free text
+ */
+export function valueKindOf(fieldName: string): ValueKind | undefined {
+  const name = fieldName.toLowerCase();
+  if (name === 'date' || name.endsWith('_date')) {
+    return 'date';
+  }
+  if (['total', 'amount', 'subtotal', 'tax'].includes(name) || name.endsWith('_amount') || name.endsWith('_total')) {
+    return 'amount';
+  }
+  if (name === 'payment_method') {
+    return 'payment-method';
+  }
+  return undefined;
+}
+
+export function interpretValue(
+  field: string,
+  kind: ValueKind,
+  raw: string,
+  format: NumberFormat = DEFAULT_NUMBER_FORMAT
+): InterpretedValue {
+  switch (kind) {
+    case 'date':
+      return { field, kind, raw, ...interpretDate(raw) };
+    case 'amount':
+      return { field, kind, raw, ...interpretAmount(raw, format) };
+    case 'payment-method':
+      return { field, kind, raw, ...interpretPaymentMethod(raw) };
+  }
+}
+
+/**
+ * Interprets every typed field in a result: block fields first (as "tag.field"), then tagged fields
+ */
+export function interpretResult(result: ParseResult, format: NumberFormat = DEFAULT_NUMBER_FORMAT): InterpretedValue[] {
+  const fields: Array<[string, string, string]> = [
+    ...result.xmlBlocks.flatMap(block =>
+      Object.entries(block.fields).map(([name, value]): [string, string, string] => [`${block.tagName}.${name}`, name, value])),
+    ...Object.entries(result.taggedFields).map(([name, value]): [string, string, string] => [name, name, value])
+  ];
+
+  return fields.flatMap(([field, name, value]) => {
+    const kind = valueKindOf(name);
+    return kind ? [interpretValue(field, kind, value, format)] : [];
+  });
+}
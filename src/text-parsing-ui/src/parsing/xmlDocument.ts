@@ -0,0 +1,396 @@
+/**
+ * Minimal XML parser for the block snippets found in email text.
+ * Mirrors the well-formedness rules XDocument.Parse enforces on the server
+ * so the client engine accepts and rejects exactly the same blocks.
+ */
+
+export interface XmlTextNode {
+  type: 'text';
+  value: string;
+  isCData: boolean;
+}
+
+export interface XmlCommentNode {
+  type: 'comment';
+  value: string;
+}
+
+export interface XmlElementNode {
+  type: 'element';
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlNode[];
+  /** Offset of the element's '<' in the parsed source */
+  start: number;
+  /** Offset just past the element's closing '>' */
+  end: number;
+}
+
+export type XmlNode = XmlTextNode | XmlCommentNode | XmlElementNode;
+
+export class XmlSyntaxError extends Error {
+  constructor(message: string, public position: number) {
+    super(`${message} (at offset ${position})`);
+    this.name = 'XmlSyntaxError';
+  }
+}
+
+const PREDEFINED_ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  apos: "'",
+  quot: '"'
+};
+
+const NAME_START_CHAR = /[A-Za-z_:\u00C0-\u00D6\u00D8-\u00F6\u00F8-\u02FF\u0370-\u037D\u037F-\u1FFF\u200C-\u200D\u2070-\u218F\u2C00-\u2FEF\u3001-\uD7FF\uF900-\uFDCF\uFDF0-\uFFFD]/;
+const NAME_CHAR = /[-.0-9\u00B7\u0300-\u036F\u203F-\u2040A-Za-z_:\u00C0-\u00D6\u00D8-\u00F6\u00F8-\u02FF\u0370-\u037D\u037F-\u1FFF\u200C-\u200D\u2070-\u218F\u2C00-\u2FEF\u3001-\uD7FF\uF900-\uFDCF\uFDF0-\uFFFD]/;
+
+const isXmlChar = (codePoint: number): boolean =>
+  codePoint === 0x9 || codePoint === 0xA || codePoint === 0xD ||
+  (codePoint >= 0x20 && codePoint <= 0xD7FF) ||
+  (codePoint >= 0xE000 && codePoint <= 0xFFFD) ||
+  (codePoint >= 0x10000 && codePoint <= 0x10FFFF);
+
+const isWhitespace = (char: string): boolean =>
+  char === ' ' || char === '\t' || char === '\n' || char === '\r';
+
+/**
+ * Recursive-descent parser over a single XML document string
+ */
+class XmlReader {
+  private position = 0;
+
+  constructor(private readonly source: string) {}
+
+  parseDocument(): XmlElementNode {
+    this.skipMisc();
+    if (this.peek() !== '<') {
+      this.fail('Root element is missing');
+    }
+
+    const root = this.parseElement();
+    this.skipMisc();
+
+    if (this.position < this.source.length) {
+      this.fail('Unexpected content after the root element');
+    }
+
+    return root;
+  }
+
+  private parseElement(): XmlElementNode {
+    const start = this.position;
+    this.expect('<');
+    const name = this.parseName();
+    const attributes: Record<string, string> = {};
+
+    for (;;) {
+      const hadWhitespace = this.skipWhitespace();
+      const char = this.peek();
+
+      if (char === '/') {
+        this.expect('/>');
+        return { type: 'element', name, attributes, children: [], start, end: this.position };
+      }
+
+      if (char === '>') {
+        this.position++;
+        break;
+      }
+
+      if (!hadWhitespace) {
+        this.fail(`Unexpected character in start tag '${name}'`);
+      }
+
+      const attributeName = this.parseName();
+      if (Object.prototype.hasOwnProperty.call(attributes, attributeName)) {
+        this.fail(`Duplicate attribute '${attributeName}'`);
+      }
+
+      this.skipWhitespace();
+      this.expect('=');
+      this.skipWhitespace();
+      attributes[attributeName] = this.parseAttributeValue();
+    }
+
+    const children = this.parseContent();
+
+    this.expect('</');
+    const closingName = this.parseName();
+    if (closingName !== name) {
+      this.fail(`The '${name}' start tag does not match the end tag of '${closingName}'`);
+    }
+    this.skipWhitespace();
+    this.expect('>');
+
+    return { type: 'element', name, attributes, children, start, end: this.position };
+  }
+
+  private parseContent(): XmlNode[] {
+    const children: XmlNode[] = [];
+    let text = '';
+
+    const flushText = () => {
+      if (text) {
+        children.push({ type: 'text', value: text, isCData: false });
+        text = '';
+      }
+    };
+
+    for (;;) {
+      if (this.position >= this.source.length) {
+        this.fail('Unexpected end of input');
+      }
+
+      if (this.startsWith('</')) {
+        flushText();
+        return children;
+      }
+
+      if (this.startsWith('<!--')) {
+        flushText();
+        children.push(this.parseComment());
+      } else if (this.startsWith('<![CDATA[')) {
+        flushText();
+        children.push(this.parseCData());
+      } else if (this.startsWith('<?')) {
+        flushText();
+        this.skipProcessingInstruction();
+      } else if (this.peek() === '<') {
+        flushText();
+        children.push(this.parseElement());
+      } else if (this.peek() === '&') {
+        text += this.parseReference();
+      } else {
+        if (this.startsWith(']]>')) {
+          this.fail("']]>' is not allowed in text content");
+        }
+        text += this.readChar();
+      }
+    }
+  }
+
+  private parseComment(): XmlCommentNode {
+    this.expect('<!--');
+    const end = this.source.indexOf('--', this.position);
+    if (end === -1) {
+      this.fail('Unterminated comment');
+    }
+    if (this.source.charAt(end + 2) !== '>') {
+      this.fail("'--' is not allowed inside a comment");
+    }
+
+    const value = this.source.substring(this.position, end);
+    this.validateChars(value);
+    this.position = end + 3;
+
+    return { type: 'comment', value };
+  }
+
+  private parseCData(): XmlTextNode {
+    this.expect('<![CDATA[');
+    const end = this.source.indexOf(']]>', this.position);
+    if (end === -1) {
+      this.fail('Unterminated CDATA section');
+    }
+
+    const value = this.source.substring(this.position, end);
+    this.validateChars(value);
+    this.position = end + 3;
+
+    return { type: 'text', value: normalizeLineEndings(value), isCData: true };
+  }
+
+  private skipProcessingInstruction(): void {
+    this.expect('<?');
+    const target = this.parseName();
+    if (target.toLowerCase() === 'xml') {
+      this.fail('Unexpected XML declaration');
+    }
+
+    const end = this.source.indexOf('?>', this.position);
+    if (end === -1) {
+      this.fail('Unterminated processing instruction');
+    }
+    this.position = end + 2;
+  }
+
+  private parseAttributeValue(): string {
+    const quote = this.peek();
+    if (quote !== '"' && quote !== "'") {
+      this.fail('Attribute value must be quoted');
+    }
+    this.position++;
+
+    let value = '';
+    for (;;) {
+      if (this.position >= this.source.length) {
+        this.fail('Unterminated attribute value');
+      }
+
+      const char = this.peek();
+      if (char === quote) {
+        this.position++;
+        return value;
+      }
+      if (char === '<') {
+        this.fail("'<' is not allowed in attribute values");
+      }
+
+      if (char === '&') {
+        value += this.parseReference();
+      } else {
+        const next = this.readChar();
+        value += isWhitespace(next) ? ' ' : next;
+      }
+    }
+  }
+
+  private parseReference(): string {
+    this.expect('&');
+    const end = this.source.indexOf(';', this.position);
+    if (end === -1) {
+      this.fail('Unterminated entity reference');
+    }
+
+    const reference = this.source.substring(this.position, end);
+    this.position = end + 1;
+
+    if (reference.charAt(0) === '#') {
+      const isHex = reference.charAt(1) === 'x';
+      const digits = reference.substring(isHex ? 2 : 1);
+      const valid = isHex ? /^[0-9a-fA-F]+$/.test(digits) : /^[0-9]+$/.test(digits);
+      const codePoint = valid ? parseInt(digits, isHex ? 16 : 10) : NaN;
+
+      if (isNaN(codePoint) || !isXmlChar(codePoint)) {
+        this.fail(`Invalid character reference '&${reference};'`);
+      }
+      return String.fromCodePoint(codePoint);
+    }
+
+    if (!Object.prototype.hasOwnProperty.call(PREDEFINED_ENTITIES, reference)) {
+      this.fail(`Reference to undeclared entity '${reference}'`);
+    }
+    return PREDEFINED_ENTITIES[reference];
+  }
+
+  private parseName(): string {
+    const start = this.position;
+    if (!NAME_START_CHAR.test(this.peek())) {
+      this.fail('Invalid name character');
+    }
+    this.position++;
+
+    while (this.position < this.source.length && NAME_CHAR.test(this.peek())) {
+      this.position++;
+    }
+
+    return this.source.substring(start, this.position);
+  }
+
+  /**
+   * Reads one character, folding CRLF and lone CR into LF as XML parsers do
+   */
+  private readChar(): string {
+    const codePoint = this.source.codePointAt(this.position)!;
+    if (!isXmlChar(codePoint)) {
+      this.fail('Invalid character in content');
+    }
+
+    const char = String.fromCodePoint(codePoint);
+    this.position += char.length;
+
+    if (char === '\r') {
+      if (this.peek() === '\n') {
+        this.position++;
+      }
+      return '\n';
+    }
+    return char;
+  }
+
+  private validateChars(value: string): void {
+    for (let index = 0; index < value.length; index++) {
+      const codePoint = value.codePointAt(index)!;
+      if (!isXmlChar(codePoint)) {
+        this.fail('Invalid character in content');
+      }
+      if (codePoint > 0xFFFF) {
+        index++;
+      }
+    }
+  }
+
+  private skipMisc(): void {
+    for (;;) {
+      this.skipWhitespace();
+      if (this.startsWith('<!--')) {
+        this.parseComment();
+      } else if (this.startsWith('<?')) {
+        this.skipProcessingInstruction();
+      } else {
+        return;
+      }
+    }
+  }
+
+  private skipWhitespace(): boolean {
+    const start = this.position;
+    while (this.position < this.source.length && isWhitespace(this.peek())) {
+      this.position++;
+    }
+    return this.position > start;
+  }
+
+  private peek(): string {
+    return this.source.charAt(this.position);
+  }
+
+  private startsWith(token: string): boolean {
+    return this.source.startsWith(token, this.position);
+  }
+
+  private expect(token: string): void {
+    if (!this.startsWith(token)) {
+      this.fail(`Expected '${token}'`);
+    }
+    this.position += token.length;
+  }
+
+  private fail(message: string): never {
+    throw new XmlSyntaxError(message, this.position);
+  }
+}
+
+function normalizeLineEndings(value: string): string {
+  return value.replace(/\r\n?/g, '\n');
+}
+
+/**
+ * Parses an XML string into an element tree, throwing XmlSyntaxError when it is not well-formed
+ */
+export function parseXml(source: string): XmlElementNode {
+  return new XmlReader(source).parseDocument();
+}
+
+/**
+ * Child elements of a node, ignoring text and comments
+ */
+export function childElements(element: XmlElementNode): XmlElementNode[] {
+  return element.children.filter((child): child is XmlElementNode => child.type === 'element');
+}
+
+/**
+ * Concatenated text of all descendant text nodes (the XElement.Value equivalent)
+ */
+export function textContent(node: XmlNode): string {
+  switch (node.type) {
+    case 'text':
+      return node.value;
+    case 'comment':
+      return '';
+    case 'element':
+      return node.children.map(textContent).join('');
+  }
+}
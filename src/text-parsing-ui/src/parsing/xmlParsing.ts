@@ -0,0 +1,336 @@
+import { ErrorDetail, XmlBlock } from '../types/api';
+import { childElements, parseXml, textContent, XmlElementNode, XmlSyntaxError } from './xmlDocument';
+import { ValidationConfiguration, isContentValid } from './validationRules';
+
+/**
+ * Client-side port of the server's XmlParsingService.
+ * The patterns below reproduce the .NET regular expressions exactly,
+ * including \w matching any Unicode letter or digit.
+ */
+
+const WORD = '[\\p{L}\\p{Mn}\\p{Nd}\\p{Pc}]+';
+
+const taggedFieldRegex = () => new RegExp(`<(${WORD})>([^<]+)</\\1>`, 'giu');
+const xmlBlockFinderRegex = () => new RegExp(`<(${WORD})>[\\s\\S]*?</\\1>`, 'giu');
+const openingTagRegex = () => new RegExp(`<(${WORD})>`, 'gu');
+const closingTagRegex = () => new RegExp(`</(${WORD})>`, 'gu');
+const anyTagRegex = () => new RegExp(`<(/?)(${WORD})>`, 'giu');
+const rootTagRegex = () => new RegExp(`<(${WORD})`, 'u');
+const tagAtStartRegex = () => new RegExp(`^</?${WORD}>`, 'u');
+
+export interface StructureValidation {
+  isValid: boolean;
+  errors: string[];
+  /** The errors above with their codes and positions; one unclosed-tag error has a detail per tag */
+  errorDetails: ErrorDetail[];
+}
+
+export interface TagPosition {
+  tagName: string;
+  /** Offset of the tag's '<' in the content */
+  offset: number;
+  /** Length of the whole tag, e.g. 9 for "<expense>" */
+  length: number;
+  isClosing: boolean;
+}
+
+export interface MalformedBlock {
+  rootTagName: string;
+  /** Offset of the block's opening tag in the content */
+  offset: number;
+  /** Offset in the content where the XML parser gave up */
+  errorOffset: number;
+}
+
+/** One field element found in the content, before later duplicates are merged away */
+export interface FieldOccurrence {
+  name: string;
+  value: string;
+  /** Offset of the field's opening tag in the content */
+  offset: number;
+  /** Length from the opening tag to the end of the closing tag */
+  length: number;
+}
+
+export interface LocatedXmlBlock {
+  block: XmlBlock;
+  /** Offset of the block's opening tag in the content */
+  offset: number;
+  /** The block's field elements in document order, including any the block's fields map overwrote */
+  fieldOccurrences: FieldOccurrence[];
+}
+
+const countMatches = (regex: RegExp, text: string): number => (text.match(regex) || []).length;
+
+/**
+ * Determines if an XML block is a top-level block (not nested inside another)
+ */
+function isTopLevelXmlBlock(content: string, matchIndex: number): boolean {
+  const beforeMatch = content.substring(0, matchIndex);
+
+  const openTagsBefore = countMatches(openingTagRegex(), beforeMatch);
+  const closeTagsBefore = countMatches(closingTagRegex(), beforeMatch);
+
+  return openTagsBefore <= closeTagsBefore;
+}
+
+/**
+ * Finds the field elements of a block: children that hold text (no nested elements)
+ */
+function findFieldElements(element: XmlElementNode, blockOffset: number): FieldOccurrence[] {
+  const occurrences: FieldOccurrence[] = [];
+
+  for (const child of childElements(element)) {
+    const value = textContent(child);
+    if (childElements(child).length === 0 && value.trim()) {
+      occurrences.push({
+        name: child.name,
+        value: value.trim(),
+        offset: blockOffset + child.start,
+        length: child.end - child.start
+      });
+    }
+  }
+
+  return occurrences;
+}
+
+/**
+ * Merges field occurrences into a map; the last occurrence of a name wins
+ */
+function toFieldMap(occurrences: FieldOccurrence[]): Record<string, string> {
+  const fields: Record<string, string> = {};
+  for (const occurrence of occurrences) {
+    fields[occurrence.name] = occurrence.value;
+  }
+  return fields;
+}
+
+/**
+ * Extracts complete XML blocks from text content.
+ * Only multi-element structures are considered XML blocks; single tags are tagged fields.
+ */
+export function extractXmlBlocks(content: string): XmlBlock[] {
+  return locateXmlBlocks(content).map(located => located.block);
+}
+
+/**
+ * Finds the same XML blocks as extractXmlBlocks, along with where they and their fields sit in the content
+ */
+export function locateXmlBlocks(content: string): LocatedXmlBlock[] {
+  const xmlBlocks: LocatedXmlBlock[] = [];
+  const finder = xmlBlockFinderRegex();
+  let match: RegExpExecArray | null;
+
+  while ((match = finder.exec(content)) !== null) {
+    let root: XmlElementNode;
+    try {
+      root = parseXml(match[0]);
+    } catch {
+      // Skip malformed XML blocks - they'll be caught in validation
+      continue;
+    }
+
+    if (childElements(root).length > 0 && isTopLevelXmlBlock(content, match.index)) {
+      const fieldOccurrences = findFieldElements(root, match.index);
+      xmlBlocks.push({
+        block: {
+          tagName: root.name,
+          fields: toFieldMap(fieldOccurrences),
+          rawXml: match[0]
+        },
+        offset: match.index,
+        fieldOccurrences
+      });
+    }
+  }
+
+  return xmlBlocks;
+}
+
+/**
+ * Extracts individual tagged fields from text content (excluding actual XML blocks).
+ * The last occurrence wins when a tag appears more than once.
+ */
+export function extractTaggedFields(content: string): Record<string, string> {
+  return toFieldMap(findTaggedFieldOccurrences(content));
+}
+
+/**
+ * Finds every tagged field match in document order, with offsets into the original content.
+ * XML blocks are removed first, exactly as the server does, so a field can span a removed block.
+ */
+export function findTaggedFieldOccurrences(content: string): FieldOccurrence[] {
+  let contentWithoutXmlBlocks = content;
+  // Original offset of each character left after the blocks are removed
+  let origins = Array.from({ length: content.length }, (_, index) => index);
+
+  for (const { block } of locateXmlBlocks(content)) {
+    const pieces = contentWithoutXmlBlocks.split(block.rawXml);
+    let keptOrigins: number[] = [];
+    let position = 0;
+    for (const piece of pieces) {
+      keptOrigins = keptOrigins.concat(origins.slice(position, position + piece.length));
+      position += piece.length + block.rawXml.length;
+    }
+    contentWithoutXmlBlocks = pieces.join('');
+    origins = keptOrigins;
+  }
+
+  const occurrences: FieldOccurrence[] = [];
+  const finder = taggedFieldRegex();
+  let match: RegExpExecArray | null;
+
+  while ((match = finder.exec(contentWithoutXmlBlocks)) !== null) {
+    const offset = origins[match.index];
+    occurrences.push({
+      name: match[1],
+      value: match[2].trim(),
+      offset,
+      length: origins[match.index + match[0].length - 1] + 1 - offset
+    });
+  }
+
+  return occurrences;
+}
+
+/**
+ * Lists every opening and closing tag in the content, in order, with lower-cased names
+ */
+export function scanTags(content: string): TagPosition[] {
+  const tags: TagPosition[] = [];
+  const finder = anyTagRegex();
+  let match: RegExpExecArray | null;
+
+  while ((match = finder.exec(content)) !== null) {
+    tags.push({
+      tagName: match[2].toLowerCase(),
+      offset: match.index,
+      length: match[0].length,
+      isClosing: match[1] !== ''
+    });
+  }
+
+  return tags;
+}
+
+/**
+ * Finds the individual tags behind an unclosed-tag error: closing tags that do not match
+ * the most recent open tag, followed by open tags that are never closed (innermost first)
+ */
+export function findUnclosedTagPositions(content: string): TagPosition[] {
+  const unclosedTags: TagPosition[] = [];
+  const tagStack: TagPosition[] = [];
+
+  for (const tag of scanTags(content)) {
+    if (tag.isClosing) {
+      if (tagStack.length > 0 && tagStack[tagStack.length - 1].tagName === tag.tagName) {
+        tagStack.pop();
+      } else {
+        unclosedTags.push(tag);
+      }
+    } else {
+      tagStack.push(tag);
+    }
+  }
+
+  while (tagStack.length > 0) {
+    unclosedTags.push(tagStack.pop()!);
+  }
+
+  return unclosedTags;
+}
+
+/**
+ * Finds tags that are never closed, or closed out of order
+ */
+export function findUnclosedTags(content: string): string[] {
+  const unclosedTags = findUnclosedTagPositions(content).map(tag => tag.tagName);
+  return unclosedTags.filter((tag, index) => unclosedTags.indexOf(tag) === index);
+}
+
+/**
+ * Finds each block-shaped match that is not well-formed XML, with the offset where parsing failed
+ */
+export function findMalformedXmlBlocks(content: string): MalformedBlock[] {
+  const malformed: MalformedBlock[] = [];
+  const finder = xmlBlockFinderRegex();
+  let match: RegExpExecArray | null;
+
+  while ((match = finder.exec(content)) !== null) {
+    try {
+      parseXml(match[0]);
+    } catch (error) {
+      const rootTagMatch = rootTagRegex().exec(match[0]);
+      malformed.push({
+        rootTagName: rootTagMatch ? rootTagMatch[1] : 'unknown',
+        offset: match.index,
+        errorOffset: match.index + (error instanceof XmlSyntaxError ? error.position : 0)
+      });
+    }
+  }
+
+  return malformed;
+}
+
+/**
+ * Picks the text to point at for a malformed block: the whole tag the parser stopped in,
+ * a stray '<' it has just read, or else the single character it gave up on
+ */
+function malformedBlockSpan(content: string, block: MalformedBlock): { offset: number; length: number } {
+  const tagStart = content.lastIndexOf('<', block.errorOffset);
+  const tag = tagStart >= block.offset ? tagAtStartRegex().exec(content.substring(tagStart)) : null;
+
+  if (tag && tagStart + tag[0].length > block.errorOffset) {
+    return { offset: tagStart, length: tag[0].length };
+  }
+  if (tagStart >= block.offset && block.errorOffset - tagStart <= 1) {
+    return { offset: tagStart, length: 1 };
+  }
+  return { offset: block.errorOffset, length: 1 };
+}
+
+/**
+ * Validates XML structure and checks for unclosed tags
+ */
+export function validateXmlStructure(
+  content: string,
+  configuration: ValidationConfiguration
+): StructureValidation {
+  const { messages } = configuration;
+  const result: StructureValidation = { isValid: true, errors: [], errorDetails: [] };
+
+  if (!isContentValid(content)) {
+    const message = messages.emptyContentError;
+    return {
+      isValid: false,
+      errors: [message],
+      errorDetails: [{ code: 'empty-content', severity: 'error', message, tagName: null, offset: null, length: null }]
+    };
+  }
+
+  const unclosedTags = findUnclosedTagPositions(content);
+  if (unclosedTags.length > 0) {
+    const message = messages.unclosedTagError;
+    result.isValid = false;
+    result.errors.push(message);
+    result.errorDetails.push(...unclosedTags.map(({ tagName, offset, length }): ErrorDetail => (
+      { code: 'unclosed-tag', severity: 'error', message, tagName, offset, length }
+    )));
+  }
+
+  for (const block of findMalformedXmlBlocks(content)) {
+    const message = `${messages.malformedXmlError}: ${block.rootTagName}`;
+    result.isValid = false;
+    result.errors.push(message);
+    result.errorDetails.push({
+      code: 'malformed-xml',
+      severity: 'error',
+      message,
+      tagName: block.rootTagName,
+      ...malformedBlockSpan(content, block)
+    });
+  }
+
+  return result;
+}
@@ -0,0 +1,48 @@
+import { buildXmlTree, countOmitted, XmlTreeElement } from './xmlTree';
+import { extractXmlBlocks } from './xmlParsing';
+
+const element = (node: unknown) => node as XmlTreeElement;
+
+describe('XML tree', () => {
+  test('keeps nested elements, attributes and repeated siblings', () => {
+    const [block] = extractXmlBlocks(
+      '<expense><total currency="NZD">30</total><items><item qty="2">Coffee</item><item>Muffin</item></items></expense>'
+    );
+    const tree = buildXmlTree(block)!;
+
+    expect(block.fields).toEqual({ total: '30' });
+
+    const [total, items] = tree.children.map(element);
+    // The value made it into the fields but the attribute did not
+    expect(total).toMatchObject({
+      name: 'total',
+      attributes: [{ name: 'currency', value: 'NZD' }],
+      children: [{ kind: 'text', value: '30' }],
+      omitted: 'attributes'
+    });
+    expect(items.omitted).toBe('nested');
+
+    const [coffee, muffin] = items.children.map(element);
+    expect(coffee).toMatchObject({ siblingIndex: 1, siblingCount: 2, attributes: [{ name: 'qty', value: '2' }] });
+    expect(muffin).toMatchObject({ siblingIndex: 2, siblingCount: 2, children: [{ kind: 'text', value: 'Muffin' }] });
+
+    // The total's attribute and the items subtree are what the fields map dropped
+    expect(countOmitted(tree)).toBe(2);
+  });
+
+  test('flags earlier duplicates and loose text in the block', () => {
+    const [block] = extractXmlBlocks('<expense>Paid <total>10</total><total>12</total></expense>');
+    const tree = buildXmlTree(block)!;
+
+    expect(tree.children).toEqual([
+      { kind: 'text', value: 'Paid', omitted: 'text' },
+      expect.objectContaining({ name: 'total', omitted: 'duplicate', siblingIndex: 1 }),
+      expect.objectContaining({ name: 'total', omitted: undefined, siblingIndex: 2 })
+    ]);
+    expect(block.fields.total).toBe('12');
+  });
+
+  test('returns null for XML that does not parse', () => {
+    expect(buildXmlTree({ tagName: 'a', fields: {}, rawXml: '<a><b></a>' })).toBeNull();
+  });
+});
@@ -0,0 +1,133 @@
+import { XmlBlock } from '../types/api';
+import { childElements, parseXml, textContent, XmlElementNode, XmlNode } from './xmlDocument';
+
+/**
+ * Full element tree of an XML block, for showing what the flat fields map leaves out.
+ * Extraction only keeps the root's leaf children, last one wins, so nested elements, attributes,
+ * earlier duplicates and loose text in the root are all dropped; those nodes are flagged here.
+ */
+
+export type OmissionReason = 'nested' | 'duplicate' | 'attributes' | 'text';
+
+export interface XmlTreeAttribute {
+  name: string;
+  value: string;
+}
+
+export interface XmlTreeElement {
+  kind: 'element';
+  name: string;
+  attributes: XmlTreeAttribute[];
+  children: XmlTreeNode[];
+  /** 1-based position among siblings with the same name, when the name repeats */
+  siblingIndex?: number;
+  siblingCount?: number;
+  /** Set when this element, or part of it, is missing from the block's fields */
+  omitted?: OmissionReason;
+}
+
+export interface XmlTreeText {
+  kind: 'text';
+  value: string;
+  omitted?: OmissionReason;
+}
+
+export type XmlTreeNode = XmlTreeElement | XmlTreeText;
+
+export const OMISSION_DESCRIPTIONS: Record<OmissionReason, string> = {
+  nested: 'Has nested elements, so it is not in the fields',
+  duplicate: 'Replaced in the fields by a later element with the same name',
+  attributes: 'Attributes are not included in the fields',
+  text: 'Text directly inside the block is not included in the fields'
+};
+
+const isField = (node: XmlElementNode) =>
+  childElements(node).length === 0 && textContent(node).trim().length > 0;
+
+function buildChildren(nodes: XmlNode[], isRoot: boolean): XmlTreeNode[] {
+  const nameCounts = new Map<string, number>();
+  // The element each field name is finally read from
+  const fieldSources = new Map<string, XmlElementNode>();
+  for (const node of nodes) {
+    if (node.type === 'element') {
+      nameCounts.set(node.name, (nameCounts.get(node.name) || 0) + 1);
+      if (isField(node)) {
+        fieldSources.set(node.name, node);
+      }
+    }
+  }
+
+  const seen = new Map<string, number>();
+  const children: XmlTreeNode[] = [];
+
+  for (const node of nodes) {
+    if (node.type === 'comment') {
+      continue;
+    }
+
+    if (node.type === 'text') {
+      const value = node.value.trim();
+      if (value) {
+        children.push({ kind: 'text', value, omitted: isRoot ? 'text' : undefined });
+      }
+      continue;
+    }
+
+    const count = nameCounts.get(node.name)!;
+    const index = (seen.get(node.name) || 0) + 1;
+    seen.set(node.name, index);
+
+    const element = buildElement(node, false);
+    if (count > 1) {
+      element.siblingIndex = index;
+      element.siblingCount = count;
+    }
+
+    if (isRoot) {
+      if (childElements(node).length > 0) {
+        element.omitted = 'nested';
+      } else if (isField(node) && fieldSources.get(node.name) !== node) {
+        element.omitted = 'duplicate';
+      }
+    }
+
+    children.push(element);
+  }
+
+  return children;
+}
+
+function buildElement(node: XmlElementNode, isRoot: boolean): XmlTreeElement {
+  const attributes = Object.entries(node.attributes).map(([name, value]) => ({ name, value }));
+  return {
+    kind: 'element',
+    name: node.name,
+    attributes,
+    children: buildChildren(node.children, isRoot),
+    omitted: attributes.length > 0 ? 'attributes' : undefined
+  };
+}
+
+/**
+ * Parses a block's raw XML into a tree, or returns null if it is not well-formed
+ */
+export function buildXmlTree(block: XmlBlock): XmlTreeElement | null {
+  try {
+    return buildElement(parseXml(block.rawXml), true);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Counts flagged nodes, not descending into elements already flagged as a whole
+ */
+export function countOmitted(node: XmlTreeNode): number {
+  if (node.kind === 'text') {
+    return node.omitted ? 1 : 0;
+  }
+  if (node.omitted === 'nested' || node.omitted === 'duplicate') {
+    return 1;
+  }
+  return (node.omitted ? 1 : 0) + node.children.reduce((total, child) => total + countOmitted(child), 0);
+}
@@ -0,0 +1,133 @@
+import React from 'react';
+import { render, screen, within } from '@testing-library/react';
+import ParseResults from '../components/ParseResults';
+import { BlockRendererProps, findBlockRenderer, registerBlockRenderer } from './blockRenderers';
+import { ParseResult } from '../types/api';
+
+const result: ParseResult = {
+  xmlBlocks: [
+    {
+      tagName: 'expense',
+      fields: { total: '115', payment_method: 'company card', project: 'Apollo' },
+      rawXml: '<expense><total>115</total><payment_method>company card</payment_method><project>Apollo</project></expense>'
+    },
+    {
+      tagName: 'Reservation',
+      fields: { vendor: 'Seaside Steakhouse', date: '27 April 2022' },
+      rawXml: '<Reservation><vendor>Seaside Steakhouse</vendor><date>27 April 2022</date></Reservation>'
+    },
+    {
+      tagName: 'mileage',
+      fields: { km: '42' },
+      rawXml: '<mileage><km>42</km><note></note></mileage>'
+    }
+  ],
+  taggedFields: { cost_centre: 'UNKNOWN' },
+  calculations: null,
+  isValid: false,
+  errors: [],
+  errorDetails: []
+};
+
+const renderResults = () => render(
+  <ParseResults
+    xmlBlocks={result.xmlBlocks}
+    taggedFields={result.taggedFields}
+    calculations={result.calculations}
+    isValid={result.isValid}
+    jurisdiction="AU"
+  />
+);
+
+describe('block renderers', () => {
+  const registrations: Array<() => void> = [];
+
+  afterEach(() => {
+    registrations.splice(0).forEach(remove => remove());
+  });
+
+  test('shows expense and reservation blocks as cards', () => {
+    renderResults();
+
+    const expenseCard = screen.getByRole('region', { name: 'Expense' });
+    const reservationCard = screen.getByRole('region', { name: 'Reservation' });
+
+    expect(within(expenseCard).getByText('company card')).toBeInTheDocument();
+    // The cost centre default lands in the tagged fields, outside the block
+    expect(within(expenseCard).getByText('UNKNOWN')).toBeInTheDocument();
+    // No calculation on the result, so the selected jurisdiction's rate applies
+    expect(within(expenseCard).getByText('GST (10%)')).toBeInTheDocument();
+    expect(within(expenseCard).getByText('A$10.45')).toBeInTheDocument();
+    expect(within(expenseCard).getByText('Apollo')).toBeInTheDocument();
+
+    expect(within(reservationCard).getByText('Seaside Steakhouse')).toBeInTheDocument();
+    expect(within(reservationCard).getByText('Not provided')).toBeInTheDocument();
+  });
+
+  test('shows the tax breakdown of the result on the expense card when it has one', () => {
+    render(
+      <ParseResults
+        xmlBlocks={[result.xmlBlocks[0]]}
+        taggedFields={{}}
+        calculations={{ totalIncludingTax: 115, taxAmount: 15, totalExcludingTax: 100, taxRate: 15, taxName: 'GST', currency: 'NZD', jurisdiction: 'NZ' }}
+        isValid
+        jurisdiction="AU"
+      />
+    );
+
+    const expenseCard = screen.getByRole('region', { name: 'Expense' });
+    expect(within(expenseCard).getByText('GST (15%)')).toBeInTheDocument();
+    expect(within(expenseCard).getByText('$15.00')).toBeInTheDocument();
+  });
+
+  test('builds a reservation card from tagged fields only when there is no reservation block', () => {
+    const taggedFields = { vendor: 'Harbour Cafe', date: '3 May 2022' };
+    const { rerender } = render(
+      <ParseResults xmlBlocks={[]} taggedFields={taggedFields} calculations={null} isValid={false} />
+    );
+    expect(within(screen.getByRole('region', { name: 'Reservation' })).getByText('Harbour Cafe')).toBeInTheDocument();
+
+    rerender(
+      <ParseResults xmlBlocks={result.xmlBlocks} taggedFields={taggedFields} calculations={null} isValid={false} />
+    );
+    expect(screen.getAllByRole('region', { name: 'Reservation' })).toHaveLength(1);
+    expect(within(screen.getByRole('region', { name: 'Reservation' })).getByText('Seaside Steakhouse')).toBeInTheDocument();
+  });
+
+  test('shows the reservation built from tagged fields with the renderer registered for reservations', () => {
+    const BookingLine: React.FC<BlockRendererProps> = ({ block }) => (
+      <p>Booked at {block.fields.vendor}</p>
+    );
+    registrations.push(registerBlockRenderer('reservation', BookingLine));
+
+    render(
+      <ParseResults xmlBlocks={[]} taggedFields={{ vendor: 'Harbour Cafe' }} calculations={null} isValid={false} />
+    );
+
+    expect(screen.getByText('Booked at Harbour Cafe')).toBeInTheDocument();
+    expect(screen.queryByRole('region', { name: 'Reservation' })).not.toBeInTheDocument();
+  });
+
+  test('falls back to the JSON view for unregistered tags', () => {
+    renderResults();
+
+    expect(screen.queryByRole('region', { name: /mileage/i })).not.toBeInTheDocument();
+    // The block's own JSON comes before the complete output
+    expect(screen.getAllByText(/"km": "42"/)[0]).toHaveClass('json-content');
+  });
+
+  test('uses renderers registered from outside ParseResults until they are removed', () => {
+    const MileageCard: React.FC<BlockRendererProps> = ({ block }) => (
+      <p>{block.fields.km} km driven</p>
+    );
+    registrations.push(registerBlockRenderer('Mileage', MileageCard));
+
+    const { unmount } = renderResults();
+    expect(screen.getByText('42 km driven')).toBeInTheDocument();
+    unmount();
+
+    registrations.pop()!();
+    expect(findBlockRenderer('mileage')).toBeUndefined();
+    expect(findBlockRenderer('EXPENSE')).toBeDefined();
+  });
+});
@@ -0,0 +1,74 @@
+import React from 'react';
+import { ParseResult, SourceLocation, TracedField, XmlBlock } from '../types/api';
+import ExpenseBlockCard from '../components/ExpenseBlockCard';
+import ReservationBlockCard, { RESERVATION_FIELDS, RESERVATION_TAGS } from '../components/ReservationBlockCard';
+
+/**
+ * Registry of type-specific views for XML blocks, keyed by block tag name (case-insensitive).
+ * ParseResults looks a block's tag up here and falls back to its generic field view when
+ * nothing is registered, so a new block type only needs a registerBlockRenderer call at startup.
+ */
+
+export interface BlockRendererProps {
+  block: XmlBlock;
+  /** The whole result, for fields (such as defaults) that land outside the block */
+  result: ParseResult;
+  /** Jurisdiction selected in the app, used when the result has no calculation */
+  jurisdiction?: string;
+  /** Where each of the block's fields came from, when the input is available */
+  tracedFields?: TracedField[];
+  onHighlightSource?: (location: SourceLocation | null) => void;
+}
+
+export type BlockRenderer = React.ComponentType<BlockRendererProps>;
+
+const renderers = new Map<string, BlockRenderer>();
+
+/**
+ * Registers a renderer for one or more tag names, replacing any existing one.
+ * Returns a function that removes the registration again.
+ */
+export function registerBlockRenderer(tagNames: string | string[], renderer: BlockRenderer): () => void {
+  const keys = (Array.isArray(tagNames) ? tagNames : [tagNames]).map(name => name.toLowerCase());
+  const previous = keys.map(key => renderers.get(key));
+  keys.forEach(key => renderers.set(key, renderer));
+
+  return () => keys.forEach((key, index) => {
+    if (renderers.get(key) === renderer) {
+      const replaced = previous[index];
+      if (replaced) {
+        renderers.set(key, replaced);
+      } else {
+        renderers.delete(key);
+      }
+    }
+  });
+}
+
+/**
+ * The renderer registered for a tag name, if any
+ */
+export function findBlockRenderer(tagName: string): BlockRenderer | undefined {
+  return renderers.get(tagName.toLowerCase());
+}
+
+/**
+ * A reservation block built from loosely tagged vendor, description and date, as emails usually mark
+ * them up, so it is shown by whichever renderer is registered for reservations.
+ * Null when the result has a reservation block of its own or none of the fields were tagged.
+ */
+export function taggedReservation(result: ParseResult): XmlBlock | null {
+  if ((result.xmlBlocks || []).some(block => RESERVATION_TAGS.includes(block.tagName.toLowerCase()))) {
+    return null;
+  }
+
+  const taggedFields = result.taggedFields || {};
+  const fields = Object.fromEntries(
+    RESERVATION_FIELDS.filter(name => name in taggedFields).map(name => [name, taggedFields[name]])
+  );
+  return Object.keys(fields).length > 0 ? { tagName: 'reservation', fields, rawXml: '' } : null;
+}
+
+// Built-in views
+registerBlockRenderer('expense', ExpenseBlockCard);
+registerBlockRenderer(RESERVATION_TAGS, ReservationBlockCard);
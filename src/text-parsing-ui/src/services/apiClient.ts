@@ -0,0 +1,19 @@
+import { createContext } from 'react';
+import TextParsingApiService from './textParsingApi';
+import { ConnectionCheck, ParseResult, ValidationResult } from '../types/api';
+
+/**
+ * What the UI needs from the parsing backend.
+ * The app reads its client from ApiClientContext, so tests and demo mode can swap the axios-backed
+ * TextParsingApiService for the in-memory fake in ./fakeBackend without mocking modules.
+ */
+export interface TextParsingClient {
+  parseText(content: string, jurisdiction?: string, signal?: AbortSignal): Promise<ParseResult>;
+  validateText(content: string, signal?: AbortSignal): Promise<ValidationResult>;
+  testConnection(signal?: AbortSignal): Promise<ConnectionCheck>;
+}
+
+// Components rendered without a provider talk to the real API
+export const ApiClientContext = createContext<TextParsingClient>(TextParsingApiService);
+
+export const ApiClientProvider = ApiClientContext.Provider;
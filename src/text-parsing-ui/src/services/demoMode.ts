@@ -0,0 +1,27 @@
+import { FakeBackendOptions, FakeScenario, FAKE_SCENARIOS } from './fakeBackend';
+
+/**
+ * Demo mode runs the whole UI against the in-memory fake backend, so it can be shown without the .NET API.
+ * It is switched on by `?demo` in the URL or REACT_APP_DEMO_MODE=true at build time. `demoScenario`
+ * (normal, validation-failure, server-error) and `demoLatency` (ms) in the URL pick how the fake behaves.
+ */
+
+export const DEFAULT_DEMO_LATENCY_MS = 600;
+
+const isOn = (value: string | null | undefined) =>
+  value !== null && value !== undefined && !['0', 'false', 'off'].includes(value.toLowerCase());
+
+export function isDemoMode(search: string = window.location.search, envFlag: string | undefined = process.env.REACT_APP_DEMO_MODE): boolean {
+  return isOn(new URLSearchParams(search).get('demo')) || isOn(envFlag || null);
+}
+
+export function demoBackendOptions(search: string = window.location.search): Pick<FakeBackendOptions, 'scenario' | 'latencyMs'> {
+  const params = new URLSearchParams(search);
+  const scenario = params.get('demoScenario') as FakeScenario | null;
+  const latency = Number(params.get('demoLatency'));
+
+  return {
+    scenario: scenario && FAKE_SCENARIOS.includes(scenario) ? scenario : 'normal',
+    latencyMs: params.has('demoLatency') && Number.isFinite(latency) && latency >= 0 ? latency : DEFAULT_DEMO_LATENCY_MS
+  };
+}
@@ -0,0 +1,76 @@
+import { createFakeBackend } from './fakeBackend';
+import { DEFAULT_DEMO_LATENCY_MS, demoBackendOptions, isDemoMode } from './demoMode';
+import { ApiError, PartialParseError, ValidationError } from '../types/api';
+
+const VALID_CLAIM = '<expense><cost_centre>DEV632</cost_centre><total>115</total></expense>';
+
+describe('fake backend', () => {
+  test('parses valid content with the local engine and records the request', async () => {
+    const backend = createFakeBackend();
+
+    const result = await backend.parseText(VALID_CLAIM, 'AU');
+
+    expect(result.calculations).toMatchObject({ totalIncludingTax: 115, taxName: 'GST', jurisdiction: 'AU' });
+    expect(backend.requests).toEqual([{ endpoint: 'parse', content: VALID_CLAIM, jurisdiction: 'AU' }]);
+  });
+
+  test('fails invalid or empty content the way the API does', async () => {
+    const backend = createFakeBackend();
+
+    await expect(backend.parseText('<vendor>Cafe</vendor>')).rejects.toBeInstanceOf(PartialParseError);
+    await expect(backend.parseText('  ')).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  test('keeps the extracted fields when the validation-failure scenario rejects a valid claim', async () => {
+    const backend = createFakeBackend({ scenario: 'validation-failure' });
+
+    const error = await backend.parseText(VALID_CLAIM).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(PartialParseError);
+    expect((error as PartialParseError).partialResult.xmlBlocks[0].fields.cost_centre).toBe('DEV632');
+  });
+
+  test('answers every request with a 500 in the server-error scenario', async () => {
+    const backend = createFakeBackend({ scenario: 'server-error' });
+
+    await expect(backend.parseText(VALID_CLAIM)).rejects.toMatchObject({ statusCode: 500 });
+    await expect(backend.validateText(VALID_CLAIM)).rejects.toBeInstanceOf(ApiError);
+  });
+
+  test('reports the configured health', async () => {
+    const backend = createFakeBackend({ health: 'offline' });
+    await expect(backend.testConnection()).resolves.toMatchObject({ connected: false, status: 'offline' });
+
+    backend.configure({ health: 'unhealthy' });
+    await expect(backend.testConnection()).resolves.toMatchObject({ connected: true, status: 'degraded' });
+  });
+
+  test('waits out its latency and stops when the request is cancelled', async () => {
+    jest.useFakeTimers();
+    try {
+      const backend = createFakeBackend({ latencyMs: 1000 });
+      const controller = new AbortController();
+
+      const result = backend.parseText(VALID_CLAIM, undefined, controller.signal);
+      controller.abort();
+
+      await expect(result).rejects.toMatchObject({ name: 'AbortError' });
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
+
+describe('demo mode', () => {
+  test('is switched on by the URL flag or the environment', () => {
+    expect(isDemoMode('?demo', undefined)).toBe(true);
+    expect(isDemoMode('?demo=false', undefined)).toBe(false);
+    expect(isDemoMode('', 'true')).toBe(true);
+    expect(isDemoMode('', undefined)).toBe(false);
+  });
+
+  test('reads the scenario and latency from the URL, ignoring unknown values', () => {
+    expect(demoBackendOptions('?demo&demoScenario=server-error&demoLatency=0')).toEqual({ scenario: 'server-error', latencyMs: 0 });
+    expect(demoBackendOptions('?demo&demoScenario=flaky&demoLatency=soon')).toEqual({ scenario: 'normal', latencyMs: DEFAULT_DEMO_LATENCY_MS });
+  });
+});
@@ -0,0 +1,151 @@
+import { TextParsingClient } from './apiClient';
+import { parseText as parseLocally, validateContent } from '../parsing/textParsing';
+import { abortableDelay, abortError } from '../utils/retry';
+import {
+  ApiError,
+  ConnectionCheck,
+  ParseRequest,
+  ParseResult,
+  PartialParseError,
+  ValidationError,
+  ValidationResult
+} from '../types/api';
+
+/**
+ * In-memory stand-in for the .NET API, used by tests and demo mode.
+ * Requests are answered by the in-browser parsing engine and fail the way the real API and
+ * axios client do - 400s as ValidationError/PartialParseError, 500s as ApiError - so the UI
+ * sees the same errors it would in production.
+ */
+
+/**
+ * How parse and validate requests are answered:
+ * - 'normal': run the parsing engine; invalid content fails validation as it would on the server
+ * - 'validation-failure': every parse fails validation, keeping whatever was extracted
+ * - 'server-error': every request fails with a 500
+ */
+export type FakeScenario = 'normal' | 'validation-failure' | 'server-error';
+
+export const FAKE_SCENARIOS: FakeScenario[] = ['normal', 'validation-failure', 'server-error'];
+
+export type FakeHealth = 'healthy' | 'unhealthy' | 'offline';
+
+export interface FakeBackendOptions {
+  scenario: FakeScenario;
+  /** Delay before every response, in ms */
+  latencyMs: number;
+  health: FakeHealth;
+  /** Answers parse requests instead of the scenario, e.g. to script a result in a test; throw to fail */
+  onParse?: (request: ParseRequest) => ParseResult | Promise<ParseResult>;
+  /** Answers validate requests instead of the scenario */
+  onValidate?: (request: ParseRequest) => ValidationResult | Promise<ValidationResult>;
+}
+
+export interface FakeRequest {
+  endpoint: 'parse' | 'validate' | 'health';
+  content?: string;
+  jurisdiction?: string;
+}
+
+export interface FakeBackend extends TextParsingClient {
+  /** Every request received, oldest first */
+  readonly requests: FakeRequest[];
+  /** Changes how later requests are answered */
+  configure(options: Partial<FakeBackendOptions>): void;
+}
+
+const DEFAULT_OPTIONS: FakeBackendOptions = { scenario: 'normal', latencyMs: 0, health: 'healthy' };
+
+// Matches the real client's degraded threshold
+const DEGRADED_LATENCY_MS = 2000;
+const DEMO_URL = 'in-memory demo backend';
+
+// What the API's 500 handler returns, as the axios interceptor reports it
+const serverError = () => new ApiError('Internal server error', 500, ['An unexpected error occurred']);
+
+export function createFakeBackend(options: Partial<FakeBackendOptions> = {}): FakeBackend {
+  let settings: FakeBackendOptions = { ...DEFAULT_OPTIONS, ...options };
+  const requests: FakeRequest[] = [];
+
+  const respond = async <T>(answer: () => T | Promise<T>, signal?: AbortSignal): Promise<T> => {
+    // Without latency, answer in the same tick so tests need no timers
+    if (settings.latencyMs > 0) {
+      await abortableDelay(settings.latencyMs, signal);
+    } else if (signal?.aborted) {
+      throw abortError();
+    }
+    return answer();
+  };
+
+  const parse = (request: ParseRequest): ParseResult => {
+    if (settings.scenario === 'server-error') {
+      throw serverError();
+    }
+    if (!request.content.trim()) {
+      throw new ValidationError('Validation failed', ['Content is required']);
+    }
+
+    const result = parseLocally(request.content, request.jurisdiction);
+    if (result.isValid && settings.scenario === 'normal') {
+      return result;
+    }
+
+    const errors = result.isValid ? ['Invalid total amount format'] : result.errors;
+    throw new PartialParseError('Validation failed', errors, { ...result, isValid: false, calculations: null, errors });
+  };
+
+  const validate = (request: ParseRequest): ValidationResult => {
+    if (settings.scenario === 'server-error') {
+      throw serverError();
+    }
+    if (!request.content.trim()) {
+      throw new ValidationError('Validation failed', ['Content is required']);
+    }
+    return validateContent(request.content);
+  };
+
+  const checkHealth = (startedAt: number): ConnectionCheck => {
+    const latencyMs = Date.now() - startedAt;
+    if (settings.health === 'offline') {
+      return { connected: false, status: 'offline', message: `Failed to connect to API at ${DEMO_URL}`, latencyMs: null, checkedAt: new Date() };
+    }
+    if (settings.health === 'unhealthy' || latencyMs > DEGRADED_LATENCY_MS) {
+      return {
+        connected: true,
+        status: 'degraded',
+        message: settings.health === 'unhealthy'
+          ? `API at ${DEMO_URL} reported an unhealthy status`
+          : `API at ${DEMO_URL} is responding slowly (${latencyMs} ms)`,
+        latencyMs,
+        checkedAt: new Date()
+      };
+    }
+    return { connected: true, status: 'connected', message: `Connected to API at ${DEMO_URL}`, latencyMs, checkedAt: new Date() };
+  };
+
+  return {
+    requests,
+
+    configure(changes: Partial<FakeBackendOptions>) {
+      settings = { ...settings, ...changes };
+    },
+
+    parseText(content: string, jurisdiction?: string, signal?: AbortSignal) {
+      const request: ParseRequest = { content, jurisdiction };
+      requests.push({ endpoint: 'parse', ...request });
+      return respond(() => (settings.onParse ? settings.onParse(request) : parse(request)), signal);
+    },
+
+    validateText(content: string, signal?: AbortSignal) {
+      const request: ParseRequest = { content };
+      requests.push({ endpoint: 'validate', content });
+      return respond(() => (settings.onValidate ? settings.onValidate(request) : validate(request)), signal);
+    },
+
+    testConnection(signal?: AbortSignal) {
+      const startedAt = Date.now();
+      requests.push({ endpoint: 'health' });
+      return respond(() => checkHealth(startedAt), signal);
+    }
+  };
+}
@@ -0,0 +1,53 @@
+import { NetworkLog, payloadSize } from './networkLog';
+import { createCorrelationId } from '../utils/correlationId';
+
+describe('network log', () => {
+  test('records a request as it starts and completes it with timing and response', () => {
+    const log = new NetworkLog();
+    const listener = jest.fn();
+    log.subscribe(listener);
+
+    log.started('id-1', 'post', '/api/textparser/parse', { content: '<total>115</total>' }, new Date(1000));
+    expect(log.getEntries()[0]).toMatchObject({ method: 'POST', status: null, durationMs: null, requestBytes: 32 });
+
+    log.finished('id-1', { status: 200, responseBody: { success: true } }, new Date(1250));
+
+    expect(log.getEntries()).toEqual([expect.objectContaining({
+      correlationId: 'id-1',
+      status: 200,
+      durationMs: 250,
+      responseBody: { success: true },
+      responseBytes: 16
+    })]);
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+
+  test('keeps the newest entries up to its limit', () => {
+    const log = new NetworkLog(2);
+
+    ['a', 'b', 'c'].forEach(id => log.started(id, 'get', '/health', undefined));
+
+    expect(log.getEntries().map(entry => entry.correlationId)).toEqual(['c', 'b']);
+  });
+
+  test('marks requests that got no response', () => {
+    const log = new NetworkLog();
+    log.started('id-1', 'get', '/health', undefined);
+
+    log.finished('id-1', { status: 0, error: 'Network Error' });
+
+    expect(log.getEntries()[0]).toMatchObject({ status: 0, error: 'Network Error', responseBytes: 0 });
+  });
+
+  test('measures payloads in bytes', () => {
+    expect(payloadSize(undefined)).toBe(0);
+    expect(payloadSize('café')).toBe(5);
+  });
+
+  test('generates distinct v4 correlation IDs', () => {
+    const ids = [createCorrelationId(), createCorrelationId()];
+
+    ids.forEach(id => expect(id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/));
+    expect(ids[0]).not.toBe(ids[1]);
+  });
+});
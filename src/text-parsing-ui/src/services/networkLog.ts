@@ -0,0 +1,96 @@
+/**
+ * Recent API requests, kept for the developer network inspector.
+ * The axios interceptors in textParsingApi.ts record each request as it starts and settles;
+ * components read the entries through useNetworkLog.
+ */
+
+export interface NetworkEntry {
+  correlationId: string;
+  method: string;
+  url: string;
+  startedAt: Date;
+  /** Null while the request is pending */
+  durationMs: number | null;
+  /** HTTP status; 0 when no response arrived, null while pending */
+  status: number | null;
+  requestBytes: number;
+  responseBytes: number | null;
+  responseBody: unknown;
+  /** Why the request failed without a response (network error, timeout, cancelled) */
+  error?: string;
+}
+
+export interface NetworkOutcome {
+  status: number;
+  responseBody?: unknown;
+  /** Taken from Content-Length when the server sent it; otherwise measured from the body */
+  responseBytes?: number;
+  error?: string;
+}
+
+export const MAX_NETWORK_ENTRIES = 50;
+
+/** Size in bytes of a body as it goes over the wire */
+export function payloadSize(body: unknown): number {
+  if (body === undefined || body === null) {
+    return 0;
+  }
+  const text = typeof body === 'string' ? body : JSON.stringify(body);
+  return new Blob([text]).size;
+}
+
+export class NetworkLog {
+  private entries: NetworkEntry[] = [];
+  private readonly listeners = new Set<() => void>();
+
+  constructor(private readonly limit: number = MAX_NETWORK_ENTRIES) {}
+
+  /** Newest first. The array is replaced on every change, so it can be compared by reference */
+  getEntries(): NetworkEntry[] {
+    return this.entries;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  started(correlationId: string, method: string, url: string, requestBody: unknown, startedAt: Date = new Date()): void {
+    const entry: NetworkEntry = {
+      correlationId,
+      method: method.toUpperCase(),
+      url,
+      startedAt,
+      durationMs: null,
+      status: null,
+      requestBytes: payloadSize(requestBody),
+      responseBytes: null,
+      responseBody: null
+    };
+    this.update([entry, ...this.entries].slice(0, this.limit));
+  }
+
+  finished(correlationId: string, outcome: NetworkOutcome, finishedAt: Date = new Date()): void {
+    this.update(this.entries.map(entry => entry.correlationId !== correlationId ? entry : {
+      ...entry,
+      durationMs: finishedAt.getTime() - entry.startedAt.getTime(),
+      status: outcome.status,
+      responseBody: outcome.responseBody ?? null,
+      responseBytes: outcome.responseBytes ?? payloadSize(outcome.responseBody),
+      error: outcome.error
+    }));
+  }
+
+  clear(): void {
+    this.update([]);
+  }
+
+  private update(entries: NetworkEntry[]): void {
+    this.entries = entries;
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const networkLog = new NetworkLog();
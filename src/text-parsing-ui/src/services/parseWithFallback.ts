@@ -0,0 +1,85 @@
+import { TextParsingClient } from './apiClient';
+import { parseText as parseLocally } from '../parsing/textParsing';
+import { ApiError, ParseResult, PartialParseError, ResultSource, ValidationError } from '../types/api';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('parse');
+
+export interface ParseOutcome {
+  result: ParseResult | null;
+  errors: string[];
+  source: ResultSource;
+  /** True when the API could not be reached and the local engine was used instead */
+  apiUnreachable: boolean;
+}
+
+export interface ParseOptions {
+  /** When false the API is skipped and the local engine is used straight away */
+  apiAvailable?: boolean;
+  /** Tax jurisdiction code sent with the request (NZ when omitted) */
+  jurisdiction?: string;
+  /** Cancels the request; the outcome promise then rejects rather than falling back */
+  signal?: AbortSignal;
+}
+
+const localOutcome = (content: string, jurisdiction: string | undefined, apiUnreachable: boolean): ParseOutcome => {
+  const result = parseLocally(content, jurisdiction);
+  return {
+    result,
+    errors: result.isValid ? [] : result.errors,
+    source: 'local',
+    apiUnreachable
+  };
+};
+
+/**
+ * Parses content through the client and maps every failure mode onto a single outcome shape.
+ * Validation failures keep any partial result; network failures fall back to the local engine.
+ */
+export async function parseWithFallback(
+  client: TextParsingClient,
+  content: string,
+  options: ParseOptions = {}
+): Promise<ParseOutcome> {
+  const { apiAvailable = true, jurisdiction, signal } = options;
+
+  if (!apiAvailable) {
+    return localOutcome(content, jurisdiction, false);
+  }
+
+  try {
+    const result = await client.parseText(content, jurisdiction, signal);
+    return {
+      result,
+      errors: !result.isValid && result.errors?.length > 0 ? result.errors : [],
+      source: 'api',
+      apiUnreachable: false
+    };
+  } catch (error) {
+    if (signal?.aborted) {
+      throw error;
+    }
+    log.error('Parse failed', { error });
+
+    if (error instanceof PartialParseError) {
+      // Keep what was extracted so users can see what is missing
+      return { result: error.partialResult, errors: error.validationErrors, source: 'api', apiUnreachable: false };
+    }
+    if (error instanceof ValidationError) {
+      return { result: null, errors: error.validationErrors, source: 'api', apiUnreachable: false };
+    }
+    if (error instanceof ApiError && error.statusCode === 0) {
+      return localOutcome(content, jurisdiction, true);
+    }
+    if (error instanceof ApiError) {
+      return { result: null, errors: error.errors || [error.message], source: 'api', apiUnreachable: false };
+    }
+
+    return {
+      result: null,
+      errors: ['An unexpected error occurred while parsing the text'],
+      source: 'api',
+      apiUnreachable: false
+    };
+  }
+}
@@ -1,12 +1,33 @@
-import axios, { AxiosResponse, AxiosError } from 'axios';
-import { ParseResult, ParseRequest, ApiError, ValidationError, ApiResponse } from '../types/api';
+import axios, { AxiosResponse, AxiosError, InternalAxiosRequestConfig } from 'axios';
+import {
+  ParseResult,
+  ParseRequest,
+  ApiError,
+  ValidationError,
+  PartialParseError,
+  ValidationResult,
+  HealthResponse,
+  ConnectionCheck
+} from '../types/api';
+import { apiResponseDecoder, decodeResponse, parseResultDecoder, validationResultDecoder } from '../types/contract';
+import { withRetry } from '../utils/retry';
+import { InFlightRequests } from '../utils/inFlight';
+import { createLogger } from '../utils/logger';
+import { CORRELATION_ID_HEADER, createCorrelationId } from '../utils/correlationId';
+import { networkLog } from './networkLog';
+
+const log = createLogger('api');
 
 // API Configuration
 // In production, React app is served from the same origin as the API
 // So we can use relative URLs or detect the current origin
 const API_BASE_URL = process.env.REACT_APP_API_URL ||
   (process.env.NODE_ENV === 'production' ? '' : 'https://localhost:7000');
-const API_TIMEOUT = 10000; // 10 seconds
+const API_TIMEOUT = 10000; // 10 seconds per attempt
+const DEGRADED_LATENCY_MS = 2000; // Health checks slower than this report a degraded connection
+const MAX_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 4000;
 
 // Create axios instance with default configuration
 const apiClient = axios.create({
@@ -18,14 +39,25 @@ const apiClient = axios.create({
   },
 });
 
-// Request interceptor for logging
+const correlationIdOf = (config?: InternalAxiosRequestConfig) =>
+  config?.headers?.get(CORRELATION_ID_HEADER) as string | undefined;
+
+const contentLength = (response: AxiosResponse) => {
+  const length = Number(response.headers['content-length']);
+  return Number.isFinite(length) && length > 0 ? length : undefined;
+};
+
+// Request interceptor: tags every request with a correlation ID and records it for the network inspector
 apiClient.interceptors.request.use(
   (config) => {
-    console.log(`API Request: ${config.method?.toUpperCase()} ${config.url}`);
+    const correlationId = createCorrelationId();
+    config.headers.set(CORRELATION_ID_HEADER, correlationId);
+    networkLog.started(correlationId, config.method || 'get', config.url || '', config.data);
+    log.debug('Request sent', { method: config.method?.toUpperCase(), url: config.url, correlationId });
     return config;
   },
   (error) => {
-    console.error('API Request Error:', error);
+    log.error('Request could not be sent', { error });
     return Promise.reject(error);
   }
 );
@@ -33,22 +65,54 @@ apiClient.interceptors.request.use(
 // Response interceptor for error handling
 apiClient.interceptors.response.use(
   (response) => {
-    console.log(`API Response: ${response.status} ${response.statusText}`);
+    const correlationId = correlationIdOf(response.config);
+    if (correlationId) {
+      networkLog.finished(correlationId, {
+        status: response.status,
+        responseBody: response.data,
+        responseBytes: contentLength(response)
+      });
+    }
+    log.debug('Response received', { status: response.status, url: response.config.url, correlationId });
     return response;
   },
   (error) => {
-    console.error('API Response Error:', error);
+    const correlationId = correlationIdOf(error.config);
+
+    // Cancelled requests are expected (e.g. superseded live validation) - pass them through untouched
+    if (axios.isCancel(error)) {
+      if (correlationId) {
+        networkLog.finished(correlationId, { status: 0, error: 'Cancelled' });
+      }
+      return Promise.reject(error);
+    }
+
+    if (correlationId) {
+      networkLog.finished(correlationId, error.response
+        ? { status: error.response.status, responseBody: error.response.data, responseBytes: contentLength(error.response) }
+        : { status: 0, error: error.message });
+    }
+    log.error('Request failed', {
+      status: error.response?.status ?? 0,
+      url: error.config?.url,
+      correlationId,
+      message: error.message
+    });
 
     if (error.response) {
       // Server responded with error status
       const { status, data } = error.response;
 
       if (status === 400 && data?.errors) {
+        const validationErrors = Array.isArray(data.errors) ? data.errors : [data.errors];
+
+        // Parse failures still include whatever was extracted before validation failed
+        if (data.data) {
+          throw new PartialParseError('Validation failed', validationErrors, parseResultDecoder(data.data, 'response.data'));
+        }
+
         // Validation errors
-        throw new ValidationError(
-          'Validation failed',
-          Array.isArray(data.errors) ? data.errors : [data.errors]
-        );
+        throw new ValidationError('Validation failed', validationErrors);
       }
 
       throw new ApiError(
@@ -69,65 +133,128 @@ apiClient.interceptors.response.use(
   }
 );
 
+// Network failures (including timeouts) and server errors may pass; validation failures will not
+const isRetryable = (error: unknown) =>
+  error instanceof ApiError && error.statusCode !== undefined && (error.statusCode === 0 || error.statusCode >= 500);
+
+const retrying = <T>(request: () => Promise<T>, signal?: AbortSignal) =>
+  withRetry(request, {
+    retries: MAX_RETRIES,
+    baseDelayMs: RETRY_BASE_DELAY_MS,
+    maxDelayMs: RETRY_MAX_DELAY_MS,
+    signal,
+    shouldRetry: isRetryable
+  });
+
+// Identical parse requests made while one is pending share its response
+const pendingParses = new InFlightRequests<ParseResult>();
+
 /**
- * Text Parsing API Service
+ * Text Parsing API Service.
+ * Every method takes an optional AbortSignal; parse requests are retried on network and 5xx failures.
  */
 export class TextParsingApiService {
   /**
    * Parse text content and extract XML blocks, tagged fields, and calculate tax
+   * for the given jurisdiction (the API defaults to NZ GST when it is omitted)
    */
-  static async parseText(content: string): Promise<ParseResult> {
+  static async parseText(content: string, jurisdiction?: string, signal?: AbortSignal): Promise<ParseResult> {
     try {
-      const request: ParseRequest = { content };
-
-      const response: AxiosResponse<ApiResponse<ParseResult>> = await apiClient.post(
-        '/api/textparser/parse',
-        request
-      );
+      const request: ParseRequest = { content, jurisdiction };
 
-      // Extract data from the API response wrapper
-      if (response.data.success && response.data.data) {
-        return response.data.data;
-      } else {
-        // Handle API-level errors
-        throw new ValidationError(
-          response.data.errors?.[0] || 'API returned an error',
-          response.data.errors || []
+      return await pendingParses.share(JSON.stringify(request), sharedSignal => retrying(async () => {
+        const response: AxiosResponse<unknown> = await apiClient.post(
+          '/api/textparser/parse',
+          request,
+          { signal: sharedSignal }
         );
-      }
+        // Throws a ContractError naming the field when the payload is not what the UI expects
+        const body = decodeResponse(apiResponseDecoder(parseResultDecoder), response.data);
+
+        // Extract data from the API response wrapper
+        if (body.success && body.data) {
+          return body.data;
+        } else {
+          // Handle API-level errors
+          throw new ValidationError(body.errors[0] || 'API returned an error', body.errors);
+        }
+      }, sharedSignal), signal);
     } catch (error) {
-      console.error('Parse text failed:', error);
+      log.error('Parse text failed', { error });
       throw error;
     }
   }
 
   /**
-   * Health check endpoint to verify API connectivity
+   * Validate text content structure without performing full parsing.
+   * Pass an AbortSignal to cancel a request that has been superseded.
+   * Not retried: live validation falls back to the local engine at once, and the next keystroke sends a fresh request.
    */
-  static async healthCheck(): Promise<boolean> {
-    try {
-      const response = await apiClient.get('/health');
-      return response.status === 200;
-    } catch (error) {
-      console.warn('Health check failed:', error);
-      return false;
+  static async validateText(content: string, signal?: AbortSignal): Promise<ValidationResult> {
+    const request: ParseRequest = { content };
+
+    const response: AxiosResponse<unknown> = await apiClient.post('/api/textparser/validate', request, { signal });
+    const body = decodeResponse(apiResponseDecoder(validationResultDecoder), response.data);
+
+    if (body.success && body.data) {
+      return body.data;
     }
+
+    throw new ValidationError(body.errors[0] || 'API returned an error', body.errors);
   }
 
   /**
-   * Test connection to API
+   * Health check endpoint to verify API connectivity
    */
-  static async testConnection(): Promise<{ connected: boolean; message: string }> {
+  static async healthCheck(signal?: AbortSignal): Promise<boolean> {
+    const result = await this.testConnection(signal);
+    return result.connected;
+  }
+
+  /**
+   * Test connection to API.
+   * A reachable API that is slow or reports itself unhealthy is treated as degraded.
+   * Not retried: the connection monitor checks again on its own schedule, and a retry would hide the latency.
+   */
+  static async testConnection(signal?: AbortSignal): Promise<ConnectionCheck> {
+    const startedAt = Date.now();
+
     try {
-      await this.healthCheck();
+      const response: AxiosResponse<HealthResponse> = await apiClient.get('/health', { signal });
+      const latencyMs = Date.now() - startedAt;
+      const healthy = response.data?.status === 'Healthy';
+
+      if (healthy && latencyMs <= DEGRADED_LATENCY_MS) {
+        return {
+          connected: true,
+          status: 'connected',
+          message: `Connected to API at ${API_BASE_URL}`,
+          latencyMs,
+          checkedAt: new Date()
+        };
+      }
+
       return {
         connected: true,
-        message: `Connected to API at ${API_BASE_URL}`
+        status: 'degraded',
+        message: healthy
+          ? `API at ${API_BASE_URL} is responding slowly (${latencyMs} ms)`
+          : `API at ${API_BASE_URL} reported an unhealthy status`,
+        latencyMs,
+        checkedAt: new Date()
       };
     } catch (error) {
+      // A cancelled check says nothing about the API
+      if (signal?.aborted) {
+        throw error;
+      }
+      log.warn('Health check failed', { error });
       return {
         connected: false,
-        message: `Failed to connect to API at ${API_BASE_URL}`
+        status: 'offline',
+        message: `Failed to connect to API at ${API_BASE_URL}`,
+        latencyMs: null,
+        checkedAt: new Date()
       };
     }
   }
@@ -0,0 +1,32 @@
+import { Metric } from 'web-vitals';
+
+/**
+ * The latest value of each web-vitals metric, collected by reportWebVitals for the developer inspector.
+ */
+export class WebVitalsLog {
+  private metrics: Metric[] = [];
+  private readonly listeners = new Set<() => void>();
+
+  /** One metric per name, in the order they were first reported */
+  getMetrics(): Metric[] {
+    return this.metrics;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // An arrow function so it can be passed straight to reportWebVitals
+  record = (metric: Metric): void => {
+    const index = this.metrics.findIndex(existing => existing.name === metric.name);
+    this.metrics = index >= 0
+      ? this.metrics.map((existing, i) => (i === index ? metric : existing))
+      : [...this.metrics, metric];
+    this.listeners.forEach(listener => listener());
+  };
+}
+
+export const webVitalsLog = new WebVitalsLog();
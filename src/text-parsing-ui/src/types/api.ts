@@ -1,34 +1,99 @@
 // TypeScript interfaces matching the .NET API models
+import type {
+  apiResponseDecoder,
+  Decoded,
+  errorDetailDecoder,
+  parseResultDecoder,
+  taxCalculationDecoder,
+  validationResultDecoder,
+  xmlBlockDecoder
+} from './contract';
 
-export interface XmlBlock {
-  tagName: string;
-  fields: Record<string, string>;
-  rawXml: string;
+// Response models are derived from the runtime decoders in ./contract
+export type XmlBlock = Decoded<typeof xmlBlockDecoder>;
+
+export type TaxCalculation = Decoded<typeof taxCalculationDecoder>;
+
+export type ParseResult = Decoded<typeof parseResultDecoder>;
+
+export type ValidationResult = Decoded<typeof validationResultDecoder>;
+
+export type ApiResponse<T> = Decoded<ReturnType<typeof apiResponseDecoder<T>>>;
+
+export type ErrorDetail = Decoded<typeof errorDetailDecoder>;
+
+export type ErrorSeverity = ErrorDetail['severity'];
+
+export type ErrorCode = ErrorDetail['code'];
+
+/** Position of an error in the submitted text; line and column are 1-based */
+export interface SourceLocation {
+  line: number;
+  column: number;
+  offset: number;
+  length: number;
 }
 
-export interface TaxCalculation {
-  totalIncludingTax: number;
-  taxAmount: number;
-  totalExcludingTax: number;
-  taxRate: number;
+/**
+ * An error message tied to the rule that produced it and, where possible, to the text that caused it
+ */
+export interface StructuredError {
+  code: ErrorCode;
+  severity: ErrorSeverity;
+  message: string;
+  tagName?: string;
+  location?: SourceLocation;
+  /** Set when the message was reported at more than one place; tagName and location are the first of them */
+  occurrences?: number;
 }
 
-export interface ParseResult {
-  xmlBlocks: XmlBlock[];
-  taggedFields: Record<string, string>;
-  calculations: TaxCalculation;
-  isValid: boolean;
-  errors: string[];
+// Errors reported without details (network failures, older API versions) stay plain strings
+export type DisplayError = string | StructuredError;
+
+/**
+ * Where a value in a parse result came from: the element it was read from, a configured default,
+ * an earlier duplicate that a later one replaced, or nowhere in the current text (it has been edited)
+ */
+export type FieldSource =
+  | { kind: 'extracted'; location: SourceLocation }
+  | { kind: 'defaulted' }
+  | { kind: 'overridden'; location: SourceLocation; overriddenBy: SourceLocation }
+  | { kind: 'unknown' };
+
+export interface TracedField {
+  name: string;
+  value: string;
+  source: FieldSource;
 }
 
+export interface FieldProvenance {
+  taggedFields: TracedField[];
+  /** Fields of each XML block, in the same order as the result's xmlBlocks */
+  xmlBlocks: TracedField[][];
+}
+
+// Where a result came from: the API, or the in-browser parsing engine used while offline
+export type ResultSource = 'api' | 'local';
+
 export interface ParseRequest {
   content: string;
+  /** Tax jurisdiction code (NZ, AU or UK); the API defaults to NZ */
+  jurisdiction?: string;
 }
 
-export interface ApiResponse<T> {
-  success: boolean;
-  data: T;
-  errors: string[];
+export interface HealthResponse {
+  status: string;
+  timestamp: string;
+}
+
+export type ConnectionStatus = 'connected' | 'degraded' | 'offline';
+
+export interface ConnectionCheck {
+  connected: boolean;
+  status: ConnectionStatus;
+  message: string;
+  latencyMs: number | null;
+  checkedAt: Date;
 }
 
 // Error types for better error handling
@@ -43,6 +108,21 @@ export class ApiError extends Error {
   }
 }
 
+/**
+ * A response that does not match the API contract; `path` names the offending field
+ * (e.g. "response.data.calculations.taxRate")
+ */
+export class ContractError extends ApiError {
+  constructor(
+    public path: string,
+    public expected: string,
+    public received: string
+  ) {
+    super(`Unexpected API response: ${path} should be ${expected}, but was ${received}`);
+    this.name = 'ContractError';
+  }
+}
+
 export class ValidationError extends Error {
   constructor(
     message: string,
@@ -52,3 +132,18 @@ export class ValidationError extends Error {
     this.name = 'ValidationError';
   }
 }
+
+/**
+ * Validation failure that still carries the partial parse result returned by the API
+ * (the XML blocks and tagged fields found before validation failed)
+ */
+export class PartialParseError extends ValidationError {
+  constructor(
+    message: string,
+    validationErrors: string[],
+    public partialResult: ParseResult
+  ) {
+    super(message, validationErrors);
+    this.name = 'PartialParseError';
+  }
+}
@@ -0,0 +1,94 @@
+import { apiResponseDecoder, decodeResponse, parseResultDecoder, validationResultDecoder } from './contract';
+import { ApiError, ContractError } from './api';
+
+const parseResponse = (data: unknown) => ({ success: true, data, errors: [], message: '' });
+
+const validResult = {
+  xmlBlocks: [{ tagName: 'expense', fields: { total: '115' }, rawXml: '<expense><total>115</total></expense>' }],
+  taggedFields: { vendor: 'Cafe' },
+  calculations: {
+    totalIncludingTax: 115,
+    taxAmount: 15,
+    totalExcludingTax: 100,
+    taxRate: 15,
+    taxName: 'GST',
+    currency: 'NZD',
+    jurisdiction: 'NZ'
+  },
+  isValid: true,
+  errors: [],
+  errorDetails: []
+};
+
+const decodeParse = (body: unknown) => decodeResponse(apiResponseDecoder(parseResultDecoder), body);
+
+const contractErrorOf = (decode: () => unknown): ContractError => {
+  try {
+    decode();
+  } catch (error) {
+    return error as ContractError;
+  }
+  throw new Error('Expected the payload to be rejected');
+};
+
+describe('API response contract', () => {
+  test('decodes a valid parse response and drops fields the UI does not know', () => {
+    const decoded = decodeParse({ ...parseResponse({ ...validResult, extra: 'ignored' }) });
+
+    expect(decoded.data).toEqual(validResult);
+    expect(decoded).not.toHaveProperty('message');
+  });
+
+  test('accepts the null calculations the server sends when there is no total', () => {
+    expect(decodeParse(parseResponse({ ...validResult, calculations: null })).data?.calculations).toBeNull();
+  });
+
+  test('names the exact field that breaks the contract', () => {
+    const body = parseResponse({
+      ...validResult,
+      calculations: { ...validResult.calculations, taxRate: '15' }
+    });
+
+    const error = contractErrorOf(() => decodeParse(body));
+
+    expect(error).toBeInstanceOf(ContractError);
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.path).toBe('response.data.calculations.taxRate');
+    expect(error.message).toBe('Unexpected API response: response.data.calculations.taxRate should be a number, but was the string "15"');
+  });
+
+  test('reports paths into arrays and maps', () => {
+    const blocks = [validResult.xmlBlocks[0], { tagName: 'expense', fields: { total: 115 }, rawXml: '' }];
+
+    expect(contractErrorOf(() => decodeParse(parseResponse({ ...validResult, xmlBlocks: blocks }))).message)
+      .toBe('Unexpected API response: response.data.xmlBlocks[1].fields.total should be a string, but was number 115');
+    expect(contractErrorOf(() => decodeParse(parseResponse({ ...validResult, taggedFields: undefined }))).path)
+      .toBe('response.data.taggedFields');
+  });
+
+  test('fills in validation warnings and error details when the server leaves them out', () => {
+    const decoded = decodeResponse(apiResponseDecoder(validationResultDecoder), {
+      success: true,
+      data: { isValid: false, errors: ['Unclosed tag: <total>'] }
+    });
+
+    expect(decoded).toEqual({
+      success: true,
+      data: { isValid: false, errors: ['Unclosed tag: <total>'], warnings: {}, errorDetails: [] },
+      errors: []
+    });
+  });
+
+  test('checks error details against the codes the UI knows', () => {
+    const detail = { code: 'unclosed-tag', severity: 'error', message: 'Unclosed tag detected', tagName: 'total', offset: 0, length: 7 };
+    const invalid = (errorDetails: unknown[]) =>
+      parseResponse({ ...validResult, isValid: false, errors: ['Unclosed tag detected'], errorDetails });
+
+    expect(decodeParse(invalid([detail])).data?.errorDetails).toEqual([detail]);
+    expect(contractErrorOf(() => decodeParse(invalid([{ ...detail, code: 'tag-trouble' }]))).message).toBe(
+      'Unexpected API response: response.data.errorDetails[0].code should be one of "empty-content", "unclosed-tag", '
+      + '"malformed-xml", "missing-required-field", "invalid-field", "invalid-total", "unsupported-jurisdiction", '
+      + '"parsing-error", "validation-warning", but was the string "tag-trouble"'
+    );
+  });
+});
@@ -0,0 +1,158 @@
+import { ContractError } from './api';
+
+/**
+ * Runtime decoders for the API's response payloads.
+ * Each decoder checks an unknown JSON value and returns it typed, or throws a ContractError naming
+ * the exact field that is wrong. The response types in ./api are derived from these decoders,
+ * so the compile-time contract and the runtime check cannot drift apart.
+ */
+
+export type Decoder<T> = (value: unknown, path: string) => T;
+
+export type Decoded<D> = D extends Decoder<infer T> ? T : never;
+
+const describeValue = (value: unknown): string => {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'an array';
+  }
+  if (typeof value === 'string') {
+    return `the string ${JSON.stringify(value.length > 40 ? `${value.slice(0, 40)}…` : value)}`;
+  }
+  if (typeof value === 'object') {
+    return 'an object';
+  }
+  return value === undefined ? 'missing' : `${typeof value} ${String(value)}`;
+};
+
+const check = <T>(expected: string, test: (value: unknown) => boolean): Decoder<T> => (value, path) => {
+  if (!test(value)) {
+    throw new ContractError(path, expected, describeValue(value));
+  }
+  return value as T;
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const string: Decoder<string> = check('a string', value => typeof value === 'string');
+
+export const number: Decoder<number> = check('a number', value => typeof value === 'number' && Number.isFinite(value));
+
+export const boolean: Decoder<boolean> = check('a boolean', value => typeof value === 'boolean');
+
+export const nullable = <T>(decoder: Decoder<T>): Decoder<T | null> => (value, path) =>
+  value === null || value === undefined ? null : decoder(value, path);
+
+/**
+ * Accepts a missing or null field as the fallback, for fields older API versions leave out
+ */
+export const withDefault = <T>(decoder: Decoder<T>, fallback: T): Decoder<T> => (value, path) =>
+  value === null || value === undefined ? fallback : decoder(value, path);
+
+/**
+ * Accepts one of a fixed set of strings, such as an error code
+ */
+export const oneOf = <T extends string>(values: readonly T[]): Decoder<T> =>
+  check(`one of ${values.map(value => JSON.stringify(value)).join(', ')}`, value => values.includes(value as T));
+
+export const array = <T>(item: Decoder<T>): Decoder<T[]> => (value, path) => {
+  if (!Array.isArray(value)) {
+    throw new ContractError(path, 'an array', describeValue(value));
+  }
+  return value.map((entry, index) => item(entry, `${path}[${index}]`));
+};
+
+export const record = <T>(entry: Decoder<T>): Decoder<Record<string, T>> => (value, path) => {
+  if (!isPlainObject(value)) {
+    throw new ContractError(path, 'an object', describeValue(value));
+  }
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, entry(item, `${path}.${key}`)]));
+};
+
+/**
+ * Checks the listed properties and drops any others, so extra server fields never leak into the UI
+ */
+export const object = <S extends Record<string, Decoder<unknown>>>(shape: S): Decoder<{ [K in keyof S]: Decoded<S[K]> }> =>
+  (value, path) => {
+    if (!isPlainObject(value)) {
+      throw new ContractError(path, 'an object', describeValue(value));
+    }
+    const decoded = {} as { [K in keyof S]: Decoded<S[K]> };
+    for (const key of Object.keys(shape) as Array<keyof S & string>) {
+      decoded[key] = shape[key](value[key], `${path}.${key}`) as Decoded<S[typeof key]>;
+    }
+    return decoded;
+  };
+
+export const xmlBlockDecoder = object({
+  tagName: string,
+  fields: record(string),
+  rawXml: string
+});
+
+export const taxCalculationDecoder = object({
+  totalIncludingTax: number,
+  taxAmount: number,
+  totalExcludingTax: number,
+  taxRate: number,
+  taxName: string,
+  currency: string,
+  jurisdiction: string
+});
+
+/**
+ * An error or warning as the parser or validator raised it. The offset and length point into the
+ * submitted content, and are null when the problem has no single place in it
+ */
+export const errorDetailDecoder = object({
+  code: oneOf([
+    'empty-content',
+    'unclosed-tag',
+    'malformed-xml',
+    'missing-required-field',
+    'invalid-field',
+    'invalid-total',
+    'unsupported-jurisdiction',
+    'parsing-error',
+    'validation-warning'
+  ] as const),
+  severity: oneOf(['error', 'warning', 'info'] as const),
+  message: string,
+  tagName: nullable(string),
+  offset: nullable(number),
+  length: nullable(number)
+});
+
+export const parseResultDecoder = object({
+  xmlBlocks: array(xmlBlockDecoder),
+  taggedFields: record(string),
+  // ParseResultDto.Calculations is null when no total was found
+  calculations: nullable(taxCalculationDecoder),
+  isValid: boolean,
+  errors: array(string),
+  errorDetails: withDefault(array(errorDetailDecoder), [])
+});
+
+export const validationResultDecoder = object({
+  isValid: boolean,
+  errors: array(string),
+  warnings: withDefault(record(string), {}),
+  errorDetails: withDefault(array(errorDetailDecoder), [])
+});
+
+export const apiResponseDecoder = <T>(data: Decoder<T>) => object({
+  success: boolean,
+  // ApiResponse<T>.Data is null when the request failed
+  data: nullable(data),
+  errors: withDefault(array(string), [])
+});
+
+/**
+ * Decodes a whole response body; paths in errors start at "response"
+ */
+export function decodeResponse<T>(decoder: Decoder<T>, body: unknown): T {
+  return decoder(body, 'response');
+}
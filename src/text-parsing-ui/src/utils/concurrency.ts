@@ -0,0 +1,59 @@
+/**
+ * Runs an async worker over every item with at most `limit` calls in flight.
+ * Results keep the order of the input items.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const runNext = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await worker(items[index], index);
+    }
+  };
+
+  const runners = Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, runNext);
+  await Promise.all(runners);
+
+  return results;
+}
+
+export interface Limiter {
+  /** Starts the task once fewer than the limit are running; resolves or rejects with it */
+  run<R>(task: () => Promise<R>): Promise<R>;
+}
+
+/**
+ * A queue shared by every caller that runs at most `limit` tasks at once, in the order they were queued.
+ * Unlike mapWithConcurrency, separate batches of work submitted to one limiter share the same limit.
+ */
+export function createLimiter(limit: number): Limiter {
+  const waiting: Array<() => void> = [];
+  let running = 0;
+
+  const startNext = () => {
+    if (running < Math.max(limit, 1) && waiting.length > 0) {
+      running++;
+      waiting.shift()!();
+    }
+  };
+
+  return {
+    run<R>(task: () => Promise<R>): Promise<R> {
+      return new Promise<R>((resolve, reject) => {
+        waiting.push(() => {
+          task().then(resolve, reject).finally(() => {
+            running--;
+            startNext();
+          });
+        });
+        startNext();
+      });
+    }
+  };
+}
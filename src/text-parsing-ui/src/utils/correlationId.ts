@@ -0,0 +1,18 @@
+/**
+ * Correlation IDs tie a request seen in the browser to the same request in the API's logs.
+ */
+
+export const CORRELATION_ID_HEADER = 'X-Correlation-ID';
+
+const randomHex = (length: number) =>
+  Array.from({ length }, () => Math.floor(Math.random() * 16).toString(16)).join('');
+
+/** A random v4 UUID; falls back to Math.random where crypto.randomUUID is unavailable (older browsers, jsdom) */
+export function createCorrelationId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+
+  const variant = (8 + Math.floor(Math.random() * 4)).toString(16);
+  return `${randomHex(8)}-${randomHex(4)}-4${randomHex(3)}-${variant}${randomHex(3)}-${randomHex(12)}`;
+}
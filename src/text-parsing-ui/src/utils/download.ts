@@ -0,0 +1,33 @@
+/**
+ * Browser helpers for handing generated files to the user
+ */
+
+export function downloadFile(content: string, fileName: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // Revoke on the next tick so the download has started before the URL goes away
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/**
+ * Opens an HTML document in a new window and shows the print dialog.
+ * Returns false when the window was blocked (e.g. by a pop-up blocker).
+ */
+export function openPrintWindow(html: string): boolean {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) {
+    return false;
+  }
+
+  printWindow.document.open();
+  printWindow.document.write(html);
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+  return true;
+}
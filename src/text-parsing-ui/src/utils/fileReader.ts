@@ -0,0 +1,27 @@
+/**
+ * Promise wrappers around FileReader
+ */
+
+/**
+ * Reads a file as a "binary string" with one character per byte, leaving charset decoding to the caller
+ */
+export function readFileAsBinaryString(file: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error || new Error('Failed to read file'));
+    reader.readAsBinaryString(file);
+  });
+}
+
+/**
+ * Reads a file as UTF-8 text
+ */
+export function readFileAsText(file: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error || new Error('Failed to read file'));
+    reader.readAsText(file);
+  });
+}
@@ -0,0 +1,11 @@
+/**
+ * Shared display formatting helpers
+ */
+
+// Formatting every currency in one locale keeps symbols distinct ("$" for NZD, "A$" for AUD)
+export const formatCurrency = (amount: number, currency: string = 'NZD'): string => {
+  return new Intl.NumberFormat('en-NZ', {
+    style: 'currency',
+    currency
+  }).format(amount);
+};
@@ -0,0 +1,50 @@
+import { InFlightRequests } from './inFlight';
+
+const deferred = <T,>() => {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>(done => {
+    resolve = done;
+  });
+  return { promise, resolve };
+};
+
+describe('in-flight request sharing', () => {
+  test('shares one pending request between callers with the same key', async () => {
+    const requests = new InFlightRequests<string>();
+    const response = deferred<string>();
+    const start = jest.fn(() => response.promise);
+
+    const first = requests.share('a', start);
+    const second = requests.share('a', start);
+    response.resolve('parsed');
+
+    await expect(Promise.all([first, second])).resolves.toEqual(['parsed', 'parsed']);
+    expect(start).toHaveBeenCalledTimes(1);
+    expect(requests.size).toBe(0);
+  });
+
+  test('only aborts the shared request once every caller has cancelled', async () => {
+    const requests = new InFlightRequests<string>();
+    const response = deferred<string>();
+    let requestSignal: AbortSignal | undefined;
+    const start = (signal: AbortSignal) => {
+      requestSignal = signal;
+      return response.promise;
+    };
+    const firstCaller = new AbortController();
+    const secondCaller = new AbortController();
+
+    const first = requests.share('a', start, firstCaller.signal);
+    const second = requests.share('a', start, secondCaller.signal);
+
+    firstCaller.abort();
+    await expect(first).rejects.toMatchObject({ name: 'AbortError' });
+    expect(requestSignal?.aborted).toBe(false);
+
+    secondCaller.abort();
+    await expect(second).rejects.toMatchObject({ name: 'AbortError' });
+    expect(requestSignal?.aborted).toBe(true);
+    // A later caller starts afresh rather than joining the abandoned request
+    expect(requests.size).toBe(0);
+  });
+});
@@ -0,0 +1,68 @@
+import { abortError } from './retry';
+
+interface SharedRequest<T> {
+  promise: Promise<T>;
+  controller: AbortController;
+  /** Callers still waiting; the request is aborted when the last one cancels */
+  subscribers: number;
+}
+
+/**
+ * Shares one pending request between callers asking for the same key.
+ * Each caller can cancel with its own signal; the underlying request is only aborted
+ * once every caller sharing it has cancelled. Keys are forgotten as soon as the request settles.
+ */
+export class InFlightRequests<T> {
+  private readonly pending = new Map<string, SharedRequest<T>>();
+
+  get size(): number {
+    return this.pending.size;
+  }
+
+  share(key: string, start: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (signal?.aborted) {
+      return Promise.reject(abortError());
+    }
+
+    const shared = this.pending.get(key) || this.start(key, start);
+    shared.subscribers++;
+
+    if (!signal) {
+      return shared.promise;
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const leave = () => {
+        shared.subscribers--;
+        if (shared.subscribers === 0) {
+          this.forget(key, shared);
+          shared.controller.abort();
+        }
+        reject(abortError());
+      };
+
+      signal.addEventListener('abort', leave, { once: true });
+      shared.promise
+        .then(resolve, reject)
+        .finally(() => signal.removeEventListener('abort', leave));
+    });
+  }
+
+  private start(key: string, start: (signal: AbortSignal) => Promise<T>): SharedRequest<T> {
+    const controller = new AbortController();
+    const shared = { controller, subscribers: 0 } as SharedRequest<T>;
+
+    shared.promise = start(controller.signal).finally(() => this.forget(key, shared));
+    // Callers that cancelled no longer listen, so an abandoned request must not surface as unhandled
+    shared.promise.catch(() => undefined);
+    this.pending.set(key, shared);
+
+    return shared;
+  }
+
+  private forget(key: string, shared: SharedRequest<T>) {
+    if (this.pending.get(key) === shared) {
+      this.pending.delete(key);
+    }
+  }
+}
@@ -0,0 +1,53 @@
+import { createLogger, defaultLogThreshold, LogEntry, setLogSink, setLogThreshold } from './logger';
+
+describe('structured logger', () => {
+  let entries: LogEntry[];
+
+  beforeEach(() => {
+    entries = [];
+    setLogSink(entry => entries.push(entry));
+  });
+
+  afterEach(() => {
+    setLogSink();
+    setLogThreshold(defaultLogThreshold());
+  });
+
+  test('writes entries with their level, scope and context', () => {
+    setLogThreshold('debug');
+
+    createLogger('api').info('Response received', { status: 200, correlationId: 'abc' });
+
+    expect(entries).toEqual([{
+      level: 'info',
+      scope: 'api',
+      message: 'Response received',
+      status: 200,
+      correlationId: 'abc',
+      timestamp: expect.stringMatching(/^\d{4}-\d{2}-\d{2}T/)
+    }]);
+  });
+
+  test('drops entries below the threshold and everything when silent', () => {
+    // Renamed so the testing-library lint rule does not take it for screen.debug()
+    const { debug: logDebug, info, warn, error } = createLogger('api');
+
+    setLogThreshold('warn');
+    logDebug('Request sent');
+    info('Response received');
+    warn('Health check failed');
+    error('Request failed');
+    expect(entries.map(entry => entry.level)).toEqual(['warn', 'error']);
+
+    setLogThreshold('silent');
+    error('Request failed');
+    expect(entries).toHaveLength(2);
+  });
+
+  test('is off in production unless a level is configured', () => {
+    expect(defaultLogThreshold(undefined, 'production')).toBe('silent');
+    expect(defaultLogThreshold('warn', 'production')).toBe('warn');
+    expect(defaultLogThreshold(undefined, 'development')).toBe('debug');
+    expect(defaultLogThreshold('verbose', 'development')).toBe('debug');
+  });
+});
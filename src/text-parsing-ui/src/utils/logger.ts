@@ -0,0 +1,75 @@
+/**
+ * Structured, levelled client logging.
+ * Each entry is a plain object (level, scope, message, timestamp and any context fields) so it can be
+ * filtered in the browser console or forwarded elsewhere. Logging is off in production builds unless
+ * REACT_APP_LOG_LEVEL turns it back on.
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogThreshold = LogLevel | 'silent';
+
+export interface LogEntry {
+  level: LogLevel;
+  /** The part of the app that logged the entry, e.g. 'api' */
+  scope: string;
+  message: string;
+  timestamp: string;
+  [context: string]: unknown;
+}
+
+export type LogSink = (entry: LogEntry) => void;
+
+export interface Logger {
+  debug(message: string, context?: Record<string, unknown>): void;
+  info(message: string, context?: Record<string, unknown>): void;
+  warn(message: string, context?: Record<string, unknown>): void;
+  error(message: string, context?: Record<string, unknown>): void;
+}
+
+const SEVERITY: Record<LogThreshold, number> = { debug: 0, info: 1, warn: 2, error: 3, silent: 4 };
+
+const isThreshold = (value: string | undefined): value is LogThreshold => value !== undefined && value in SEVERITY;
+
+export function defaultLogThreshold(
+  configured: string | undefined = process.env.REACT_APP_LOG_LEVEL,
+  environment: string | undefined = process.env.NODE_ENV
+): LogThreshold {
+  if (isThreshold(configured)) {
+    return configured;
+  }
+  return environment === 'production' ? 'silent' : 'debug';
+}
+
+const consoleSink: LogSink = entry => {
+  console[entry.level](`[${entry.scope}] ${entry.message}`, entry);
+};
+
+let threshold: LogThreshold = defaultLogThreshold();
+let sink: LogSink = consoleSink;
+
+/** Changes the lowest level written by every logger; 'silent' turns logging off */
+export function setLogThreshold(level: LogThreshold): void {
+  threshold = level;
+}
+
+/** Sends entries somewhere other than the console (pass nothing to restore it) */
+export function setLogSink(next: LogSink = consoleSink): void {
+  sink = next;
+}
+
+export function createLogger(scope: string): Logger {
+  const write = (level: LogLevel) => (message: string, context: Record<string, unknown> = {}) => {
+    if (SEVERITY[level] < SEVERITY[threshold]) {
+      return;
+    }
+    sink({ ...context, level, scope, message, timestamp: new Date().toISOString() });
+  };
+
+  return {
+    debug: write('debug'),
+    info: write('info'),
+    warn: write('warn'),
+    error: write('error')
+  };
+}
@@ -0,0 +1,14 @@
+import { ParseResult } from '../types/api';
+
+/**
+ * Looks up an extracted field by name.
+ * Tagged fields win over XML block fields, matching how the API picks the total.
+ */
+export function findFieldValue(result: ParseResult, fieldName: string): string | undefined {
+  if (result.taggedFields && fieldName in result.taggedFields) {
+    return result.taggedFields[fieldName];
+  }
+
+  const block = (result.xmlBlocks || []).find(b => fieldName in b.fields);
+  return block?.fields[fieldName];
+}
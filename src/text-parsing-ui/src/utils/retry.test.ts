@@ -0,0 +1,38 @@
+import { backoffDelay, withRetry } from './retry';
+
+describe('retry with backoff', () => {
+  test('doubles the delay each attempt, capped, with jitter over the upper half', () => {
+    expect([0, 1, 2, 3, 4].map(attempt => backoffDelay(attempt, 500, 4000, () => 0))).toEqual([250, 500, 1000, 2000, 2000]);
+    expect(backoffDelay(1, 500, 4000, () => 0.999)).toBe(1000);
+  });
+
+  test('retries retryable failures until the operation succeeds', async () => {
+    const operation = jest.fn()
+      .mockRejectedValueOnce(new Error('503'))
+      .mockRejectedValueOnce(new Error('503'))
+      .mockResolvedValue('parsed');
+
+    await expect(withRetry(operation, { retries: 3, baseDelayMs: 1 })).resolves.toBe('parsed');
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+
+  test('gives up straight away on failures that should not be retried', async () => {
+    const operation = jest.fn().mockRejectedValue(new Error('400'));
+
+    await expect(withRetry(operation, { shouldRetry: error => (error as Error).message !== '400' })).rejects.toThrow('400');
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  test('stops waiting for the next attempt when aborted', async () => {
+    const controller = new AbortController();
+    const operation = jest.fn().mockRejectedValue(new Error('network'));
+
+    const result = withRetry(operation, { signal: controller.signal });
+    // Let the first attempt fail so the retry is waiting
+    await new Promise(resolve => setTimeout(resolve, 0));
+    controller.abort();
+
+    await expect(result).rejects.toMatchObject({ name: 'AbortError' });
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+});
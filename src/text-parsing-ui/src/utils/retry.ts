@@ -0,0 +1,69 @@
+/**
+ * Retries a failing async operation with exponential backoff and jitter.
+ * Each wait is at least half of base * 2^attempt (capped), plus a random share of the other half,
+ * so clients that failed together do not all retry at the same moment.
+ */
+
+export interface RetryOptions {
+  /** Attempts after the first one */
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  /** Stops waiting and retrying once aborted */
+  signal?: AbortSignal;
+  /** Whether a failure is worth another attempt; everything is retried when omitted */
+  shouldRetry?: (error: unknown) => boolean;
+  /** Source of jitter in [0, 1) */
+  random?: () => number;
+}
+
+/**
+ * The error an aborted wait rejects with, matching what fetch and axios report for an aborted request
+ */
+export const abortError = () => new DOMException('The request was cancelled', 'AbortError');
+
+export function backoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number, random: () => number = Math.random): number {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+  return Math.round(ceiling / 2 + random() * ceiling / 2);
+}
+
+export function abortableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export async function withRetry<T>(operation: (attempt: number) => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const {
+    retries = 3,
+    baseDelayMs = 500,
+    maxDelayMs = 8000,
+    signal,
+    shouldRetry = () => true,
+    random = Math.random
+  } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (signal?.aborted || attempt >= retries || !shouldRetry(error)) {
+        throw error;
+      }
+      await abortableDelay(backoffDelay(attempt, baseDelayMs, maxDelayMs, random), signal);
+    }
+  }
+}